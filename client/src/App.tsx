@@ -14,6 +14,7 @@ import Templates from "@/pages/templates";
 import TemplateEditor from "@/pages/template-editor";
 import Team from "@/pages/team";
 import Assets from "@/pages/assets";
+import Campaigns from "@/pages/campaigns";
 
 function ProtectedRoute({ children }: { children: React.ReactNode }) {
   const { isAuthenticated, isLoading } = useAuth();
@@ -120,6 +121,12 @@ function Router() {
         </ProtectedRoute>
       </Route>
 
+      <Route path="/campaigns">
+        <ProtectedRoute>
+          <Campaigns />
+        </ProtectedRoute>
+      </Route>
+
       {/* Analytics and Settings - placeholder for future implementation */}
       <Route path="/analytics">
         <ProtectedRoute>
@@ -0,0 +1,95 @@
+import { formatDistanceToNow } from "date-fns";
+import { AlertTriangle, GitMerge, RefreshCw, Save } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+interface EditConflictDialogProps {
+  isOpen: boolean;
+  serverUpdatedAt: string | Date | null;
+  // Fields that differ between the server copy and the editor
+  changedFields: string[];
+  // Fields both sides changed; a merge keeps the editor's value for these
+  overlappingFields: string[];
+  isSaving: boolean;
+  onReload: () => void;
+  onMerge: () => void;
+  onForceSave: () => void;
+  onClose: () => void;
+}
+
+export function EditConflictDialog({
+  isOpen,
+  serverUpdatedAt,
+  changedFields,
+  overlappingFields,
+  isSaving,
+  onReload,
+  onMerge,
+  onForceSave,
+  onClose,
+}: EditConflictDialogProps) {
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <AlertTriangle className="mr-2 h-5 w-5 text-amber-500" />
+            Someone else saved this template
+          </DialogTitle>
+          <DialogDescription>
+            The template was changed
+            {serverUpdatedAt ? ` ${formatDistanceToNow(new Date(serverUpdatedAt), { addSuffix: true })}` : ""}
+            {" "}after you opened it. Your changes have not been saved.
+          </DialogDescription>
+        </DialogHeader>
+
+        {changedFields.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium text-gray-700">Fields that differ from the saved copy</p>
+            <div className="flex flex-wrap gap-1">
+              {changedFields.map((field) => (
+                <Badge key={field} variant={overlappingFields.includes(field) ? "destructive" : "secondary"}>
+                  {field}
+                </Badge>
+              ))}
+            </div>
+            {overlappingFields.length > 0 && (
+              <p className="text-xs text-gray-500">
+                Fields in red were changed by both of you. Merging keeps your version of them.
+              </p>
+            )}
+          </div>
+        )}
+
+        <div className="space-y-2 text-sm text-gray-600">
+          <p><span className="font-medium text-gray-900">Reload</span> discards your changes and loads the saved copy.</p>
+          <p><span className="font-medium text-gray-900">Merge</span> applies their changes to fields you did not touch, so you can review before saving.</p>
+          <p><span className="font-medium text-gray-900">Overwrite</span> saves your version over theirs.</p>
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={onReload} disabled={isSaving}>
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Reload
+          </Button>
+          <Button variant="outline" onClick={onMerge} disabled={isSaving}>
+            <GitMerge className="h-4 w-4 mr-2" />
+            Merge
+          </Button>
+          <Button variant="destructive" onClick={onForceSave} disabled={isSaving}>
+            <Save className="h-4 w-4 mr-2" />
+            Overwrite
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
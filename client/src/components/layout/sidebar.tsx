@@ -4,6 +4,7 @@ import {
   LayoutDashboard, 
   Users, 
   Upload, 
+  Megaphone,
   BarChart3, 
   Settings,
   ChevronRight,
@@ -24,6 +25,7 @@ const navigation = [
   { name: "Templates", href: "/templates", icon: FileSignature },
   { name: "Team", href: "/team", icon: Users },
   { name: "Assets", href: "/assets", icon: Upload },
+  { name: "Campaigns", href: "/campaigns", icon: Megaphone },
   { name: "Analytics", href: "/analytics", icon: BarChart3 },
   { name: "Settings", href: "/settings", icon: Settings },
 ];
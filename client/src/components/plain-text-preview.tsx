@@ -0,0 +1,62 @@
+import { useState } from "react";
+import { Edit, RotateCcw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { htmlToPlainText } from "@shared/plain-text";
+
+interface PlainTextPreviewProps {
+  html: string;
+  override: string | null;
+  onOverrideChange: (value: string | null) => void;
+}
+
+export function PlainTextPreview({ html, override, onOverrideChange }: PlainTextPreviewProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const derived = htmlToPlainText(html);
+  const text = override ?? derived;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <Badge variant={override === null ? "secondary" : "outline"}>
+          {override === null ? "Generated from HTML" : "Written by hand"}
+        </Badge>
+        <div className="flex space-x-2">
+          {override !== null && (
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => {
+                onOverrideChange(null);
+                setIsEditing(false);
+              }}
+            >
+              <RotateCcw className="h-4 w-4 mr-1" />
+              Use Generated
+            </Button>
+          )}
+          {!isEditing && (
+            <Button type="button" variant="outline" size="sm" onClick={() => setIsEditing(true)}>
+              <Edit className="h-4 w-4 mr-1" />
+              Edit
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {isEditing ? (
+        <Textarea
+          value={text}
+          rows={10}
+          className="font-mono text-sm"
+          onChange={(e) => onOverrideChange(e.target.value)}
+          onBlur={() => setIsEditing(false)}
+        />
+      ) : (
+        <pre className="whitespace-pre-wrap font-mono text-sm text-gray-800">{text}</pre>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+import { useMemo } from "react";
+import { AlertCircle, AlertTriangle, Accessibility, CheckCircle2, Info, Wand2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { type LintSeverity } from "@shared/template-linter";
+import { auditAccessibility, type AccessibilityIssue } from "@shared/accessibility";
+
+type Suggestion = NonNullable<AccessibilityIssue["suggestion"]>;
+
+interface TemplateAccessibilityPanelProps {
+  html: string;
+  // Apply a suggested value to the editor's style settings
+  onApplySuggestion?: (suggestion: Suggestion) => void;
+}
+
+const SEVERITY_STYLES: Record<LintSeverity, { icon: typeof Info; className: string }> = {
+  error: { icon: AlertCircle, className: "border-red-200 bg-red-50 text-red-800" },
+  warning: { icon: AlertTriangle, className: "border-amber-200 bg-amber-50 text-amber-800" },
+  info: { icon: Info, className: "border-blue-200 bg-blue-50 text-blue-800" },
+};
+
+export function TemplateAccessibilityPanel({ html, onApplySuggestion }: TemplateAccessibilityPanelProps) {
+  // Same audit as POST /api/templates/:id/accessibility, run on the unsaved signature
+  const result = useMemo(() => auditAccessibility(html), [html]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center">
+            <Accessibility className="mr-2 h-5 w-5" />
+            Accessibility
+          </span>
+          <span className="flex items-center space-x-2">
+            {result.passed ? (
+              <Badge className="bg-green-100 text-green-800 hover:bg-green-100">WCAG AA</Badge>
+            ) : (
+              <Badge variant="destructive">{result.summary.error} failing</Badge>
+            )}
+            {result.summary.warning > 0 && <Badge variant="secondary">{result.summary.warning} warnings</Badge>}
+          </span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {result.issues.length === 0 ? (
+          <p className="flex items-center text-sm text-green-700">
+            <CheckCircle2 className="mr-2 h-4 w-4" />
+            Text is readable and every image and link has a text alternative.
+          </p>
+        ) : (
+          <ul className="space-y-2 max-h-72 overflow-y-auto">
+            {result.issues.map((issue, index) => {
+              const { icon: Icon, className } = SEVERITY_STYLES[issue.severity];
+              return (
+                <li key={index} className={`flex items-start p-2 rounded border text-sm ${className}`}>
+                  <Icon className="mr-2 h-4 w-4 flex-shrink-0 mt-0.5" />
+                  <div className="min-w-0 flex-1">
+                    <p className="break-words">{issue.message}</p>
+                    <p className="break-words mt-0.5">
+                      <span className="font-medium">Fix:</span> {issue.fix}
+                    </p>
+                    <p className="text-xs opacity-75 mt-0.5">
+                      {issue.rule}
+                      {" · "}
+                      {issue.location.element ? `<${issue.location.element}> at ` : ""}
+                      line {issue.location.line}, column {issue.location.column}
+                    </p>
+                  </div>
+                  {issue.suggestion && onApplySuggestion && (
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      className="ml-2 h-7 px-2 text-xs flex-shrink-0"
+                      onClick={() => onApplySuggestion(issue.suggestion!)}
+                    >
+                      {issue.suggestion.property === "color" && (
+                        <span
+                          className="mr-1 h-3 w-3 rounded-sm border"
+                          style={{ backgroundColor: issue.suggestion.to }}
+                        />
+                      )}
+                      <Wand2 className="mr-1 h-3 w-3" />
+                      Use {issue.suggestion.to}
+                    </Button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,135 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Check, LayoutTemplate } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, type ApiResponse } from "@/lib/queryClient";
+import { GALLERY_CATEGORIES, type GalleryCategory, type GalleryEntry } from "@shared/template-gallery";
+
+interface GalleryListing extends GalleryEntry {
+  built_in: boolean;
+  is_active: boolean;
+  thumbnail_html: string;
+}
+
+interface TemplateGalleryProps {
+  // Called with the new template's ID once an entry has been used
+  onCreated?: (templateId: number) => void;
+}
+
+const CATEGORY_LABELS: Record<GalleryCategory, string> = {
+  professional: "Professional",
+  creative: "Creative",
+  minimal: "Minimal",
+};
+
+export function TemplateGallery({ onCreated }: TemplateGalleryProps) {
+  const [category, setCategory] = useState<GalleryCategory | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: galleryResponse, isLoading } = useQuery<ApiResponse<GalleryListing[]>>({
+    queryKey: ["/api/templates/gallery"],
+  });
+  const entries = (galleryResponse?.data || []).filter((entry) => !category || entry.category === category);
+
+  const createFromEntryMutation = useMutation({
+    mutationFn: async (slug: string) => {
+      const response = await apiRequest("POST", `/api/templates/gallery/${slug}/use`, {});
+      return response.json() as Promise<ApiResponse<{ id: number; name: string }>>;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/templates"] });
+      toast({
+        title: "Template created",
+        description: `"${result.data.name}" was added to your templates.`,
+      });
+      onCreated?.(result.data.id);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to create template from the gallery",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        <Button
+          type="button"
+          size="sm"
+          variant={category === null ? "default" : "outline"}
+          onClick={() => setCategory(null)}
+        >
+          All
+        </Button>
+        {GALLERY_CATEGORIES.map((value) => (
+          <Button
+            key={value}
+            type="button"
+            size="sm"
+            variant={category === value ? "default" : "outline"}
+            onClick={() => setCategory(value)}
+          >
+            {CATEGORY_LABELS[value]}
+          </Button>
+        ))}
+      </div>
+
+      {isLoading ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {[1, 2, 3].map((i) => (
+            <Skeleton key={i} className="h-56 w-full" />
+          ))}
+        </div>
+      ) : entries.length === 0 ? (
+        <div className="text-center py-8 text-sm text-gray-500">
+          <LayoutTemplate className="mx-auto h-8 w-8 text-gray-400 mb-2" />
+          No starter templates in this category.
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {entries.map((entry) => (
+            <Card key={entry.slug} className={entry.is_active ? "" : "opacity-60"}>
+              <CardContent className="p-4 space-y-3">
+                {/* Thumbnails are full signatures, scaled down to fit the card */}
+                <div className="h-32 overflow-hidden border rounded bg-white p-3">
+                  <div
+                    className="origin-top-left scale-[0.6] w-[166%]"
+                    dangerouslySetInnerHTML={{ __html: entry.thumbnail_html }}
+                  />
+                </div>
+                <div>
+                  <div className="flex items-center justify-between gap-2">
+                    <h4 className="font-medium text-gray-900">{entry.name}</h4>
+                    <div className="flex items-center gap-1">
+                      {!entry.is_active && <Badge variant="outline">Hidden</Badge>}
+                      <Badge variant="secondary">{CATEGORY_LABELS[entry.category]}</Badge>
+                    </div>
+                  </div>
+                  {entry.description && <p className="text-sm text-gray-500 mt-1">{entry.description}</p>}
+                </div>
+                <Button
+                  type="button"
+                  size="sm"
+                  className="w-full"
+                  disabled={!entry.is_active || createFromEntryMutation.isPending}
+                  onClick={() => createFromEntryMutation.mutate(entry.slug)}
+                >
+                  <Check className="mr-2 h-4 w-4" />
+                  Use this template
+                </Button>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
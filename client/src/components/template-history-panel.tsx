@@ -0,0 +1,203 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { History, RotateCcw, GitCompare } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, type ApiResponse } from "@/lib/queryClient";
+
+interface VersionAuthor {
+  id: number;
+  first_name: string;
+  last_name: string;
+  email: string;
+}
+
+interface TemplateVersionSummary {
+  id: number;
+  version: number;
+  name: string;
+  created_at: string;
+  author: VersionAuthor | null;
+}
+
+interface DiffLine {
+  line: number;
+  text: string;
+}
+
+interface DiffRow {
+  type: "equal" | "added" | "removed" | "changed";
+  left: DiffLine | null;
+  right: DiffLine | null;
+}
+
+interface TemplateDiff {
+  from: { version: number };
+  to: { version: number };
+  rows: DiffRow[];
+}
+
+interface TemplateHistoryPanelProps {
+  templateId: number;
+  onRestored?: () => void;
+}
+
+const LEFT_ROW_STYLES: Record<DiffRow["type"], string> = {
+  equal: "",
+  added: "bg-gray-50",
+  removed: "bg-red-50 text-red-800",
+  changed: "bg-red-50 text-red-800",
+};
+
+const RIGHT_ROW_STYLES: Record<DiffRow["type"], string> = {
+  equal: "",
+  added: "bg-green-50 text-green-800",
+  removed: "bg-gray-50",
+  changed: "bg-green-50 text-green-800",
+};
+
+export function TemplateHistoryPanel({ templateId, onRestored }: TemplateHistoryPanelProps) {
+  const [compareVersion, setCompareVersion] = useState<number | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const versionsKey = `/api/templates/${templateId}/versions`;
+
+  const { data: versionsResponse, isLoading } = useQuery<ApiResponse<TemplateVersionSummary[]>>({
+    queryKey: [versionsKey],
+  });
+  const versions = versionsResponse?.data || [];
+  const latestVersion = versions[0]?.version;
+
+  const { data: diffResponse, isLoading: diffLoading } = useQuery<ApiResponse<TemplateDiff>>({
+    queryKey: [`${versionsKey}/diff?from=${compareVersion}&to=${latestVersion}`],
+    enabled: compareVersion !== null && latestVersion !== undefined,
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (version: number) => {
+      return apiRequest("POST", `${versionsKey}/${version}/restore`);
+    },
+    onSuccess: (_data, version) => {
+      queryClient.invalidateQueries({ queryKey: [versionsKey] });
+      queryClient.invalidateQueries({ queryKey: [`/api/templates/${templateId}`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/templates"] });
+      setCompareVersion(null);
+      toast({
+        title: "Version restored",
+        description: `Version ${version} was restored as a new version.`,
+      });
+      onRestored?.();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to restore version",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleRestore = (version: number) => {
+    if (confirm(`Restore version ${version}? The current content will be kept in history.`)) {
+      restoreMutation.mutate(version);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <History className="mr-2 h-5 w-5" />
+          Version History
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="space-y-2">
+            {[1, 2, 3].map((i) => (
+              <Skeleton key={i} className="h-12 w-full" />
+            ))}
+          </div>
+        ) : versions.length === 0 ? (
+          <p className="text-sm text-gray-500">No saved versions yet.</p>
+        ) : (
+          <div className="space-y-2 max-h-72 overflow-y-auto">
+            {versions.map((version) => (
+              <div
+                key={version.id}
+                className={`flex items-center justify-between p-3 rounded-lg border ${
+                  compareVersion === version.version ? "border-blue-500 bg-blue-50" : "border-gray-200"
+                }`}
+              >
+                <div className="min-w-0">
+                  <div className="flex items-center space-x-2">
+                    <Badge variant={version.version === latestVersion ? "default" : "secondary"}>
+                      v{version.version}
+                    </Badge>
+                    <span className="text-sm font-medium text-gray-900 truncate">{version.name}</span>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {version.author ? `${version.author.first_name} ${version.author.last_name}` : "Unknown author"}
+                    {" · "}
+                    {formatDistanceToNow(new Date(version.created_at), { addSuffix: true })}
+                  </p>
+                </div>
+                {version.version !== latestVersion && (
+                  <div className="flex space-x-1 flex-shrink-0">
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setCompareVersion(compareVersion === version.version ? null : version.version)}
+                    >
+                      <GitCompare className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      disabled={restoreMutation.isPending}
+                      onClick={() => handleRestore(version.version)}
+                    >
+                      <RotateCcw className="h-4 w-4" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {compareVersion !== null && (
+          <div className="border rounded-lg overflow-hidden">
+            <div className="grid grid-cols-2 bg-gray-100 text-xs font-medium text-gray-700">
+              <div className="px-3 py-2 border-r">v{compareVersion}</div>
+              <div className="px-3 py-2">v{latestVersion} (current)</div>
+            </div>
+            {diffLoading ? (
+              <Skeleton className="h-32 w-full" />
+            ) : (
+              <div className="max-h-96 overflow-auto font-mono text-xs">
+                {diffResponse?.data.rows.map((row, index) => (
+                  <div key={index} className="grid grid-cols-2">
+                    <pre className={`px-3 py-0.5 border-r whitespace-pre-wrap break-all ${LEFT_ROW_STYLES[row.type]}`}>
+                      {row.left?.text ?? ""}
+                    </pre>
+                    <pre className={`px-3 py-0.5 whitespace-pre-wrap break-all ${RIGHT_ROW_STYLES[row.type]}`}>
+                      {row.right?.text ?? ""}
+                    </pre>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
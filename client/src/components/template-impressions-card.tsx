@@ -0,0 +1,82 @@
+import { useQuery } from "@tanstack/react-query";
+import { Eye } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { type ApiResponse } from "@/lib/queryClient";
+
+interface TemplateImpressions {
+  id: number;
+  name: string;
+  impressions: number;
+  senders: number;
+}
+
+interface ImpressionSummary {
+  from: string;
+  to: string | null;
+  impressions: number;
+  templates: TemplateImpressions[];
+  days: { day: string; impressions: number }[];
+}
+
+export function TemplateImpressionsCard() {
+  const { data: response, isLoading } = useQuery<ApiResponse<ImpressionSummary>>({
+    queryKey: ["/api/tracking/impressions"],
+  });
+  const summary = response?.data;
+  const busiestDay = Math.max(1, ...(summary?.days.map((day) => day.impressions) ?? []));
+
+  return (
+    <Card className="mt-8">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+        <CardTitle className="text-base font-medium">Signature Impressions</CardTitle>
+        <span className="text-xs text-gray-500">Last 30 days</span>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-3">
+            <Skeleton className="h-8 w-24" />
+            <Skeleton className="h-16 w-full" />
+          </div>
+        ) : !summary || summary.impressions === 0 ? (
+          <div className="text-center py-6">
+            <Eye className="mx-auto h-12 w-12 text-gray-400" />
+            <h3 className="mt-2 text-sm font-medium text-gray-900">No impressions yet</h3>
+            <p className="mt-1 text-sm text-gray-500">
+              Turn on open tracking in tenant settings to count how often signatures are seen.
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div>
+              <p className="text-3xl font-bold text-gray-900">{summary.impressions.toLocaleString()}</p>
+              <p className="text-xs text-gray-500">Unique readers per day, automated fetches excluded</p>
+            </div>
+
+            <div className="flex items-end h-16 gap-px">
+              {summary.days.map((day) => (
+                <div
+                  key={day.day}
+                  className="flex-1 bg-blue-500 rounded-t"
+                  style={{ height: `${(day.impressions / busiestDay) * 100}%` }}
+                  title={`${day.day}: ${day.impressions}`}
+                />
+              ))}
+            </div>
+
+            <div className="divide-y">
+              {summary.templates.map((template) => (
+                <div key={template.id} className="flex items-center justify-between py-2 text-sm">
+                  <span className="font-medium text-gray-900 truncate">{template.name}</span>
+                  <span className="text-gray-500 shrink-0 ml-4">
+                    {template.impressions.toLocaleString()} impressions · {template.senders} senders
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,68 @@
+import { useMemo } from "react";
+import { AlertCircle, AlertTriangle, CheckCircle2, Info, ListChecks } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { lintTemplateHtml, type LintSeverity } from "@shared/template-linter";
+
+interface TemplateLintPanelProps {
+  html: string;
+}
+
+const SEVERITY_STYLES: Record<LintSeverity, { icon: typeof Info; className: string }> = {
+  error: { icon: AlertCircle, className: "border-red-200 bg-red-50 text-red-800" },
+  warning: { icon: AlertTriangle, className: "border-amber-200 bg-amber-50 text-amber-800" },
+  info: { icon: Info, className: "border-blue-200 bg-blue-50 text-blue-800" },
+};
+
+export function TemplateLintPanel({ html }: TemplateLintPanelProps) {
+  // Same checks as POST /api/templates/:id/lint, run on the unsaved signature
+  const result = useMemo(() => lintTemplateHtml(html), [html]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center">
+            <ListChecks className="mr-2 h-5 w-5" />
+            Quality Checks
+          </span>
+          <span className="flex items-center space-x-2">
+            {result.summary.error > 0 && <Badge variant="destructive">{result.summary.error} errors</Badge>}
+            {result.summary.warning > 0 && <Badge variant="secondary">{result.summary.warning} warnings</Badge>}
+            <Badge variant="outline">
+              {result.size.characters.toLocaleString()} / {result.size.limit.toLocaleString()} chars
+            </Badge>
+          </span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {result.issues.length === 0 ? (
+          <p className="flex items-center text-sm text-green-700">
+            <CheckCircle2 className="mr-2 h-4 w-4" />
+            No problems found. This signature should render consistently in email clients.
+          </p>
+        ) : (
+          <ul className="space-y-2 max-h-72 overflow-y-auto">
+            {result.issues.map((issue, index) => {
+              const { icon: Icon, className } = SEVERITY_STYLES[issue.severity];
+              return (
+                <li key={index} className={`flex items-start p-2 rounded border text-sm ${className}`}>
+                  <Icon className="mr-2 h-4 w-4 flex-shrink-0 mt-0.5" />
+                  <div className="min-w-0">
+                    <p className="break-words">{issue.message}</p>
+                    <p className="text-xs opacity-75 mt-0.5">
+                      {issue.rule}
+                      {" · "}
+                      {issue.location.element ? `<${issue.location.element}> at ` : ""}
+                      line {issue.location.line}, column {issue.location.column}
+                    </p>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -9,7 +9,11 @@ import {
 } from "@/components/ui/dialog";
 import { Badge } from "@/components/ui/badge";
 import { Card } from "@/components/ui/card";
+import { TEMPLATE_STATUS_LABELS, getStatusBadgeVariant } from "@/components/template-workflow-actions";
+import { TemplateUserPreview } from "@/components/template-user-preview";
+import { useTenant } from "@/hooks/use-tenant";
 import { type SignatureTemplate } from "@shared/schema";
+import { sanitizeEmailHtml } from "@shared/html-sanitizer";
 
 interface TemplatePreviewModalProps {
   template: SignatureTemplate | null;
@@ -28,6 +32,8 @@ export function TemplatePreviewModal({
   onDuplicate,
   onDelete,
 }: TemplatePreviewModalProps) {
+  const { isAdmin } = useTenant();
+
   if (!template) return null;
 
   return (
@@ -59,17 +65,25 @@ export function TemplatePreviewModal({
               
               {/* Actual template preview using saved HTML content */}
               <div 
-                dangerouslySetInnerHTML={{ __html: template.htmlContent || '' }}
+                dangerouslySetInnerHTML={{ __html: sanitizeEmailHtml(template.htmlContent || '').html }}
                 className="signature-preview"
               />
             </Card>
           </div>
 
+          {/* Fully rendered for a real team member */}
+          {isAdmin && (
+            <div>
+              <h3 className="text-sm font-medium text-gray-900 mb-3">Preview as a team member</h3>
+              <TemplateUserPreview key={template.id} templateId={template.id} />
+            </div>
+          )}
+
           {/* Template Details */}
           <div className="flex items-center justify-between">
             <div className="flex items-center space-x-3">
-              <Badge variant={template.status === 'active' ? 'default' : 'secondary'}>
-                {template.status}
+              <Badge variant={getStatusBadgeVariant(template.status)}>
+                {TEMPLATE_STATUS_LABELS[template.status] || template.status}
               </Badge>
               {template.isShared && (
                 <Badge variant="outline">Shared</Badge>
@@ -0,0 +1,183 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Plus, Tag, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useTenant } from "@/hooks/use-tenant";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+
+export interface TemplateTag {
+  id: number;
+  name: string;
+  color: string | null;
+  templates_count: number;
+  template_ids: number[];
+}
+
+export const TEMPLATE_TAGS_KEY = "/api/template-tags";
+
+interface TemplateTagFilterProps {
+  tags: TemplateTag[];
+  selectedTagId: number | null;
+  onSelect: (tagId: number | null) => void;
+}
+
+export function TemplateTagFilter({ tags, selectedTagId, onSelect }: TemplateTagFilterProps) {
+  if (tags.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Tag className="h-4 w-4 text-gray-400" />
+      <Badge
+        variant={selectedTagId === null ? "default" : "outline"}
+        className="cursor-pointer"
+        onClick={() => onSelect(null)}
+      >
+        All tags
+      </Badge>
+      {tags.map((tag) => (
+        <Badge
+          key={tag.id}
+          variant={selectedTagId === tag.id ? "default" : "outline"}
+          className="cursor-pointer"
+          style={selectedTagId !== tag.id && tag.color ? { borderColor: tag.color, color: tag.color } : undefined}
+          onClick={() => onSelect(selectedTagId === tag.id ? null : tag.id)}
+        >
+          {tag.name}
+          <span className="ml-1 opacity-60">{tag.templates_count}</span>
+        </Badge>
+      ))}
+    </div>
+  );
+}
+
+interface BulkTagToolbarProps {
+  tags: TemplateTag[];
+  templateIds: number[];
+  onClear: () => void;
+}
+
+export function BulkTagToolbar({ tags, templateIds, onClear }: BulkTagToolbarProps) {
+  const [tagId, setTagId] = useState<string>("");
+  const [newTagName, setNewTagName] = useState("");
+  const { isAdmin } = useTenant();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const onError = (error: any) => {
+    toast({
+      title: "Error",
+      description: error.message || "Failed to update tags",
+      variant: "destructive",
+    });
+  };
+
+  const bulkMutation = useMutation({
+    mutationFn: async (change: { add?: number[]; remove?: number[] }) => {
+      return apiRequest("POST", `${TEMPLATE_TAGS_KEY}/bulk`, { template_ids: templateIds, ...change });
+    },
+    onSuccess: (_data, change) => {
+      queryClient.invalidateQueries({ queryKey: [TEMPLATE_TAGS_KEY] });
+      queryClient.invalidateQueries({ queryKey: ["/api/templates"] });
+      toast({
+        title: change.add ? "Tag added" : "Tag removed",
+        description: `Updated ${templateIds.length} template${templateIds.length === 1 ? "" : "s"}.`,
+      });
+    },
+    onError,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (name: string) => {
+      const response = await apiRequest("POST", TEMPLATE_TAGS_KEY, { name });
+      return response.json();
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: [TEMPLATE_TAGS_KEY] });
+      setNewTagName("");
+      if (result?.data?.id) {
+        setTagId(String(result.data.id));
+      }
+    },
+    onError,
+  });
+
+  const selectedTag = tagId ? Number(tagId) : null;
+
+  return (
+    <div className="flex flex-col sm:flex-row sm:items-center gap-3 p-3 rounded-lg border border-blue-200 bg-blue-50">
+      <span className="text-sm font-medium text-blue-900 whitespace-nowrap">
+        {templateIds.length} selected
+      </span>
+
+      <Select value={tagId} onValueChange={setTagId}>
+        <SelectTrigger className="w-full sm:w-48 bg-white">
+          <SelectValue placeholder="Choose a tag" />
+        </SelectTrigger>
+        <SelectContent>
+          {tags.map((tag) => (
+            <SelectItem key={tag.id} value={String(tag.id)}>
+              {tag.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <div className="flex space-x-2">
+        <Button
+          size="sm"
+          disabled={selectedTag === null || bulkMutation.isPending}
+          onClick={() => selectedTag !== null && bulkMutation.mutate({ add: [selectedTag] })}
+        >
+          Add Tag
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          disabled={selectedTag === null || bulkMutation.isPending}
+          onClick={() => selectedTag !== null && bulkMutation.mutate({ remove: [selectedTag] })}
+        >
+          Remove Tag
+        </Button>
+      </div>
+
+      {isAdmin && (
+        <form
+          className="flex space-x-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (newTagName.trim()) {
+              createMutation.mutate(newTagName.trim());
+            }
+          }}
+        >
+          <Input
+            placeholder="New tag"
+            className="h-9 w-full sm:w-36 bg-white"
+            value={newTagName}
+            onChange={(e) => setNewTagName(e.target.value)}
+          />
+          <Button type="submit" size="sm" variant="ghost" disabled={!newTagName.trim() || createMutation.isPending}>
+            <Plus className="h-4 w-4" />
+          </Button>
+        </form>
+      )}
+
+      <Button size="sm" variant="ghost" className="sm:ml-auto" onClick={onClear}>
+        <X className="h-4 w-4 mr-1" />
+        Clear
+      </Button>
+    </div>
+  );
+}
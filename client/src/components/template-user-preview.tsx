@@ -0,0 +1,159 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { AlertTriangle, UserRound } from "lucide-react";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { type ApiResponse } from "@/lib/queryClient";
+import { type SignatureTemplate } from "@shared/schema";
+
+interface TeamMember {
+  id: number;
+  full_name: string;
+  email: string;
+}
+
+interface UserPreview {
+  user: {
+    id: number;
+    full_name: string;
+    email: string;
+    title: string | null;
+    department: string | null;
+    photo_url: string | null;
+  };
+  template: { id: number; name: string; version: number | null; source: "draft" | "published" };
+  locale: string | null;
+  campaign: { id: number; name: string } | null;
+  html: string;
+  text: string;
+  missing_fields: string[];
+}
+
+interface TemplateUserPreviewProps {
+  // Fixed template, picking the team member; or a fixed member, picking the template
+  templateId?: number;
+  userId?: number;
+}
+
+// Readable names for merge fields a profile can leave empty
+const FIELD_LABELS: Record<string, string> = {
+  title: "job title",
+  department: "department",
+  phone: "office phone",
+  mobile: "mobile phone",
+  photo_url: "photo",
+  social_links: "social profiles",
+};
+
+const fieldLabel = (field: string) => FIELD_LABELS[field] ?? field.replace(/[._]/g, " ");
+
+export function TemplateUserPreview({ templateId, userId }: TemplateUserPreviewProps) {
+  const [selectedUserId, setSelectedUserId] = useState<number | null>(userId ?? null);
+  const [selectedTemplateId, setSelectedTemplateId] = useState<number | null>(templateId ?? null);
+
+  const { data: membersResponse } = useQuery<ApiResponse<TeamMember[]>>({
+    queryKey: ["/api/users?limit=100"],
+    enabled: userId === undefined,
+  });
+  const members = membersResponse?.data || [];
+
+  const { data: templates } = useQuery<SignatureTemplate[]>({
+    queryKey: ["/api/templates"],
+    enabled: templateId === undefined,
+  });
+
+  const { data: previewResponse, isLoading, error } = useQuery<ApiResponse<UserPreview>>({
+    queryKey: [`/api/templates/${selectedTemplateId}/preview?user_id=${selectedUserId}`],
+    enabled: selectedTemplateId !== null && selectedUserId !== null,
+  });
+  const preview = previewResponse?.data;
+
+  return (
+    <div className="space-y-4">
+      {userId === undefined && (
+        <div className="space-y-1">
+          <Label className="text-sm">Preview as</Label>
+          <Select
+            value={selectedUserId?.toString() ?? ""}
+            onValueChange={(value) => setSelectedUserId(Number(value))}
+          >
+            <SelectTrigger>
+              <SelectValue placeholder="Choose a team member" />
+            </SelectTrigger>
+            <SelectContent>
+              {members.map((member) => (
+                <SelectItem key={member.id} value={member.id.toString()}>
+                  {member.full_name} ({member.email})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      {templateId === undefined && (
+        <div className="space-y-1">
+          <Label className="text-sm">Template</Label>
+          <Select
+            value={selectedTemplateId?.toString() ?? ""}
+            onValueChange={(value) => setSelectedTemplateId(Number(value))}
+          >
+            <SelectTrigger>
+              <SelectValue placeholder="Choose a template" />
+            </SelectTrigger>
+            <SelectContent>
+              {(templates || []).map((template) => (
+                <SelectItem key={template.id} value={template.id.toString()}>
+                  {template.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      {selectedTemplateId === null || selectedUserId === null ? (
+        <div className="text-center py-6 text-sm text-gray-500">
+          <UserRound className="mx-auto h-8 w-8 text-gray-400 mb-2" />
+          Pick {selectedUserId === null ? "a team member" : "a template"} to see the signature they would send.
+        </div>
+      ) : isLoading ? (
+        <Skeleton className="h-32 w-full" />
+      ) : error ? (
+        <p className="text-sm text-red-600">{(error as Error).message}</p>
+      ) : preview ? (
+        <>
+          {preview.missing_fields.length > 0 && (
+            <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg flex items-start gap-2">
+              <AlertTriangle className="h-4 w-4 text-amber-600 mt-0.5 shrink-0" />
+              <p className="text-sm text-amber-800">
+                {preview.user.full_name}'s profile leaves gaps in this signature:{" "}
+                {preview.missing_fields.map(fieldLabel).join(", ")}.
+              </p>
+            </div>
+          )}
+
+          <div className="border rounded-lg p-4 bg-white">
+            <div
+              dangerouslySetInnerHTML={{ __html: preview.html }}
+              className="signature-preview"
+            />
+          </div>
+
+          <p className="text-xs text-gray-500">
+            {preview.template.source === "published" ? `Published version ${preview.template.version}` : "Working copy"}
+            {preview.locale && ` · ${preview.locale}`}
+            {preview.campaign && ` · Campaign: ${preview.campaign.name}`}
+          </p>
+        </>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Send, CheckCircle, XCircle, Archive, RotateCcw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useTenant } from "@/hooks/use-tenant";
+import { apiRequest } from "@/lib/queryClient";
+
+type WorkflowAction = "submit" | "approve" | "reject" | "archive" | "reopen";
+
+export const TEMPLATE_STATUS_LABELS: Record<string, string> = {
+  draft: "Draft",
+  in_review: "In Review",
+  published: "Published",
+  archived: "Archived",
+};
+
+export function getStatusBadgeVariant(status: string): "default" | "secondary" | "outline" | "destructive" {
+  if (status === "published") return "default";
+  if (status === "in_review") return "outline";
+  return "secondary";
+}
+
+interface TemplateWorkflowActionsProps {
+  templateId: number;
+  status: string;
+}
+
+export function TemplateWorkflowActions({ templateId, status }: TemplateWorkflowActionsProps) {
+  const [dialogAction, setDialogAction] = useState<WorkflowAction | null>(null);
+  const [comment, setComment] = useState("");
+  const { toast } = useToast();
+  const { isAdmin } = useTenant();
+  const queryClient = useQueryClient();
+
+  const transitionMutation = useMutation({
+    mutationFn: async ({ action, comment }: { action: WorkflowAction; comment?: string }) => {
+      return apiRequest("POST", `/api/templates/${templateId}/${action}`, comment ? { comment } : {});
+    },
+    onSuccess: async (response) => {
+      const result = await response.json();
+      queryClient.invalidateQueries({ queryKey: [`/api/templates/${templateId}`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/templates"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/templates/${templateId}/transitions`] });
+      toast({ title: result.message });
+      setDialogAction(null);
+      setComment("");
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update template status",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const runAction = (action: WorkflowAction) => {
+    // Reviews always go through the comment dialog; rejections require one
+    if (action === "approve" || action === "reject") {
+      setDialogAction(action);
+      return;
+    }
+    transitionMutation.mutate({ action });
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Badge variant={getStatusBadgeVariant(status)}>
+        {TEMPLATE_STATUS_LABELS[status] || status}
+      </Badge>
+
+      {status === "draft" && (
+        <Button type="button" variant="outline" size="sm" onClick={() => runAction("submit")} disabled={transitionMutation.isPending}>
+          <Send className="h-4 w-4 mr-1" />
+          Submit for Review
+        </Button>
+      )}
+
+      {isAdmin && status === "in_review" && (
+        <Button type="button" variant="outline" size="sm" onClick={() => runAction("approve")} disabled={transitionMutation.isPending}>
+          <CheckCircle className="h-4 w-4 mr-1" />
+          Approve
+        </Button>
+      )}
+
+      {isAdmin && status === "in_review" && (
+        <Button type="button" variant="outline" size="sm" onClick={() => runAction("reject")} disabled={transitionMutation.isPending}>
+          <XCircle className="h-4 w-4 mr-1" />
+          Reject
+        </Button>
+      )}
+
+      {isAdmin && status !== "archived" && (
+        <Button type="button" variant="ghost" size="sm" onClick={() => runAction("archive")} disabled={transitionMutation.isPending}>
+          <Archive className="h-4 w-4 mr-1" />
+          Archive
+        </Button>
+      )}
+
+      {isAdmin && status === "archived" && (
+        <Button type="button" variant="ghost" size="sm" onClick={() => runAction("reopen")} disabled={transitionMutation.isPending}>
+          <RotateCcw className="h-4 w-4 mr-1" />
+          Reopen
+        </Button>
+      )}
+
+      <Dialog open={dialogAction !== null} onOpenChange={(open) => !open && setDialogAction(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{dialogAction === "reject" ? "Reject Template" : "Approve Template"}</DialogTitle>
+            <DialogDescription>
+              {dialogAction === "reject"
+                ? "The template goes back to draft. Let the author know what needs to change."
+                : "The latest saved version will be served to every assigned user."}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="review-comment">Comment{dialogAction === "reject" ? "" : " (optional)"}</Label>
+            <Textarea
+              id="review-comment"
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              placeholder={dialogAction === "reject" ? "Please use the approved brand colors..." : "Looks good"}
+            />
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setDialogAction(null)}>
+              Cancel
+            </Button>
+            <Button
+              type="button"
+              variant={dialogAction === "reject" ? "destructive" : "default"}
+              disabled={transitionMutation.isPending || (dialogAction === "reject" && !comment.trim())}
+              onClick={() => dialogAction && transitionMutation.mutate({ action: dialogAction, comment: comment.trim() })}
+            >
+              {dialogAction === "reject" ? "Reject" : "Approve"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
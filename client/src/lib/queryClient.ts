@@ -1,12 +1,39 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
 
+// Envelope returned by successResponse() on the server
+export interface ApiResponse<T> {
+  success: boolean;
+  message: string;
+  data: T;
+  timestamp: string;
+}
+
+// Failed request with the server's error code and details, when it sent them
+export class ApiRequestError extends Error {
+  public status: number;
+  public code?: string;
+  public details?: any;
+
+  constructor(message: string, status: number, code?: string, details?: any) {
+    super(message);
+    this.status = status;
+    this.code = code;
+    this.details = details;
+    this.name = "ApiRequestError";
+  }
+}
+
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
     let errorMessage = res.statusText;
     try {
       const errorData = await res.json();
       errorMessage = errorData.error || errorData.message || errorMessage;
-    } catch {
+      throw new ApiRequestError(errorMessage, res.status, errorData.code, errorData.details);
+    } catch (error) {
+      if (error instanceof ApiRequestError) {
+        throw error;
+      }
       // If JSON parsing fails, fall back to text
       try {
         errorMessage = await res.text() || errorMessage;
@@ -14,7 +41,7 @@ async function throwIfResNotOk(res: Response) {
         // Keep original statusText if all else fails
       }
     }
-    throw new Error(errorMessage);
+    throw new ApiRequestError(errorMessage, res.status);
   }
 }
 
@@ -22,9 +49,10 @@ export async function apiRequest(
   method: string,
   url: string,
   data?: unknown | undefined,
+  extraHeaders: Record<string, string> = {},
 ): Promise<Response> {
   const accessToken = localStorage.getItem('access_token');
-  const headers: Record<string, string> = {};
+  const headers: Record<string, string> = { ...extraHeaders };
   
   if (data) {
     headers["Content-Type"] = "application/json";
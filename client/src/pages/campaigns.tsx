@@ -0,0 +1,504 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { AppLayout } from "@/components/layout/app-layout";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { AlertCircle, ChevronLeft, ChevronRight, Megaphone, Plus, Trash2 } from "lucide-react";
+import {
+  addMonths,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameMonth,
+  isToday,
+  startOfMonth,
+  startOfWeek,
+} from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { useTenant } from "@/hooks/use-tenant";
+import { apiRequest, type ApiResponse } from "@/lib/queryClient";
+import { type SignatureTemplate } from "@shared/schema";
+import { compareCampaigns, type CampaignStatus } from "@shared/campaigns";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+
+interface Campaign {
+  id: number;
+  name: string;
+  asset_id: number | null;
+  image_url: string;
+  link_url: string | null;
+  alt_text: string | null;
+  starts_at: string;
+  ends_at: string;
+  priority: number;
+  target_template_ids: number[];
+  target_departments: string[];
+  status: CampaignStatus;
+}
+
+interface ImageAsset {
+  id: number;
+  name: string;
+  url: string;
+}
+
+const CAMPAIGNS_KEY = "/api/campaigns";
+
+const STATUS_STYLES: Record<CampaignStatus, string> = {
+  scheduled: "bg-blue-100 text-blue-800 border-blue-200",
+  active: "bg-green-100 text-green-800 border-green-200",
+  ended: "bg-gray-100 text-gray-600 border-gray-200",
+};
+
+const campaignFormSchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  assetId: z.string().min(1, "Choose a banner image"),
+  linkUrl: z.string().url("Enter a full URL").or(z.literal("")),
+  altText: z.string(),
+  startsAt: z.string().min(1, "Start is required"),
+  endsAt: z.string().min(1, "End is required"),
+  priority: z.coerce.number().int().min(-100).max(100),
+  departments: z.string(),
+}).refine((data) => new Date(data.endsAt) > new Date(data.startsAt), {
+  message: "Campaign must end after it starts",
+  path: ["endsAt"],
+});
+
+type CampaignFormData = z.infer<typeof campaignFormSchema>;
+
+// datetime-local inputs work in local time without a zone
+const toLocalInput = (value: string | Date) => format(new Date(value), "yyyy-MM-dd'T'HH:mm");
+
+const EMPTY_FORM: CampaignFormData = {
+  name: "",
+  assetId: "",
+  linkUrl: "",
+  altText: "",
+  startsAt: "",
+  endsAt: "",
+  priority: 0,
+  departments: "",
+};
+
+export default function Campaigns() {
+  const [month, setMonth] = useState(() => startOfMonth(new Date()));
+  const [editing, setEditing] = useState<Campaign | "new" | null>(null);
+  const [targetTemplateIds, setTargetTemplateIds] = useState<number[]>([]);
+  const [formError, setFormError] = useState("");
+
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { isAdmin } = useTenant();
+
+  // Whole weeks covering the month, so campaigns spilling over the edges show too
+  const gridStart = startOfWeek(month);
+  const gridEnd = endOfWeek(endOfMonth(month));
+  const days = eachDayOfInterval({ start: gridStart, end: gridEnd });
+
+  const calendarUrl = `${CAMPAIGNS_KEY}?from=${gridStart.toISOString()}&to=${gridEnd.toISOString()}`;
+  const { data: calendarResponse, isLoading } = useQuery<ApiResponse<Campaign[]>>({
+    queryKey: [calendarUrl],
+  });
+  const calendarCampaigns = calendarResponse?.data || [];
+
+  // Everything, for the upcoming and past lists below the calendar
+  const { data: allResponse } = useQuery<ApiResponse<Campaign[]>>({
+    queryKey: [CAMPAIGNS_KEY],
+  });
+  const campaigns = allResponse?.data || [];
+  const upcoming = campaigns.filter((campaign) => campaign.status !== "ended");
+  const past = campaigns.filter((campaign) => campaign.status === "ended").reverse();
+
+  const { data: templates } = useQuery<SignatureTemplate[]>({
+    queryKey: ["/api/templates"],
+  });
+
+  const { data: assetsResponse } = useQuery<ApiResponse<{ assets: ImageAsset[] }>>({
+    queryKey: ["/api/upload/assets?limit=100"],
+  });
+  const assets = assetsResponse?.data?.assets || [];
+
+  const form = useForm<CampaignFormData>({
+    resolver: zodResolver(campaignFormSchema),
+    defaultValues: EMPTY_FORM,
+  });
+
+  const invalidateCampaigns = () =>
+    queryClient.invalidateQueries({
+      predicate: (query) => String(query.queryKey[0]).startsWith(CAMPAIGNS_KEY),
+    });
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: CampaignFormData) => {
+      const payload = {
+        name: data.name,
+        asset_id: Number(data.assetId),
+        link_url: data.linkUrl || null,
+        alt_text: data.altText || null,
+        starts_at: new Date(data.startsAt).toISOString(),
+        ends_at: new Date(data.endsAt).toISOString(),
+        priority: data.priority,
+        target_template_ids: targetTemplateIds,
+        target_departments: data.departments
+          .split(",")
+          .map((department) => department.trim())
+          .filter(Boolean),
+      };
+      return editing && editing !== "new"
+        ? apiRequest("PUT", `${CAMPAIGNS_KEY}/${editing.id}`, payload)
+        : apiRequest("POST", CAMPAIGNS_KEY, payload);
+    },
+    onSuccess: () => {
+      invalidateCampaigns();
+      toast({
+        title: editing === "new" ? "Campaign scheduled" : "Campaign updated",
+        description: "Signatures pick up the banner while the campaign is live.",
+      });
+      setEditing(null);
+    },
+    onError: (error: any) => {
+      setFormError(error.message || "Failed to save campaign");
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => apiRequest("DELETE", `${CAMPAIGNS_KEY}/${id}`),
+    onSuccess: () => {
+      invalidateCampaigns();
+      toast({ title: "Campaign deleted" });
+      setEditing(null);
+    },
+    onError: (error: any) => {
+      setFormError(error.message || "Failed to delete campaign");
+    },
+  });
+
+  const openEditor = (campaign: Campaign | "new", day?: Date) => {
+    setFormError("");
+    if (campaign === "new") {
+      const start = day ?? new Date();
+      form.reset({
+        ...EMPTY_FORM,
+        startsAt: toLocalInput(start),
+        endsAt: toLocalInput(new Date(start.getTime() + 7 * 24 * 60 * 60 * 1000)),
+      });
+      setTargetTemplateIds([]);
+    } else {
+      form.reset({
+        name: campaign.name,
+        assetId: campaign.asset_id ? String(campaign.asset_id) : "",
+        linkUrl: campaign.link_url || "",
+        altText: campaign.alt_text || "",
+        startsAt: toLocalInput(campaign.starts_at),
+        endsAt: toLocalInput(campaign.ends_at),
+        priority: campaign.priority,
+        departments: campaign.target_departments.join(", "),
+      });
+      setTargetTemplateIds(campaign.target_template_ids);
+    }
+    setEditing(campaign);
+  };
+
+  // Campaigns live at some point during a day, winner first
+  const campaignsOn = (day: Date) => {
+    const start = day.getTime();
+    const end = start + 24 * 60 * 60 * 1000;
+    return calendarCampaigns
+      .filter((campaign) => new Date(campaign.starts_at).getTime() < end && new Date(campaign.ends_at).getTime() > start)
+      .sort(compareCampaigns);
+  };
+
+  const describeTargets = (campaign: Campaign) => {
+    const templateNames = campaign.target_template_ids
+      .map((id) => templates?.find((template) => template.id === id)?.name ?? `#${id}`);
+    return [
+      templateNames.length ? templateNames.join(", ") : "All templates",
+      campaign.target_departments.length ? campaign.target_departments.join(", ") : "all departments",
+    ].join(" · ");
+  };
+
+  const renderCampaignRow = (campaign: Campaign) => (
+    <div
+      key={campaign.id}
+      className="flex items-center gap-4 p-3 border rounded-lg bg-white hover:shadow-sm cursor-pointer"
+      onClick={() => isAdmin && openEditor(campaign)}
+    >
+      <img src={campaign.image_url} alt={campaign.alt_text || ""} className="h-10 w-24 object-cover rounded border" />
+      <div className="flex-1 min-w-0">
+        <div className="flex items-center gap-2">
+          <span className="font-medium text-gray-900 truncate">{campaign.name}</span>
+          <Badge variant="outline" className={STATUS_STYLES[campaign.status]}>{campaign.status}</Badge>
+          {campaign.priority !== 0 && (
+            <Badge variant="secondary">Priority {campaign.priority}</Badge>
+          )}
+        </div>
+        <p className="text-xs text-gray-500 truncate">
+          {format(new Date(campaign.starts_at), "PP p")} – {format(new Date(campaign.ends_at), "PP p")} · {describeTargets(campaign)}
+        </p>
+      </div>
+    </div>
+  );
+
+  return (
+    <AppLayout title="Campaigns">
+      <div className="max-w-6xl mx-auto space-y-6">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Banner Campaigns</h2>
+            <p className="text-sm text-gray-600">
+              Swap signature banners on a schedule. When campaigns overlap, the highest priority wins,
+              then the one that started most recently.
+            </p>
+          </div>
+          {isAdmin && (
+            <Button onClick={() => openEditor("new")}>
+              <Plus className="mr-2 h-4 w-4" />
+              New Campaign
+            </Button>
+          )}
+        </div>
+
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle>{format(month, "MMMM yyyy")}</CardTitle>
+              <div className="flex items-center gap-2">
+                <Button variant="outline" size="sm" onClick={() => setMonth(addMonths(month, -1))}>
+                  <ChevronLeft className="h-4 w-4" />
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => setMonth(startOfMonth(new Date()))}>
+                  Today
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => setMonth(addMonths(month, 1))}>
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <Skeleton className="h-96 w-full" />
+            ) : (
+              <div className="grid grid-cols-7 border-l border-t rounded overflow-hidden">
+                {days.slice(0, 7).map((day) => (
+                  <div key={`head-${day.toISOString()}`} className="border-r border-b bg-gray-50 px-2 py-1 text-xs font-medium text-gray-500">
+                    {format(day, "EEE")}
+                  </div>
+                ))}
+                {days.map((day) => {
+                  const live = campaignsOn(day);
+                  return (
+                    <div
+                      key={day.toISOString()}
+                      className={`border-r border-b min-h-24 p-1 space-y-1 ${isSameMonth(day, month) ? "bg-white" : "bg-gray-50"} ${isAdmin ? "cursor-pointer" : ""}`}
+                      onClick={() => isAdmin && openEditor("new", day)}
+                    >
+                      <div className={`text-xs ${isToday(day) ? "font-bold text-blue-600" : "text-gray-500"}`}>
+                        {format(day, "d")}
+                      </div>
+                      {live.map((campaign, index) => (
+                        <div
+                          key={campaign.id}
+                          title={`${campaign.name}${index > 0 ? " (overridden where targets overlap)" : ""}`}
+                          className={`text-xs truncate rounded border px-1 ${STATUS_STYLES[campaign.status]} ${index > 0 ? "opacity-60" : ""}`}
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            if (isAdmin) {
+                              openEditor(campaign);
+                            }
+                          }}
+                        >
+                          {campaign.name}
+                        </div>
+                      ))}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Live & Upcoming</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {upcoming.length === 0 ? (
+                <div className="text-center py-8 text-gray-500">
+                  <Megaphone className="h-8 w-8 mx-auto mb-2 text-gray-300" />
+                  <p className="text-sm">No campaigns scheduled</p>
+                </div>
+              ) : (
+                upcoming.map(renderCampaignRow)
+              )}
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader>
+              <CardTitle>Past</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {past.length === 0 ? (
+                <p className="text-sm text-gray-500 text-center py-8">No past campaigns</p>
+              ) : (
+                past.map(renderCampaignRow)
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing === "new" ? "New Campaign" : "Edit Campaign"}</DialogTitle>
+            <DialogDescription>
+              The banner replaces the template's own banner in targeted signatures while the campaign is live.
+            </DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={form.handleSubmit((data) => saveMutation.mutate(data))} className="space-y-4">
+            {formError && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>{formError}</AlertDescription>
+              </Alert>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="campaign-name">Name</Label>
+              <Input id="campaign-name" {...form.register("name")} placeholder="Trade show 2026" />
+              {form.formState.errors.name && (
+                <p className="text-sm text-red-600">{form.formState.errors.name.message}</p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label>Banner image</Label>
+              <Select value={form.watch("assetId")} onValueChange={(value) => form.setValue("assetId", value)}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose from the asset library" />
+                </SelectTrigger>
+                <SelectContent>
+                  {assets.map((asset) => (
+                    <SelectItem key={asset.id} value={String(asset.id)}>{asset.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {form.formState.errors.assetId && (
+                <p className="text-sm text-red-600">{form.formState.errors.assetId.message}</p>
+              )}
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="campaign-link">Link</Label>
+                <Input id="campaign-link" {...form.register("linkUrl")} placeholder="https://company.com/event" />
+                {form.formState.errors.linkUrl && (
+                  <p className="text-sm text-red-600">{form.formState.errors.linkUrl.message}</p>
+                )}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="campaign-alt">Alt text</Label>
+                <Input id="campaign-alt" {...form.register("altText")} placeholder="Meet us at booth 12" />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="campaign-start">Starts</Label>
+                <Input id="campaign-start" type="datetime-local" {...form.register("startsAt")} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="campaign-end">Ends</Label>
+                <Input id="campaign-end" type="datetime-local" {...form.register("endsAt")} />
+                {form.formState.errors.endsAt && (
+                  <p className="text-sm text-red-600">{form.formState.errors.endsAt.message}</p>
+                )}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="campaign-priority">Priority</Label>
+              <Input id="campaign-priority" type="number" {...form.register("priority")} className="w-28" />
+              <p className="text-xs text-gray-500">Higher priority wins when campaigns overlap.</p>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Templates</Label>
+              <div className="max-h-32 overflow-y-auto border rounded p-2 space-y-1">
+                {(templates || []).map((template) => (
+                  <label key={template.id} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={targetTemplateIds.includes(template.id)}
+                      onCheckedChange={(checked) =>
+                        setTargetTemplateIds((current) =>
+                          checked ? [...current, template.id] : current.filter((id) => id !== template.id)
+                        )
+                      }
+                    />
+                    {template.name}
+                  </label>
+                ))}
+              </div>
+              <p className="text-xs text-gray-500">Leave all unchecked to target every template.</p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="campaign-departments">Departments</Label>
+              <Input id="campaign-departments" {...form.register("departments")} placeholder="Sales, Marketing" />
+              <p className="text-xs text-gray-500">Comma-separated. Leave empty to target every department.</p>
+            </div>
+
+            <DialogFooter className="gap-2">
+              {editing && editing !== "new" && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  className="text-red-600 mr-auto"
+                  disabled={deleteMutation.isPending}
+                  onClick={() => deleteMutation.mutate(editing.id)}
+                >
+                  <Trash2 className="mr-2 h-4 w-4" />
+                  Delete
+                </Button>
+              )}
+              <Button type="button" variant="outline" onClick={() => setEditing(null)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saveMutation.isPending}>
+                {saveMutation.isPending ? "Saving..." : "Save Campaign"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </AppLayout>
+  );
+}
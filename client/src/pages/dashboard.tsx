@@ -22,12 +22,15 @@ import {
 } from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
 import { TemplatePreviewModal } from "@/components/template-preview-modal";
+import { TemplateImpressionsCard } from "@/components/template-impressions-card";
+import { useTenant } from "@/hooks/use-tenant";
 import { type SignatureTemplate } from "@shared/schema";
 
 export default function Dashboard() {
   const [selectedTemplate, setSelectedTemplate] = useState<SignatureTemplate | null>(null);
   const [isPreviewOpen, setIsPreviewOpen] = useState(false);
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
+  const { isAdmin } = useTenant();
 
   const { data: stats, isLoading: statsLoading } = useQuery({
     queryKey: ["/api/dashboard/stats"],
@@ -291,6 +294,8 @@ export default function Dashboard() {
               )}
             </CardContent>
           </Card>
+
+          {isAdmin && <TemplateImpressionsCard />}
           
           <TemplatePreviewModal
             template={selectedTemplate}
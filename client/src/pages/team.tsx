@@ -44,12 +44,14 @@ import {
   ShieldCheck,
   AlertCircle,
   Trash2,
-  Edit
+  Edit,
+  Eye
 } from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { useTenant } from "@/hooks/use-tenant";
+import { TemplateUserPreview } from "@/components/template-user-preview";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -68,6 +70,7 @@ export default function Team() {
   const [searchTerm, setSearchTerm] = useState("");
   const [isInviteDialogOpen, setIsInviteDialogOpen] = useState(false);
   const [inviteError, setInviteError] = useState("");
+  const [previewMember, setPreviewMember] = useState<any | null>(null);
 
   const { toast } = useToast();
   const queryClient = useQueryClient();
@@ -344,7 +347,7 @@ export default function Team() {
                         <TableHead>Role</TableHead>
                         <TableHead>Status</TableHead>
                         <TableHead>Joined</TableHead>
-                        <TableHead className="w-[50px]"></TableHead>
+                        <TableHead className="w-[90px]"></TableHead>
                       </TableRow>
                     </TableHeader>
                     <TableBody>
@@ -385,9 +388,19 @@ export default function Team() {
                           </TableCell>
                           <TableCell>
                             {canManageUsers && (
-                              <Button variant="ghost" size="sm">
-                                <MoreHorizontal className="h-4 w-4" />
-                              </Button>
+                              <div className="flex items-center">
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  title="Preview signature"
+                                  onClick={() => setPreviewMember(member)}
+                                >
+                                  <Eye className="h-4 w-4" />
+                                </Button>
+                                <Button variant="ghost" size="sm">
+                                  <MoreHorizontal className="h-4 w-4" />
+                                </Button>
+                              </div>
                             )}
                           </TableCell>
                         </TableRow>
@@ -397,6 +410,20 @@ export default function Team() {
                 )}
               </CardContent>
             </Card>
+
+            <Dialog open={!!previewMember} onOpenChange={(open) => !open && setPreviewMember(null)}>
+              <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                  <DialogTitle>
+                    Signature Preview - {previewMember?.firstName} {previewMember?.lastName}
+                  </DialogTitle>
+                  <DialogDescription>
+                    Choose a template to see it rendered with this member's details before assigning it.
+                  </DialogDescription>
+                </DialogHeader>
+                {previewMember && <TemplateUserPreview key={previewMember.id} userId={previewMember.id} />}
+              </DialogContent>
+            </Dialog>
           </div>
         </main>
       </div>
@@ -5,6 +5,7 @@ import { Sidebar } from "@/components/layout/sidebar";
 import { TopBar } from "@/components/layout/topbar";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { 
@@ -15,6 +16,7 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Badge } from "@/components/ui/badge";
 import { 
   Upload, 
   Linkedin, 
@@ -26,11 +28,54 @@ import {
   Save,
   ArrowLeft,
   Monitor,
-  Smartphone
+  Smartphone,
+  FileText,
+  Sun,
+  Moon
 } from "lucide-react";
+import { PlainTextPreview } from "@/components/plain-text-preview";
+import { TemplateLintPanel } from "@/components/template-lint-panel";
+import { TemplateDarkModePanel } from "@/components/template-dark-mode-panel";
+import { TemplateAccessibilityPanel } from "@/components/template-accessibility-panel";
+import { TemplateHistoryPanel } from "@/components/template-history-panel";
+import { TemplateWorkflowActions } from "@/components/template-workflow-actions";
+import { EditConflictDialog } from "@/components/edit-conflict-dialog";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, ApiRequestError, type ApiResponse } from "@/lib/queryClient";
 import { insertSignatureTemplateSchema, type SignatureTemplate } from "@shared/schema";
+import { fontStack, renderSignatureDocument } from "@shared/signature-compiler";
+import {
+  DEFAULT_SIGNATURE_STYLES,
+  contentFromDocument,
+  documentFromContent,
+  migrateSignatureDocument,
+  type SignatureContent,
+  type SignatureDocument,
+  type SignatureStyles
+} from "@shared/signature-document";
+import { type SanitizeReport } from "@shared/html-sanitizer";
+import { DARK_MODE_LABELS, DARK_MODE_PREVIEWS, simulateDarkMode, type DarkModePreview } from "@shared/dark-mode";
+import { MIN_FONT_SIZE, readableColor, type AccessibilityIssue } from "@shared/accessibility";
+import { FORMATTING_PRESETS } from "@shared/template-gallery";
+import { contrastRatio, formatColor, parseColor, requiredContrast } from "@shared/colors";
+import {
+  LOCALE_LABELS,
+  TRANSLATABLE_STRINGS,
+  TRANSLATABLE_STRING_LABELS,
+  localeFallbackChain,
+  localizeDocument,
+  readTemplateTranslations,
+  type TemplateTranslations,
+  type TranslatableString
+} from "@shared/template-locales";
+import {
+  brandKitViolations,
+  isBrandColor,
+  isBrandFont,
+  readBrandKit,
+  snapToBrandKit,
+  type BrandKit
+} from "@shared/brand-kit";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
 import { z } from "zod";
@@ -67,6 +112,7 @@ const templateFormSchema = insertSignatureTemplateSchema.omit({
   logoUrl: z.string().optional(),
   promotionalImage: z.string().optional(),
   promotionalLink: z.string().optional(),
+  disclaimer: z.string().optional(),
 });
 
 type TemplateFormData = z.infer<typeof templateFormSchema>;
@@ -75,147 +121,117 @@ interface TemplateEditorProps {
   templateId?: number;
 }
 
-// Generate HTML content with custom styles
-function generateHtmlWithCustomStyles(data: TemplateFormData, styles: any): string {
-  const { fullName, jobTitle, company, email, phone, website, linkedIn, twitter, instagram, logoUrl, promotionalImage, promotionalLink } = data;
-  
-  let html = '<div style="font-family: Arial, sans-serif; line-height: 1.5; color: #333;">';
-  
-  // Main signature content
-  html += '<div style="display: flex; align-items: flex-start;">';
-  
-  // Logo section
-  if (logoUrl) {
-    html += `<div style="padding-right: ${styles.logoSpacing}px;"><img src="${logoUrl}" alt="Logo" style="max-height: 80px; max-width: 200px; border-radius: ${styles.logoRadius}px;" /></div>`;
-  }
-  
-  // Text content
-  html += '<div>';
-  if (fullName) html += `<div style="font-size: ${styles.nameSize}px; font-weight: ${styles.nameWeight}; color: ${styles.nameColor}; font-family: ${styles.nameFont}; margin-bottom: 4px;">${fullName}</div>`;
-  if (jobTitle) html += `<div style="font-size: ${styles.roleSize}px; font-weight: ${styles.roleWeight}; color: ${styles.roleColor}; font-family: ${styles.roleFont}; margin-bottom: 4px;">${jobTitle}</div>`;
-  if (company) html += `<div style="font-size: ${styles.companySize}px; font-weight: ${styles.companyWeight}; color: ${styles.companyColor}; font-family: ${styles.companyFont}; margin-bottom: 8px;">${company}</div>`;
-  
-  // Contact info
-  const contacts = [];
-  if (email) contacts.push(`📧 <a href="mailto:${email}" style="color: ${styles.linkColor}; text-decoration: none;">${email}</a>`);
-  if (phone) contacts.push(`📞 <a href="tel:${phone}" style="color: ${styles.linkColor}; text-decoration: none;">${phone}</a>`);
-  if (website) contacts.push(`🌐 <a href="${website}" style="color: ${styles.linkColor}; text-decoration: none;">${website}</a>`);
-  
-  if (contacts.length > 0) {
-    html += `<div style="font-size: ${styles.contactSize}px; font-weight: ${styles.contactWeight}; color: ${styles.contactColor}; font-family: ${styles.contactFont}; margin-bottom: 8px;">${contacts.join('<br>')}</div>`;
-  }
-  
-  // Social links
-  const socials = [];
-  if (linkedIn) socials.push(`<a href="${linkedIn}" style="color: ${styles.linkColor}; text-decoration: none;">LinkedIn</a>`);
-  if (twitter) socials.push(`<a href="${twitter}" style="color: ${styles.linkColor}; text-decoration: none;">Twitter</a>`);
-  if (instagram) socials.push(`<a href="${instagram}" style="color: ${styles.linkColor}; text-decoration: none;">Instagram</a>`);
-  
-  if (socials.length > 0) {
-    html += `<div style="font-size: ${styles.contactSize}px; font-weight: ${styles.contactWeight}; color: ${styles.contactColor}; font-family: ${styles.contactFont};">${socials.join(' | ')}</div>`;
+type ImageSizes = Pick<SignatureContent, 'logoWidth' | 'logoHeight' | 'promotionalImageWidth' | 'promotionalImageHeight'>;
+
+// Template as loaded for editing, with the ETag sent back as If-Match on save
+type EditableTemplate = SignatureTemplate & { etag: string | null };
+
+// Editor state a save was based on; the common ancestor when merging a conflict
+interface EditorSnapshot {
+  values: TemplateFormData;
+  styles: SignatureStyles;
+  textContent: string | null;
+  translations: TemplateTranslations;
+  etag: string | null;
+}
+
+// Newer copy of the template returned by the server with a 409
+interface EditConflict {
+  etag: string;
+  current: SignatureTemplate;
+}
+
+// Stored content as a block document, or null when it cannot be read
+function readDocument(content: unknown): SignatureDocument | null {
+  try {
+    return migrateSignatureDocument(content);
+  } catch {
+    return null;
   }
-  
-  html += '</div>'; // Close text content div
-  html += '</div>'; // Close main flex div
-  
-  // Promotional image
-  if (promotionalImage) {
-    if (promotionalLink) {
-      html += `<div style="margin-top: 15px;"><a href="${promotionalLink}" target="_blank"><img src="${promotionalImage}" alt="Promotional Banner" style="max-width: 100%; height: ${styles.promoHeight}px; object-fit: cover;" /></a></div>`;
-    } else {
-      html += `<div style="margin-top: 15px;"><img src="${promotionalImage}" alt="Promotional Banner" style="max-width: 100%; height: ${styles.promoHeight}px; object-fit: cover;" /></div>`;
+}
+
+// Editor state for a stored template
+function snapshotFromTemplate(template: SignatureTemplate, etag: string | null): EditorSnapshot {
+  const document = readDocument(template.content);
+  const content: Partial<SignatureContent> = document ? contentFromDocument(document) : {};
+  return {
+    values: {
+      name: template.name,
+      status: template.status as "draft" | "active" | "archived",
+      isShared: template.isShared,
+      formatting: template.formatting,
+      promotionalImage: content.promotionalImage || template.promotionalImage || "",
+      promotionalLink: content.promotionalLink || template.promotionalLink || "",
+      fullName: content.fullName || "",
+      jobTitle: content.jobTitle || "",
+      company: content.company || "",
+      email: content.email || "",
+      phone: content.phone || "",
+      website: content.website || "",
+      linkedIn: content.linkedIn || "",
+      twitter: content.twitter || "",
+      instagram: content.instagram || "",
+      logoUrl: content.logoUrl || "",
+      disclaimer: content.disclaimer || "",
+    },
+    styles: { ...DEFAULT_SIGNATURE_STYLES, ...document?.styles },
+    textContent: template.textContent ?? null,
+    translations: readTemplateTranslations(template.translations),
+    etag,
+  };
+}
+
+// Three-way merge of flat records: take their change unless both sides changed the same key
+function mergeFields<T extends object>(base: T, mine: T, theirs: T) {
+  const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+  const merged = { ...mine };
+  const changed: string[] = [];
+  const overlapping: string[] = [];
+
+  for (const key of Object.keys({ ...mine, ...theirs }) as Array<keyof T>) {
+    if (same(mine[key], theirs[key])) {
+      continue;
+    }
+    changed.push(String(key));
+    if (same(mine[key], base[key])) {
+      merged[key] = theirs[key];
+    } else if (!same(theirs[key], base[key])) {
+      overlapping.push(String(key));
     }
   }
-  
-  html += '</div>';
-  return html;
+
+  return { merged, changed, overlapping };
 }
 
-// Function to generate HTML content from form data
-function generateHtmlFromFormData(data: TemplateFormData): string {
-  const { fullName, jobTitle, company, email, phone, website, linkedIn, twitter, instagram, logoUrl, promotionalImage, promotionalLink } = data;
-  
-  let html = '<div style="font-family: Arial, sans-serif; line-height: 1.5; color: #333;">';
-  
-  // Main signature content
-  html += '<div style="display: flex; align-items: flex-start;">';
-  
-  // Logo section
-  if (logoUrl) {
-    html += `<div style="padding-right: 20px;"><img src="${logoUrl}" alt="Logo" style="max-height: 80px; max-width: 200px; border-radius: 0px;" /></div>`;
-  }
-  
-  // Text content
-  html += '<div>';
-  if (fullName) html += `<div style="font-size: 18px; font-weight: bold; color: #2563eb; margin-bottom: 4px;">${fullName}</div>`;
-  if (jobTitle) html += `<div style="font-size: 14px; color: #666; margin-bottom: 4px;">${jobTitle}</div>`;
-  if (company) html += `<div style="font-size: 14px; color: #666; margin-bottom: 8px;">${company}</div>`;
-  
-  // Contact info
-  const contacts = [];
-  if (email) contacts.push(`<a href="mailto:${email}" style="color: #2563eb; text-decoration: none;">${email}</a>`);
-  if (phone) contacts.push(`<a href="tel:${phone}" style="color: #2563eb; text-decoration: none;">${phone}</a>`);
-  if (website) contacts.push(`<a href="${website}" style="color: #2563eb; text-decoration: none;">${website}</a>`);
-  
-  if (contacts.length > 0) {
-    html += `<div style="font-size: 13px; margin-bottom: 8px;">${contacts.join(' | ')}</div>`;
-  }
-  
-  // Social links
-  const socials = [];
-  if (linkedIn) socials.push(`<a href="${linkedIn}" style="color: #2563eb; text-decoration: none;">LinkedIn</a>`);
-  if (twitter) socials.push(`<a href="${twitter}" style="color: #2563eb; text-decoration: none;">Twitter</a>`);
-  if (instagram) socials.push(`<a href="${instagram}" style="color: #2563eb; text-decoration: none;">Instagram</a>`);
-  
-  if (socials.length > 0) {
-    html += `<div style="font-size: 13px;">${socials.join(' | ')}</div>`;
-  }
-  
-  html += '</div></div>';
-  
-  // Promotional image
-  if (promotionalImage) {
-    const imageTag = `<img src="${promotionalImage}" alt="Promotion" style="max-width: 100%; height: auto; margin-top: 16px;" />`;
-    html += promotionalLink ? `<a href="${promotionalLink}">${imageTag}</a>` : imageTag;
-  }
-  
-  html += '</div>';
-  return html;
+// Load an image to read its natural size; compiled HTML needs explicit dimensions
+function measureImage(url: string): Promise<{ width: number; height: number } | null> {
+  return new Promise((resolve) => {
+    const image = new Image();
+    image.onload = () => resolve({ width: image.naturalWidth, height: image.naturalHeight });
+    image.onerror = () => resolve(null);
+    image.src = url;
+  });
 }
 
+
 export default function TemplateEditor({ templateId }: TemplateEditorProps) {
   const [, setLocation] = useLocation();
-  const [previewFormat, setPreviewFormat] = useState<"desktop" | "mobile">("desktop");
-  const [customStyles, setCustomStyles] = useState({
-    nameSize: 18,
-    nameColor: "#2563eb",
-    nameFont: "Arial",
-    nameWeight: "600",
-    roleSize: 14,
-    roleColor: "#666666",
-    roleFont: "Arial",
-    roleWeight: "400",
-    companySize: 14,
-    companyColor: "#666666",
-    companyFont: "Arial",
-    companyWeight: "400",
-    contactSize: 13,
-    contactColor: "#333333",
-    contactFont: "Arial",
-    contactWeight: "400",
-    linkColor: "#2563eb",
-    spacing: 8,
-    padding: 0,
-    logoRadius: 0,
-    logoSpacing: 20,
-    promoHeight: 80
-  });
+  const [previewFormat, setPreviewFormat] = useState<"desktop" | "mobile" | "text">("desktop");
+  const [colorScheme, setColorScheme] = useState<DarkModePreview>("light");
+  const [plainTextOverride, setPlainTextOverride] = useState<string | null>(null);
+  const [translations, setTranslations] = useState<TemplateTranslations>({});
+  // Locale being previewed and translated; empty for the template's own text
+  const [activeLocale, setActiveLocale] = useState("");
+  const [customStyles, setCustomStyles] = useState<SignatureStyles>(DEFAULT_SIGNATURE_STYLES);
+  const [imageSizes, setImageSizes] = useState<ImageSizes>({});
   const [editingElement, setEditingElement] = useState<string | null>(null);
   const [uploadingLogo, setUploadingLogo] = useState(false);
   const [uploadingPromo, setUploadingPromo] = useState(false);
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
+  const [conflict, setConflict] = useState<EditConflict | null>(null);
   const logoFileInputRef = useRef<HTMLInputElement>(null);
   const promoFileInputRef = useRef<HTMLInputElement>(null);
+  const loadedRef = useRef<EditorSnapshot | null>(null);
   
   const { toast } = useToast();
   const queryClient = useQueryClient();
@@ -235,8 +251,12 @@ export default function TemplateEditor({ templateId }: TemplateEditorProps) {
     { value: '800', label: 'Extra Bold' }
   ];
 
-  const { data: template, isLoading } = useQuery<SignatureTemplate>({
+  const { data: template, isLoading } = useQuery<EditableTemplate>({
     queryKey: [`/api/templates/${templateId}`],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/templates/${templateId}`);
+      return { ...(await response.json()), etag: response.headers.get("ETag") };
+    },
     enabled: !!templateId,
   });
 
@@ -244,6 +264,19 @@ export default function TemplateEditor({ templateId }: TemplateEditorProps) {
     queryKey: ['/api/templates'],
   });
 
+  const { data: brandKitResponse } = useQuery<ApiResponse<BrandKit>>({
+    queryKey: ['/api/tenant/brand-kit'],
+  });
+  const brandKit = brandKitResponse?.data ?? readBrandKit(null);
+  // A restricting kit limits the pickers to its values; otherwise they are flagged
+  const restrictColors = brandKit.enforcement === 'restrict' && brandKit.colors.length > 0;
+  const restrictFonts = brandKit.enforcement === 'restrict' && brandKit.fonts.length > 0;
+  const brandViolations = brandKitViolations(customStyles, brandKit);
+  const fontOptions = [
+    ...brandKit.fonts.map((font) => ({ value: font.stack, label: font.name })),
+    ...(restrictFonts ? [] : fontFamilies.map((font) => ({ value: font, label: font })))
+  ];
+
   const form = useForm<TemplateFormData>({
     resolver: zodResolver(templateFormSchema),
     defaultValues: {
@@ -263,6 +296,7 @@ export default function TemplateEditor({ templateId }: TemplateEditorProps) {
       twitter: "",
       instagram: "",
       logoUrl: "",
+      disclaimer: "",
     }
   });
 
@@ -368,61 +402,22 @@ export default function TemplateEditor({ templateId }: TemplateEditorProps) {
   const applyStyleDefaults = (formatting: string) => {
     if (formatting === 'custom') return; // Keep existing custom styles
     
-    const defaultStyles = {
-      modern: {
-        nameFont: 'Arial', nameSize: 18, nameColor: '#2563eb', nameWeight: '600',
-        roleFont: 'Arial', roleSize: 14, roleColor: '#6b7280', roleWeight: '400',
-        companyFont: 'Arial', companySize: 14, companyColor: '#6b7280', companyWeight: '400',
-        contactFont: 'Arial', contactSize: 13, contactColor: '#374151', contactWeight: '400'
-      },
-      classic: {
-        nameFont: 'Times New Roman', nameSize: 20, nameColor: '#2c3e50', nameWeight: '700',
-        roleFont: 'Times New Roman', roleSize: 15, roleColor: '#7f8c8d', roleWeight: '400',
-        companyFont: 'Times New Roman', companySize: 15, companyColor: '#7f8c8d', companyWeight: '400',
-        contactFont: 'Times New Roman', contactSize: 14, contactColor: '#2c3e50', contactWeight: '400'
-      },
-      creative: {
-        nameFont: 'Arial', nameSize: 22, nameColor: '#e53e3e', nameWeight: '700',
-        roleFont: 'Arial', roleSize: 14, roleColor: '#805ad5', roleWeight: '500',
-        companyFont: 'Arial', companySize: 14, companyColor: '#38a169', companyWeight: '500',
-        contactFont: 'Arial', contactSize: 13, contactColor: '#2d3748', contactWeight: '400'
-      },
-      minimal: {
-        nameFont: 'Helvetica', nameSize: 16, nameColor: '#333333', nameWeight: '400',
-        roleFont: 'Helvetica', roleSize: 13, roleColor: '#666666', roleWeight: '400',
-        companyFont: 'Helvetica', companySize: 13, companyColor: '#666666', companyWeight: '400',
-        contactFont: 'Helvetica', contactSize: 12, contactColor: '#666666', contactWeight: '400'
-      },
-      corporate: {
-        nameFont: 'Calibri', nameSize: 19, nameColor: '#003366', nameWeight: '700',
-        roleFont: 'Calibri', roleSize: 14, roleColor: '#0066cc', roleWeight: '600',
-        companyFont: 'Calibri', companySize: 15, companyColor: '#003366', companyWeight: '500',
-        contactFont: 'Calibri', contactSize: 13, contactColor: '#003366', contactWeight: '400'
-      },
-      tech: {
-        nameFont: 'Monaco', nameSize: 18, nameColor: '#7c3aed', nameWeight: '600',
-        roleFont: 'Monaco', roleSize: 14, roleColor: '#059669', roleWeight: '400',
-        companyFont: 'Monaco', companySize: 14, companyColor: '#dc2626', companyWeight: '400',
-        contactFont: 'Monaco', contactSize: 13, contactColor: '#374151', contactWeight: '400'
-      }
-    };
-
-    const styleSet = defaultStyles[formatting as keyof typeof defaultStyles];
+    const styleSet = FORMATTING_PRESETS[formatting];
     if (styleSet) {
-      setCustomStyles(prevStyles => ({
-        ...prevStyles,
-        ...styleSet
-      }));
+      setCustomStyles(prevStyles => {
+        const nextStyles = { ...prevStyles, ...styleSet };
+        return brandKit.enforcement === 'restrict' ? snapToBrandKit(nextStyles, brandKit) : nextStyles;
+      });
     }
   };
 
   const mutation = useMutation({
-    mutationFn: async (data: TemplateFormData) => {
+    mutationFn: async ({ data, ifMatch }: { data: TemplateFormData; ifMatch?: string | null }) => {
       const url = templateId ? `/api/templates/${templateId}` : '/api/templates';
       const method = templateId ? 'PUT' : 'POST';
       
-      // Extract signature content from form data
-      const { name, status, isShared, formatting, promotionalImage, promotionalLink, ...signatureFields } = data;
+      const { name, status, isShared, formatting, promotionalImage, promotionalLink } = data;
+      const document = buildDocument(data);
       
       // Structure the template data according to the schema
       const templateData = {
@@ -432,21 +427,41 @@ export default function TemplateEditor({ templateId }: TemplateEditorProps) {
         formatting,
         promotionalImage,
         promotionalLink,
-        content: signatureFields, // Store signature fields in content JSON
-        htmlContent: generateHtmlFromFormData(data), // Generate HTML preview
+        content: document, // Block document the HTML is rendered from
+        htmlContent: renderSignatureDocument(document), // Email-safe HTML sent to users
+        textContent: plainTextOverride?.trim() ? plainTextOverride : null,
+        translations: readTemplateTranslations(translations),
       };
       
-      return apiRequest(method, url, templateData);
+      return apiRequest(method, url, templateData, ifMatch ? { "If-Match": ifMatch } : {});
     },
-    onSuccess: () => {
+    onSuccess: async (response) => {
+      const result = await response.json().catch(() => null);
+      const sanitization: SanitizeReport | undefined = result?.data?.sanitization;
+
       toast({ 
         title: templateId ? "Template updated" : "Template created",
         description: templateId ? "Your template has been updated successfully." : "Your new template has been created."
       });
+      // Let the author know the server removed unsafe markup
+      if (sanitization?.changed) {
+        toast({
+          title: "Some markup was removed",
+          description: sanitization.removed
+            .map((item) => item.tag ? `${item.name} on <${item.tag}> (${item.count})` : `${item.name} (${item.count})`)
+            .join(", ")
+        });
+      }
+      setConflict(null);
       queryClient.invalidateQueries({ queryKey: ['/api/templates'] });
       setLocation("/templates");
     },
     onError: (error: any) => {
+      // Someone else saved first; let the author choose how to resolve it
+      if (error instanceof ApiRequestError && error.status === 409 && error.details?.current) {
+        setConflict({ etag: error.details.etag, current: error.details.current });
+        return;
+      }
       toast({
         title: "Error",
         description: error.message || "Something went wrong. Please try again.",
@@ -457,28 +472,105 @@ export default function TemplateEditor({ templateId }: TemplateEditorProps) {
 
   useEffect(() => {
     if (template) {
-      const content = (template.content as any) || {};
-      form.reset({
-        name: template.name,
-        status: template.status as "draft" | "active" | "archived",
-        isShared: template.isShared,
-        formatting: template.formatting,
-        promotionalImage: template.promotionalImage || "",
-        promotionalLink: template.promotionalLink || "",
-        fullName: content.fullName || "",
-        jobTitle: content.jobTitle || "",
-        company: content.company || "",
-        email: content.email || "",
-        phone: content.phone || "",
-        website: content.website || "",
-        linkedIn: content.linkedIn || "",
-        twitter: content.twitter || "",
-        instagram: content.instagram || "",
-        logoUrl: content.logoUrl || "",
-      });
+      const snapshot = snapshotFromTemplate(template, template.etag);
+      loadedRef.current = snapshot;
+      form.reset(snapshot.values);
+      setCustomStyles(snapshot.styles);
+      setPlainTextOverride(snapshot.textContent);
+      setTranslations(snapshot.translations);
     }
   }, [template, form]);
 
+  // Compare the editor with the newer server copy; recomputed as the author keeps typing
+  const conflictMerge = (() => {
+    if (!conflict || !loadedRef.current) {
+      return null;
+    }
+    const base = loadedRef.current;
+    const theirs = snapshotFromTemplate(conflict.current, conflict.etag);
+    const values = mergeFields(base.values, form.getValues(), theirs.values);
+    const styles = mergeFields(base.styles, customStyles, theirs.styles);
+    const text = mergeFields(
+      { plainText: base.textContent },
+      { plainText: plainTextOverride },
+      { plainText: theirs.textContent }
+    );
+    const localized = mergeFields(base.translations, translations, theirs.translations);
+    return {
+      theirs,
+      values: values.merged,
+      styles: styles.merged,
+      textContent: text.merged.plainText,
+      translations: localized.merged,
+      changed: [
+        ...values.changed,
+        ...(styles.changed.length ? ['styles'] : []),
+        ...text.changed,
+        ...(localized.changed.length ? ['translations'] : []),
+      ],
+      overlapping: [
+        ...values.overlapping,
+        ...(styles.overlapping.length ? ['styles'] : []),
+        ...text.overlapping,
+        ...(localized.overlapping.length ? ['translations'] : []),
+      ],
+    };
+  })();
+
+  const handleConflictReload = () => {
+    setConflict(null);
+    queryClient.invalidateQueries({ queryKey: [`/api/templates/${templateId}`] });
+  };
+
+  const handleConflictMerge = () => {
+    if (!conflictMerge) {
+      return;
+    }
+    // The server copy becomes the new base, so the next save only conflicts on newer changes
+    loadedRef.current = conflictMerge.theirs;
+    form.reset(conflictMerge.values);
+    setCustomStyles(conflictMerge.styles);
+    setPlainTextOverride(conflictMerge.textContent);
+    setTranslations(conflictMerge.translations);
+    setConflict(null);
+    toast({
+      title: "Changes merged",
+      description: conflictMerge.overlapping.length
+        ? `Kept your version of ${conflictMerge.overlapping.join(", ")}. Review and save when ready.`
+        : "Their changes were applied. Review and save when ready.",
+    });
+  };
+
+  const handleConflictOverwrite = () => {
+    if (conflict) {
+      mutation.mutate({ data: form.getValues(), ifMatch: conflict.etag });
+    }
+  };
+
+  // Keep image dimensions in sync with the selected logo and banner
+  const logoUrl = form.watch("logoUrl");
+  const promotionalImageUrl = form.watch("promotionalImage");
+
+  useEffect(() => {
+    let cancelled = false;
+    (logoUrl ? measureImage(logoUrl) : Promise.resolve(null)).then((size) => {
+      if (!cancelled) {
+        setImageSizes(prev => ({ ...prev, logoWidth: size?.width, logoHeight: size?.height }));
+      }
+    });
+    return () => { cancelled = true; };
+  }, [logoUrl]);
+
+  useEffect(() => {
+    let cancelled = false;
+    (promotionalImageUrl ? measureImage(promotionalImageUrl) : Promise.resolve(null)).then((size) => {
+      if (!cancelled) {
+        setImageSizes(prev => ({ ...prev, promotionalImageWidth: size?.width, promotionalImageHeight: size?.height }));
+      }
+    });
+    return () => { cancelled = true; };
+  }, [promotionalImageUrl]);
+
   const handleSave = (data: TemplateFormData) => {
     console.log("Form data being saved:", data);
     console.log("Form errors:", form.formState.errors);
@@ -493,7 +585,7 @@ export default function TemplateEditor({ templateId }: TemplateEditorProps) {
       return;
     }
     
-    mutation.mutate(data);
+    mutation.mutate({ data, ifMatch: loadedRef.current?.etag });
   };
 
   const handleCancel = () => {
@@ -502,7 +594,7 @@ export default function TemplateEditor({ templateId }: TemplateEditorProps) {
 
   const generateInteractivePreview = (data: TemplateFormData) => {
     return (
-      <div style={{ fontFamily: customStyles.nameFont + ', sans-serif', lineHeight: 1.5, color: '#333333', padding: customStyles.padding + 'px' }}>
+      <div style={{ fontFamily: fontStack(customStyles.nameFont), lineHeight: 1.5, color: '#333333', padding: customStyles.padding + 'px' }}>
         <div style={{ display: 'flex', alignItems: 'flex-start' }}>
           {data.logoUrl && (
             <div 
@@ -534,7 +626,7 @@ export default function TemplateEditor({ templateId }: TemplateEditorProps) {
               onClick={() => setEditingElement(editingElement === 'name' ? null : 'name')}
               style={{ 
                 fontSize: customStyles.nameSize + 'px', 
-                fontFamily: customStyles.nameFont,
+                fontFamily: fontStack(customStyles.nameFont),
                 fontWeight: customStyles.nameWeight, 
                 color: customStyles.nameColor, 
                 marginBottom: customStyles.spacing + 'px',
@@ -553,7 +645,7 @@ export default function TemplateEditor({ templateId }: TemplateEditorProps) {
                 onClick={() => setEditingElement(editingElement === 'role' ? null : 'role')}
                 style={{ 
                   fontSize: customStyles.roleSize + 'px',
-                  fontFamily: customStyles.roleFont,
+                  fontFamily: fontStack(customStyles.roleFont),
                   fontWeight: customStyles.roleWeight,
                   color: customStyles.roleColor, 
                   marginBottom: customStyles.spacing * 0.5 + 'px',
@@ -573,7 +665,7 @@ export default function TemplateEditor({ templateId }: TemplateEditorProps) {
                 onClick={() => setEditingElement(editingElement === 'company' ? null : 'company')}
                 style={{ 
                   fontSize: customStyles.companySize + 'px',
-                  fontFamily: customStyles.companyFont,
+                  fontFamily: fontStack(customStyles.companyFont),
                   fontWeight: customStyles.companyWeight,
                   color: customStyles.companyColor, 
                   marginBottom: customStyles.spacing + 'px',
@@ -601,40 +693,40 @@ export default function TemplateEditor({ templateId }: TemplateEditorProps) {
               {data.email && (
                 <div style={{ 
                   fontSize: customStyles.contactSize + 'px', 
-                  fontFamily: customStyles.contactFont,
+                  fontFamily: fontStack(customStyles.contactFont),
                   fontWeight: customStyles.contactWeight,
                   color: customStyles.contactColor, 
                   marginBottom: '2px' 
                 }}>
-                  📧 <span style={{ color: customStyles.linkColor }}>{data.email}</span>
+                  <strong>Email:</strong> <span style={{ color: customStyles.linkColor }}>{data.email}</span>
                 </div>
               )}
               {data.phone && (
                 <div style={{ 
                   fontSize: customStyles.contactSize + 'px', 
-                  fontFamily: customStyles.contactFont,
+                  fontFamily: fontStack(customStyles.contactFont),
                   fontWeight: customStyles.contactWeight,
                   color: customStyles.contactColor, 
                   marginBottom: '2px' 
                 }}>
-                  📞 {data.phone}
+                  <strong>Phone:</strong> <span style={{ color: customStyles.linkColor }}>{data.phone}</span>
                 </div>
               )}
               {data.website && (
                 <div style={{ 
                   fontSize: customStyles.contactSize + 'px', 
-                  fontFamily: customStyles.contactFont,
+                  fontFamily: fontStack(customStyles.contactFont),
                   fontWeight: customStyles.contactWeight,
                   color: customStyles.contactColor, 
                   marginBottom: '2px' 
                 }}>
-                  🌐 <span style={{ color: customStyles.linkColor }}>{data.website}</span>
+                  <strong>Web:</strong> <span style={{ color: customStyles.linkColor }}>{data.website}</span>
                 </div>
               )}
               {(data.linkedIn || data.twitter || data.instagram) && (
                 <div style={{ 
                   fontSize: customStyles.contactSize + 'px', 
-                  fontFamily: customStyles.contactFont,
+                  fontFamily: fontStack(customStyles.contactFont),
                   fontWeight: customStyles.contactWeight,
                   color: customStyles.contactColor, 
                   marginTop: '4px' 
@@ -676,181 +768,70 @@ export default function TemplateEditor({ templateId }: TemplateEditorProps) {
     );
   };
 
-  const generateHtmlContent = (data: TemplateFormData): string => {
-    const getFormattingStyles = (formatting: string) => {
-      const styles = {
-        modern: {
-          container: "font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #1a1a1a;",
-          name: "font-size: 18px; font-weight: 600; color: #2563eb; margin-bottom: 4px;",
-          role: "font-size: 14px; color: #6b7280; margin-bottom: 2px;",
-          company: "font-size: 14px; color: #6b7280; margin-bottom: 8px;",
-          contact: "font-size: 13px; color: #374151;",
-          link: "color: #2563eb; text-decoration: none;",
-          social: "margin-top: 8px; font-size: 13px;",
-          logo: "height: 80px; max-width: 200px; object-fit: contain;",
-          promo: "max-width: 100%; height: auto; border: none;"
-        },
-        classic: {
-          container: "font-family: 'Times New Roman', serif; line-height: 1.4; color: #2c3e50;",
-          name: "font-size: 20px; font-weight: bold; color: #2c3e50; margin-bottom: 6px;",
-          role: "font-size: 15px; color: #7f8c8d; margin-bottom: 3px; font-style: italic;",
-          company: "font-size: 15px; color: #7f8c8d; margin-bottom: 10px;",
-          contact: "font-size: 14px; color: #2c3e50;",
-          link: "color: #c0392b; text-decoration: underline;",
-          social: "margin-top: 10px; font-size: 14px;",
-          logo: "height: 80px; max-width: 200px; object-fit: contain;",
-          promo: "max-width: 100%; height: auto; border: none;"
-        },
-        creative: {
-          container: "font-family: 'Arial', sans-serif; line-height: 1.5; color: #2d3748; background: linear-gradient(90deg, #f7fafc 0%, #edf2f7 100%); padding: 15px; border-radius: 8px;",
-          name: "font-size: 22px; font-weight: bold; color: #e53e3e; margin-bottom: 5px;",
-          role: "font-size: 14px; color: #805ad5; margin-bottom: 3px; font-weight: 500;",
-          company: "font-size: 14px; color: #38a169; margin-bottom: 8px; font-weight: 500;",
-          contact: "font-size: 13px; color: #2d3748;",
-          link: "color: #ed8936; text-decoration: none; font-weight: 500;",
-          social: "margin-top: 10px; font-size: 13px;",
-          logo: "height: 80px; max-width: 200px; object-fit: contain;",
-          promo: "max-width: 100%; height: auto; border: none;"
-        },
-        minimal: {
-          container: "font-family: 'Helvetica Neue', Helvetica, Arial, sans-serif; line-height: 1.4; color: #333;",
-          name: "font-size: 16px; font-weight: 400; color: #333; margin-bottom: 2px;",
-          role: "font-size: 13px; color: #666; margin-bottom: 1px;",
-          company: "font-size: 13px; color: #666; margin-bottom: 6px;",
-          contact: "font-size: 12px; color: #666;",
-          link: "color: #333; text-decoration: none;",
-          social: "margin-top: 6px; font-size: 12px;",
-          logo: "height: 80px; max-width: 200px; object-fit: contain;",
-          promo: "max-width: 100%; height: auto; border: none;"
-        },
-        corporate: {
-          container: "font-family: 'Calibri', 'Trebuchet MS', sans-serif; line-height: 1.5; color: #003366; border-left: 4px solid #0066cc; padding-left: 15px;",
-          name: "font-size: 19px; font-weight: bold; color: #003366; margin-bottom: 5px;",
-          role: "font-size: 14px; color: #0066cc; margin-bottom: 3px; font-weight: 600;",
-          company: "font-size: 15px; color: #003366; margin-bottom: 8px; font-weight: 500;",
-          contact: "font-size: 13px; color: #003366;",
-          link: "color: #0066cc; text-decoration: none;",
-          social: "margin-top: 8px; font-size: 13px;",
-          logo: "height: 80px; max-width: 200px; object-fit: contain;",
-          promo: "max-width: 100%; height: auto; border: none;"
-        },
-        tech: {
-          container: "font-family: 'Monaco', 'Menlo', 'Ubuntu Mono', monospace; line-height: 1.6; color: #0f172a; background: #f8fafc; padding: 12px; border: 1px solid #e2e8f0; border-radius: 4px;",
-          name: "font-size: 18px; font-weight: 600; color: #7c3aed; margin-bottom: 4px;",
-          role: "font-size: 14px; color: #059669; margin-bottom: 2px;",
-          company: "font-size: 14px; color: #dc2626; margin-bottom: 8px;",
-          contact: "font-size: 13px; color: #374151;",
-          link: "color: #2563eb; text-decoration: none;",
-          social: "margin-top: 8px; font-size: 13px;",
-          logo: "height: 80px; max-width: 200px; object-fit: contain;",
-          promo: "max-width: 100%; height: auto; border: none;"
-        },
-        elegant: {
-          container: "font-family: 'Georgia', serif; line-height: 1.7; color: #4a5568; background: #fefefe; padding: 20px; border: 1px solid #e2e8f0;",
-          name: "font-size: 24px; font-weight: 300; color: #2d3748; margin-bottom: 8px; letter-spacing: 0.5px;",
-          role: "font-size: 16px; color: #718096; margin-bottom: 4px; font-style: italic;",
-          company: "font-size: 16px; color: #718096; margin-bottom: 12px;",
-          contact: "font-size: 14px; color: #4a5568;",
-          link: "color: #805ad5; text-decoration: none;",
-          social: "margin-top: 12px; font-size: 14px;",
-          logo: "height: 80px; max-width: 200px; object-fit: contain;",
-          promo: "max-width: 100%; height: auto; border: none;"
-        },
-        bold: {
-          container: "font-family: 'Impact', 'Arial Black', sans-serif; line-height: 1.4; color: #1a202c; background: #fed7d7; padding: 15px; border: 3px solid #e53e3e;",
-          name: "font-size: 24px; font-weight: 900; color: #e53e3e; margin-bottom: 6px; text-transform: uppercase;",
-          role: "font-size: 16px; color: #1a202c; margin-bottom: 4px; font-weight: bold;",
-          company: "font-size: 16px; color: #1a202c; margin-bottom: 10px; font-weight: bold;",
-          contact: "font-size: 14px; color: #1a202c; font-weight: 600;",
-          link: "color: #e53e3e; text-decoration: none; font-weight: bold;",
-          social: "margin-top: 10px; font-size: 14px; font-weight: bold;",
-          logo: "height: 80px; max-width: 200px; object-fit: contain;",
-          promo: "max-width: 100%; height: auto; border: none;"
-        },
-        compact: {
-          container: "font-family: 'Arial', sans-serif; line-height: 1.3; color: #333; font-size: 12px;",
-          name: "font-size: 14px; font-weight: bold; color: #333; margin-bottom: 2px;",
-          role: "font-size: 11px; color: #666; margin-bottom: 1px;",
-          company: "font-size: 11px; color: #666; margin-bottom: 4px;",
-          contact: "font-size: 11px; color: #666;",
-          link: "color: #0066cc; text-decoration: none;",
-          social: "margin-top: 4px; font-size: 11px;",
-          logo: "height: 80px; max-width: 200px; object-fit: contain;",
-          promo: "max-width: 100%; height: auto; border: none;"
-        },
-        signature: {
-          container: "font-family: 'Brush Script MT', cursive; line-height: 1.8; color: #2c3e50;",
-          name: "font-size: 28px; font-weight: normal; color: #8b4513; margin-bottom: 8px;",
-          role: "font-size: 16px; color: #2c3e50; margin-bottom: 4px; font-family: 'Georgia', serif;",
-          company: "font-size: 16px; color: #2c3e50; margin-bottom: 10px; font-family: 'Georgia', serif;",
-          contact: "font-size: 14px; color: #2c3e50; font-family: 'Georgia', serif;",
-          link: "color: #8b4513; text-decoration: none;",
-          social: "margin-top: 10px; font-size: 14px; font-family: 'Georgia', serif;",
-          logo: "height: 80px; max-width: 200px; object-fit: contain;",
-          promo: "max-width: 100%; height: auto; border: none;"
-        },
-        custom: {
-          container: `font-family: ${customStyles.nameFont}, sans-serif; line-height: 1.5; color: #333333; padding: ${customStyles.padding}px;`,
-          name: `font-size: ${customStyles.nameSize}px; font-family: ${customStyles.nameFont}; font-weight: ${customStyles.nameWeight}; color: ${customStyles.nameColor}; margin-bottom: ${customStyles.spacing}px;`,
-          role: `font-size: ${customStyles.roleSize}px; font-family: ${customStyles.roleFont}; font-weight: ${customStyles.roleWeight}; color: ${customStyles.roleColor}; margin-bottom: ${customStyles.spacing * 0.5}px;`,
-          company: `font-size: ${customStyles.companySize}px; font-family: ${customStyles.companyFont}; font-weight: ${customStyles.companyWeight}; color: ${customStyles.companyColor}; margin-bottom: ${customStyles.spacing}px;`,
-          contact: `font-size: ${customStyles.contactSize}px; font-family: ${customStyles.contactFont}; font-weight: ${customStyles.contactWeight}; color: ${customStyles.contactColor};`,
-          link: `color: ${customStyles.linkColor}; text-decoration: none;`,
-          social: `margin-top: ${customStyles.spacing}px; font-size: ${customStyles.contactSize}px; font-family: ${customStyles.contactFont}; font-weight: ${customStyles.contactWeight};`,
-          logo: `height: 80px; max-width: 200px; object-fit: contain; border-radius: ${customStyles.logoRadius}px;`,
-          promo: `max-width: 100%; height: ${customStyles.promoHeight}px; object-fit: cover; border: none;`
+  // Block document for the current form state; this is exactly what gets saved
+  const buildDocument = (data: TemplateFormData): SignatureDocument => {
+    const { name, status, isShared, formatting, ...fields } = data;
+    return documentFromContent(
+      {
+        ...fields,
+        fullName: fields.fullName || 'Your Name',
+        promotionalImage: fields.promotionalImage || undefined,
+        promotionalLink: fields.promotionalLink || undefined,
+        ...imageSizes
+      },
+      customStyles
+    );
+  };
+
+  // Preview HTML, with the active locale's translations applied the way recipients in that locale see them
+  const compileFormData = (data: TemplateFormData): string => {
+    const document = buildDocument(data);
+    return renderSignatureDocument(
+      activeLocale
+        ? localizeDocument(document, readTemplateTranslations(translations), localeFallbackChain(activeLocale)).document
+        : document
+    );
+  };
+
+  // Apply an accessibility fix to every text style using the offending color or size
+  const applyAccessibilitySuggestion = (suggestion: NonNullable<AccessibilityIssue["suggestion"]>) => {
+    const updated = { ...customStyles };
+    let changed = false;
+    if (suggestion.property === "color") {
+      for (const key of ["nameColor", "roleColor", "companyColor", "contactColor", "linkColor"] as const) {
+        const color = parseColor(updated[key]);
+        if (color && formatColor(color) === suggestion.from) {
+          updated[key] = suggestion.to;
+          changed = true;
         }
-      };
-      return styles[formatting as keyof typeof styles] || styles.modern;
-    };
+      }
+    } else {
+      for (const key of ["nameSize", "roleSize", "companySize", "contactSize"] as const) {
+        if (updated[key] < MIN_FONT_SIZE) {
+          updated[key] = MIN_FONT_SIZE;
+          changed = true;
+        }
+      }
+    }
 
-    const styles = getFormattingStyles(data.formatting || "modern");
-
-    let signatureHtml = `
-      <div style="${styles.container}">
-        <table cellpadding="0" cellspacing="0" border="0">
-          <tr>
-            ${data.logoUrl ? `
-              <td style="padding-right: 20px; vertical-align: top;">
-                <img src="${data.logoUrl}" alt="Image" style="${(styles as any).logo || 'height: 80px; max-width: 200px; object-fit: contain;'}">
-              </td>
-            ` : ''}
-            <td style="vertical-align: top;">
-              <div style="${styles.name}">${data.fullName || 'Your Name'}</div>
-              ${data.jobTitle ? `<div style="${styles.role}">${data.jobTitle}</div>` : ''}
-              ${data.company ? `<div style="${styles.company}">${data.company}</div>` : ''}
-              <div style="${styles.contact}">
-                ${data.email ? `<div style="margin-bottom: 2px;">📧 <a href="mailto:${data.email}" style="${styles.link}">${data.email}</a></div>` : ''}
-                ${data.phone ? `<div style="margin-bottom: 2px;">📞 ${data.phone}</div>` : ''}
-                ${data.website ? `<div style="margin-bottom: 2px;">🌐 <a href="${data.website}" style="${styles.link}">${data.website}</a></div>` : ''}
-                ${(data.linkedIn || data.twitter || data.instagram) ? `
-                  <div style="${styles.social}">
-                    ${data.linkedIn ? `<a href="${data.linkedIn}" style="${styles.link}; margin-right: 8px;">LinkedIn</a>` : ''}
-                    ${data.twitter ? `<a href="${data.twitter}" style="${styles.link}; margin-right: 8px;">Twitter</a>` : ''}
-                    ${data.instagram ? `<a href="${data.instagram}" style="${styles.link};">Instagram</a>` : ''}
-                  </div>
-                ` : ''}
-              </div>
-            </td>
-          </tr>
-        </table>
-      </div>
-    `;
-
-    // Add promotional image if provided
-    if (data.promotionalImage) {
-      const promoContent = data.promotionalLink 
-        ? `<a href="${data.promotionalLink}" target="_blank" style="display: block; margin-top: 15px;">
-             <img src="${data.promotionalImage}" alt="Promotional Banner" style="${(styles as any).promo || 'max-width: 100%; height: auto; border: none;'}">
-           </a>`
-        : `<div style="margin-top: 15px;">
-             <img src="${data.promotionalImage}" alt="Promotional Banner" style="${(styles as any).promo || 'max-width: 100%; height: auto; border: none;'}">
-           </div>`;
-      
-      signatureHtml += promoContent;
+    if (changed) {
+      setCustomStyles(updated);
+    } else {
+      toast({
+        title: "Fix this in the HTML",
+        description: `${suggestion.from} is not set by the style controls, so change it where it is written in the template.`,
+      });
     }
+  };
 
-    return signatureHtml;
+  // Locales offered for translation: the common ones plus any already stored
+  const localeOptions = Array.from(new Set([...Object.keys(LOCALE_LABELS), ...Object.keys(translations)]));
+
+  const setTranslation = (key: TranslatableString, value: string) => {
+    setTranslations((current) => ({
+      ...current,
+      [activeLocale]: { ...current[activeLocale], [key]: value },
+    }));
   };
 
   const renderStyleControls = () => {
@@ -858,6 +839,34 @@ export default function TemplateEditor({ templateId }: TemplateEditorProps) {
       return null;
     }
 
+    const elementColor = editingElement === 'name' ? customStyles.nameColor :
+      editingElement === 'role' ? customStyles.roleColor :
+      editingElement === 'company' ? customStyles.companyColor : customStyles.contactColor;
+    const elementFont = editingElement === 'name' ? customStyles.nameFont :
+      editingElement === 'role' ? customStyles.roleFont :
+      editingElement === 'company' ? customStyles.companyFont :
+      editingElement === 'contact' ? customStyles.contactFont : 'Arial';
+
+    const elementSize = editingElement === 'name' ? customStyles.nameSize :
+      editingElement === 'role' ? customStyles.roleSize :
+      editingElement === 'company' ? customStyles.companySize : customStyles.contactSize;
+    const elementWeight = editingElement === 'name' ? customStyles.nameWeight :
+      editingElement === 'role' ? customStyles.roleWeight :
+      editingElement === 'company' ? customStyles.companyWeight : customStyles.contactWeight;
+
+    // WCAG AA contrast of the element's color against the white message background
+    const white = parseColor('#ffffff')!;
+    const parsedColor = parseColor(elementColor);
+    const requiredRatio = requiredContrast(elementSize, elementWeight);
+    const elementContrast = parsedColor ? contrastRatio(parsedColor, white) : null;
+
+    const setElementColor = (newColor: string) => {
+      if (editingElement === 'name') setCustomStyles({...customStyles, nameColor: newColor});
+      else if (editingElement === 'role') setCustomStyles({...customStyles, roleColor: newColor});
+      else if (editingElement === 'company') setCustomStyles({...customStyles, companyColor: newColor});
+      else if (editingElement === 'contact') setCustomStyles({...customStyles, contactColor: newColor});
+    };
+
     return (
       <div className="mt-4 p-4 bg-blue-50 border border-blue-200 rounded-lg">
         <div className="flex items-center justify-between mb-3">
@@ -904,33 +913,63 @@ export default function TemplateEditor({ templateId }: TemplateEditorProps) {
                   }}
                   className="w-full h-2 bg-blue-200 rounded-lg appearance-none cursor-pointer"
                 />
+                {elementSize < MIN_FONT_SIZE && (
+                  <p className="text-xs text-amber-700 mt-1">Below {MIN_FONT_SIZE}px is hard to read on phones</p>
+                )}
               </div>
               <div>
                 <Label className="text-xs text-blue-700">Color</Label>
-                <input
-                  type="color"
-                  value={editingElement === 'name' ? customStyles.nameColor : 
-                         editingElement === 'role' ? customStyles.roleColor : 
-                         editingElement === 'company' ? customStyles.companyColor : customStyles.contactColor}
-                  onChange={(e) => {
-                    const newColor = e.target.value;
-                    if (editingElement === 'name') setCustomStyles({...customStyles, nameColor: newColor});
-                    else if (editingElement === 'role') setCustomStyles({...customStyles, roleColor: newColor});
-                    else if (editingElement === 'company') setCustomStyles({...customStyles, companyColor: newColor});
-                    else if (editingElement === 'contact') setCustomStyles({...customStyles, contactColor: newColor});
-                  }}
-                  className="w-full h-8 border border-blue-300 rounded cursor-pointer"
-                />
+                {!restrictColors && (
+                  <input
+                    type="color"
+                    value={elementColor}
+                    onChange={(e) => setElementColor(e.target.value)}
+                    className="w-full h-8 border border-blue-300 rounded cursor-pointer"
+                  />
+                )}
+                {brandKit.colors.length > 0 && (
+                  <div className="flex flex-wrap gap-1 mt-1">
+                    {brandKit.colors.map((color) => (
+                      <button
+                        key={color.value}
+                        type="button"
+                        title={`${color.name} (${color.value})`}
+                        onClick={() => setElementColor(color.value)}
+                        className={`w-6 h-6 rounded border-2 ${
+                          color.value.toLowerCase() === elementColor.toLowerCase() ? "border-blue-600" : "border-white"
+                        }`}
+                        style={{ backgroundColor: color.value }}
+                      />
+                    ))}
+                  </div>
+                )}
+                {!isBrandColor(brandKit, elementColor) && (
+                  <p className="text-xs text-amber-700 mt-1">Outside the brand kit</p>
+                )}
+                {elementContrast !== null && (
+                  <div className="flex items-center gap-1 mt-1">
+                    <Badge
+                      variant={elementContrast >= requiredRatio ? "outline" : "destructive"}
+                      className="text-[10px] px-1.5 py-0"
+                    >
+                      {elementContrast >= requiredRatio ? "AA" : "Fails AA"} {elementContrast.toFixed(1)}:1
+                    </Badge>
+                    {elementContrast < requiredRatio && (
+                      <button
+                        type="button"
+                        onClick={() => setElementColor(formatColor(readableColor(parsedColor!, white, requiredRatio)))}
+                        className="text-xs text-blue-700 underline"
+                      >
+                        Use {formatColor(readableColor(parsedColor!, white, requiredRatio))}
+                      </button>
+                    )}
+                  </div>
+                )}
               </div>
               <div>
                 <Label className="text-xs text-blue-700">Font Family</Label>
                 <Select 
-                  value={
-                    editingElement === 'name' ? customStyles.nameFont :
-                    editingElement === 'role' ? customStyles.roleFont :
-                    editingElement === 'company' ? customStyles.companyFont :
-                    editingElement === 'contact' ? customStyles.contactFont : 'Arial'
-                  } 
+                  value={elementFont} 
                   onValueChange={(value) => {
                     if (editingElement === 'name') setCustomStyles({...customStyles, nameFont: value});
                     else if (editingElement === 'role') setCustomStyles({...customStyles, roleFont: value});
@@ -942,11 +981,14 @@ export default function TemplateEditor({ templateId }: TemplateEditorProps) {
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    {fontFamilies.map((font) => (
-                      <SelectItem key={font} value={font}>{font}</SelectItem>
+                    {fontOptions.map((font) => (
+                      <SelectItem key={font.value} value={font.value}>{font.label}</SelectItem>
                     ))}
                   </SelectContent>
                 </Select>
+                {!isBrandFont(brandKit, elementFont) && (
+                  <p className="text-xs text-amber-700 mt-1">Outside the brand kit</p>
+                )}
               </div>
               <div>
                 <Label className="text-xs text-blue-700">Font Weight</Label>
@@ -1096,16 +1138,9 @@ export default function TemplateEditor({ templateId }: TemplateEditorProps) {
                 
                 {/* Status and Save buttons */}
                 <div className="flex flex-col sm:flex-row sm:items-center gap-2 lg:flex-shrink-0">
-                  <Select value={form.watch("status")} onValueChange={(value: "draft" | "active" | "archived") => form.setValue("status", value)}>
-                    <SelectTrigger className="w-full sm:w-32">
-                      <SelectValue placeholder="Status" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="draft">Draft</SelectItem>
-                      <SelectItem value="active">Active</SelectItem>
-                      <SelectItem value="archived">Archived</SelectItem>
-                    </SelectContent>
-                  </Select>
+                  {templateId && template && (
+                    <TemplateWorkflowActions templateId={templateId} status={template.status} />
+                  )}
                   
                   <Button
                     type="button"
@@ -1133,7 +1168,25 @@ export default function TemplateEditor({ templateId }: TemplateEditorProps) {
                   <Card>
                     <CardHeader>
                       <div className="space-y-4">
-                        <CardTitle>Live Preview</CardTitle>
+                        <div className="flex items-center justify-between gap-3">
+                          <CardTitle>Live Preview</CardTitle>
+                          <Select
+                            value={activeLocale || "default"}
+                            onValueChange={(value) => setActiveLocale(value === "default" ? "" : value)}
+                          >
+                            <SelectTrigger className="w-40 h-8 text-xs">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="default">Default language</SelectItem>
+                              {localeOptions.map((locale) => (
+                                <SelectItem key={locale} value={locale}>
+                                  {LOCALE_LABELS[locale] ? `${LOCALE_LABELS[locale]} (${locale})` : locale}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
                         <div className="flex items-center space-x-1 bg-gray-100 rounded-lg p-1 w-full sm:w-fit">
                           <Button
                             type="button"
@@ -1155,22 +1208,64 @@ export default function TemplateEditor({ templateId }: TemplateEditorProps) {
                             <Smartphone className="h-4 w-4 mr-1" />
                             Mobile
                           </Button>
+                          <Button
+                            type="button"
+                            variant={previewFormat === "text" ? "default" : "ghost"}
+                            size="sm"
+                            className="h-8 px-3 flex-1"
+                            onClick={() => setPreviewFormat("text")}
+                          >
+                            <FileText className="h-4 w-4 mr-1" />
+                            Plain Text
+                          </Button>
                         </div>
+                        {previewFormat !== "text" && (
+                          <div className="flex items-center space-x-1 bg-gray-100 rounded-lg p-1 w-full sm:w-fit">
+                            {DARK_MODE_PREVIEWS.map((mode) => (
+                              <Button
+                                key={mode}
+                                type="button"
+                                variant={colorScheme === mode ? "default" : "ghost"}
+                                size="sm"
+                                className="h-8 px-3 flex-1"
+                                title={DARK_MODE_LABELS[mode].clients}
+                                onClick={() => setColorScheme(mode)}
+                              >
+                                {mode === "light" ? <Sun className="h-4 w-4 mr-1" /> : <Moon className="h-4 w-4 mr-1" />}
+                                {DARK_MODE_LABELS[mode].label}
+                              </Button>
+                            ))}
+                          </div>
+                        )}
                       </div>
                     </CardHeader>
                   <CardContent>
-                    <div className={`signature-preview bg-white border rounded p-4 min-h-40 ${
+                    <div className={`signature-preview border rounded min-h-40 ${
+                      previewFormat !== "text" && colorScheme !== "light" ? "bg-[#1e1e1e]" : "bg-white p-4"
+                    } ${
                       previewFormat === "mobile" 
                         ? "max-w-sm mx-auto" 
                         : "w-full"
                     }`}>
-                      {form.watch("formatting") === "custom" ? (
+                      {previewFormat === "text" ? (
+                        <PlainTextPreview
+                          html={compileFormData(formData)}
+                          override={plainTextOverride}
+                          onOverrideChange={setPlainTextOverride}
+                        />
+                      ) : colorScheme !== "light" ? (
+                        // Dark-mode clients rewrite the sent HTML, so show the compiled signature
+                        <div
+                          dangerouslySetInnerHTML={{ __html: simulateDarkMode(compileFormData(formData), colorScheme) }}
+                          className={previewFormat === "mobile" ? "text-sm" : ""}
+                        />
+                      ) : form.watch("formatting") === "custom" ? (
                         <div className={previewFormat === "mobile" ? "text-sm" : ""}>
                           {generateInteractivePreview(formData)}
                         </div>
                       ) : (
                         <div 
-                          dangerouslySetInnerHTML={{ __html: generateHtmlContent(formData) }} 
+                          dangerouslySetInnerHTML={{ __html: compileFormData(formData) }} 
                           className={previewFormat === "mobile" ? "text-sm" : ""}
                         />
                       )}
@@ -1202,6 +1297,25 @@ export default function TemplateEditor({ templateId }: TemplateEditorProps) {
                       ))}
                     </div>
 
+                    {/* Brand kit check */}
+                    {brandViolations.length > 0 && (
+                      <div className="mt-4 p-3 bg-amber-50 border border-amber-200 rounded-lg flex items-start justify-between gap-3">
+                        <p className="text-sm text-amber-800">
+                          <span className="font-medium">Off-brand styles:</span>{" "}
+                          {brandViolations.map((violation) => violation.value).join(", ")}
+                          {brandKit.enforcement === 'restrict' && " — saving is blocked until they use brand kit values."}
+                        </p>
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setCustomStyles(snapToBrandKit(customStyles, brandKit))}
+                        >
+                          Use brand kit
+                        </Button>
+                      </div>
+                    )}
+
                     {/* Interactive Styling Hint */}
                     {form.watch("formatting") === "custom" && !editingElement && (
                       <div className="mt-4 p-3 bg-blue-50 border border-blue-200 rounded-lg">
@@ -1212,6 +1326,20 @@ export default function TemplateEditor({ templateId }: TemplateEditorProps) {
                     )}
                   </CardContent>
                 </Card>
+
+                {/* Quality checks run on the unsaved signature */}
+                <div className="mt-6">
+                  <TemplateLintPanel html={compileFormData(formData)} />
+                </div>
+                <div className="mt-6">
+                  <TemplateDarkModePanel html={compileFormData(formData)} />
+                </div>
+                <div className="mt-6">
+                  <TemplateAccessibilityPanel
+                    html={compileFormData(formData)}
+                    onApplySuggestion={applyAccessibilitySuggestion}
+                  />
+                </div>
                 </div>
               </div>
 
@@ -1460,14 +1588,94 @@ export default function TemplateEditor({ templateId }: TemplateEditorProps) {
                           </div>
                         </div>
                       </div>
+
+                      {/* Disclaimer Section */}
+                      <div className="space-y-4">
+                        <h3 className="text-lg font-medium text-gray-900 border-b border-gray-200 pb-2">
+                          Disclaimer
+                        </h3>
+                        <div className="space-y-2">
+                          <Label htmlFor="disclaimer" className="text-sm">Legal Disclaimer</Label>
+                          <Textarea
+                            id="disclaimer"
+                            {...form.register("disclaimer")}
+                            placeholder="This email and any attachments are confidential..."
+                            className="text-sm"
+                            rows={3}
+                          />
+                          <p className="text-xs text-gray-500">
+                            Shown in small print below the signature (optional)
+                          </p>
+                        </div>
+                      </div>
+
+                      {/* Translations Section - edits the locale chosen above the preview */}
+                      <div className="space-y-4">
+                        <h3 className="text-lg font-medium text-gray-900 border-b border-gray-200 pb-2">
+                          Translations
+                        </h3>
+                        {activeLocale ? (
+                          <>
+                            {TRANSLATABLE_STRINGS.map((key) => (
+                              <div key={key} className="space-y-2">
+                                <Label htmlFor={`translation-${key}`} className="text-sm">
+                                  {TRANSLATABLE_STRING_LABELS[key]} ({activeLocale})
+                                </Label>
+                                {key === "disclaimer" ? (
+                                  <Textarea
+                                    id={`translation-${key}`}
+                                    value={translations[activeLocale]?.[key] ?? ""}
+                                    onChange={(e) => setTranslation(key, e.target.value)}
+                                    className="text-sm"
+                                    rows={3}
+                                  />
+                                ) : (
+                                  <Input
+                                    id={`translation-${key}`}
+                                    value={translations[activeLocale]?.[key] ?? ""}
+                                    onChange={(e) => setTranslation(key, e.target.value)}
+                                    className="text-sm"
+                                  />
+                                )}
+                              </div>
+                            ))}
+                            <p className="text-xs text-gray-500">
+                              Users whose language is {activeLocale} see these instead. Leave a field empty to keep the default text.
+                            </p>
+                          </>
+                        ) : (
+                          <p className="text-xs text-gray-500">
+                            Choose a language above the preview to translate the disclaimer, job title and banner alt text.
+                          </p>
+                        )}
+                      </div>
                     </CardContent>
                   </Card>
                 </form>
+
+                {/* Version History - only for saved templates */}
+                {templateId && (
+                  <div className="mt-6">
+                    <TemplateHistoryPanel templateId={templateId} />
+                  </div>
+                )}
               </div>
             </div>
           </div>
         </main>
       </div>
+
+      <EditConflictDialog
+        isOpen={!!conflict}
+        serverUpdatedAt={conflict?.current.updatedAt ?? null}
+        changedFields={conflictMerge?.changed ?? []}
+        overlappingFields={conflictMerge?.overlapping ?? []}
+        isSaving={mutation.isPending}
+        onReload={handleConflictReload}
+        onMerge={handleConflictMerge}
+        onForceSave={handleConflictOverwrite}
+        onClose={() => setConflict(null)}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -7,6 +7,7 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
 import { 
   Select,
   SelectContent,
@@ -15,6 +16,13 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
 import { 
   FileSignature, 
   Plus, 
@@ -23,12 +31,16 @@ import {
   Copy, 
   Trash2,
   Eye,
-  Filter
+  Filter,
+  LayoutTemplate
 } from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
 import { TemplatePreviewModal } from "@/components/template-preview-modal";
+import { TemplateGallery } from "@/components/template-gallery";
+import { TEMPLATE_STATUS_LABELS, getStatusBadgeVariant } from "@/components/template-workflow-actions";
+import { BulkTagToolbar, TemplateTagFilter, TEMPLATE_TAGS_KEY, type TemplateTag } from "@/components/template-tags";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, type ApiResponse } from "@/lib/queryClient";
 import { type SignatureTemplate } from "@shared/schema";
 
 export default function Templates() {
@@ -36,7 +48,10 @@ export default function Templates() {
   const [isPreviewOpen, setIsPreviewOpen] = useState(false);
   const [searchTerm, setSearchTerm] = useState("");
   const [statusFilter, setStatusFilter] = useState<string>("all");
+  const [tagFilter, setTagFilter] = useState<number | null>(null);
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
+  const [isGalleryOpen, setIsGalleryOpen] = useState(false);
 
   const { toast } = useToast();
   const queryClient = useQueryClient();
@@ -45,6 +60,11 @@ export default function Templates() {
     queryKey: ["/api/templates"],
   });
 
+  const { data: tagsResponse } = useQuery<ApiResponse<TemplateTag[]>>({
+    queryKey: [TEMPLATE_TAGS_KEY],
+  });
+  const tags = tagsResponse?.data || [];
+
   const deleteTemplateMutation = useMutation({
     mutationFn: async (templateId: number) => {
       await apiRequest("DELETE", `/api/templates/${templateId}`);
@@ -69,13 +89,28 @@ export default function Templates() {
   const filteredTemplates = Array.isArray(templates) ? templates.filter((template: SignatureTemplate) => {
     const matchesSearch = template.name.toLowerCase().includes(searchTerm.toLowerCase());
     const matchesStatus = statusFilter === "all" || template.status === statusFilter;
-    return matchesSearch && matchesStatus;
+    const matchesTag = tagFilter === null || tags.some((tag) => tag.id === tagFilter && tag.template_ids.includes(template.id));
+    return matchesSearch && matchesStatus && matchesTag;
   }) : [];
 
+  const tagsFor = (templateId: number) => tags.filter((tag) => tag.template_ids.includes(templateId));
+
+  const toggleSelected = (templateId: number, checked: boolean) => {
+    setSelectedIds((current) =>
+      checked ? [...current, templateId] : current.filter((id) => id !== templateId)
+    );
+  };
+
   const handleEditTemplate = (template: SignatureTemplate) => {
     window.location.href = `/templates/${template.id}/edit`;
   };
 
+  // Starters open in the editor so they can be personalized straight away
+  const handleGalleryTemplateCreated = (templateId: number) => {
+    setIsGalleryOpen(false);
+    window.location.href = `/templates/${templateId}/edit`;
+  };
+
   const handleDuplicateTemplate = async (template: SignatureTemplate) => {
     // TODO: Implement duplicate functionality
     toast({
@@ -125,12 +160,18 @@ export default function Templates() {
                   Manage your signature templates and create new ones
                 </p>
               </div>
-              <Link href="/templates/new">
-                <Button>
-                  <Plus className="mr-2 h-4 w-4" />
-                  New Template
+              <div className="flex gap-2">
+                <Button variant="outline" onClick={() => setIsGalleryOpen(true)}>
+                  <LayoutTemplate className="mr-2 h-4 w-4" />
+                  Start from Gallery
                 </Button>
-              </Link>
+                <Link href="/templates/new">
+                  <Button>
+                    <Plus className="mr-2 h-4 w-4" />
+                    New Template
+                  </Button>
+                </Link>
+              </div>
             </div>
 
             {/* Search and Filters */}
@@ -151,12 +192,23 @@ export default function Templates() {
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="all">All Status</SelectItem>
-                  <SelectItem value="active">Active</SelectItem>
+                  <SelectItem value="published">Published</SelectItem>
+                  <SelectItem value="in_review">In Review</SelectItem>
                   <SelectItem value="draft">Draft</SelectItem>
                   <SelectItem value="archived">Archived</SelectItem>
                 </SelectContent>
               </Select>
             </div>
+
+            <div className="mt-4">
+              <TemplateTagFilter tags={tags} selectedTagId={tagFilter} onSelect={setTagFilter} />
+            </div>
+
+            {selectedIds.length > 0 && (
+              <div className="mt-4">
+                <BulkTagToolbar tags={tags} templateIds={selectedIds} onClear={() => setSelectedIds([])} />
+              </div>
+            )}
           </div>
 
           {/* Templates Grid */}
@@ -187,23 +239,28 @@ export default function Templates() {
             <div className="text-center py-12">
               <FileSignature className="mx-auto h-12 w-12 text-gray-400" />
               <h3 className="mt-2 text-sm font-medium text-gray-900">
-                {searchTerm || statusFilter !== "all" ? "No templates found" : "No templates yet"}
+                {searchTerm || statusFilter !== "all" || tagFilter !== null ? "No templates found" : "No templates yet"}
               </h3>
               <p className="mt-1 text-sm text-gray-500">
-                {searchTerm || statusFilter !== "all" 
+                {searchTerm || statusFilter !== "all" || tagFilter !== null
                   ? "Try adjusting your search or filter criteria."
-                  : "Get started by creating your first signature template."
+                  : "Get started by creating your first signature template, or pick a starter below."
                 }
               </p>
-              {!searchTerm && statusFilter === "all" && (
-                <div className="mt-6">
-                  <Link href="/templates/new">
-                    <Button>
-                      <Plus className="mr-2 h-4 w-4" />
-                      Create Template
-                    </Button>
-                  </Link>
-                </div>
+              {!searchTerm && statusFilter === "all" && tagFilter === null && (
+                <>
+                  <div className="mt-6">
+                    <Link href="/templates/new">
+                      <Button>
+                        <Plus className="mr-2 h-4 w-4" />
+                        Create Template
+                      </Button>
+                    </Link>
+                  </div>
+                  <div className="mt-8 text-left">
+                    <TemplateGallery onCreated={handleGalleryTemplateCreated} />
+                  </div>
+                </>
               )}
             </div>
           ) : (
@@ -219,11 +276,20 @@ export default function Templates() {
                 >
                   <CardContent className="p-6">
                     <div className="flex items-start justify-between mb-4">
-                      <div className={`w-10 h-10 ${getTemplateGradient(index)} rounded-lg flex items-center justify-center`}>
-                        <FileSignature className="h-5 w-5 text-white" />
+                      <div className="flex items-center space-x-3">
+                        <div onClick={(e) => e.stopPropagation()}>
+                          <Checkbox
+                            checked={selectedIds.includes(template.id)}
+                            onCheckedChange={(checked) => toggleSelected(template.id, checked === true)}
+                            aria-label={`Select ${template.name}`}
+                          />
+                        </div>
+                        <div className={`w-10 h-10 ${getTemplateGradient(index)} rounded-lg flex items-center justify-center`}>
+                          <FileSignature className="h-5 w-5 text-white" />
+                        </div>
                       </div>
-                      <Badge variant={template.status === 'active' ? 'default' : 'secondary'}>
-                        {template.status}
+                      <Badge variant={getStatusBadgeVariant(template.status)}>
+                        {TEMPLATE_STATUS_LABELS[template.status] || template.status}
                       </Badge>
                     </div>
 
@@ -234,6 +300,21 @@ export default function Templates() {
                       Updated {formatDistanceToNow(new Date(template.updatedAt), { addSuffix: true })}
                     </p>
 
+                    {tagsFor(template.id).length > 0 && (
+                      <div className="flex flex-wrap gap-1 mb-4">
+                        {tagsFor(template.id).map((tag) => (
+                          <Badge
+                            key={tag.id}
+                            variant="outline"
+                            className="text-xs"
+                            style={tag.color ? { borderColor: tag.color, color: tag.color } : undefined}
+                          >
+                            {tag.name}
+                          </Badge>
+                        ))}
+                      </div>
+                    )}
+
                     <div className="flex items-center justify-between">
                       {template.isShared && (
                         <Badge variant="outline" className="text-xs">
@@ -281,6 +362,18 @@ export default function Templates() {
         onDuplicate={handleDuplicateTemplate}
         onDelete={handleDeleteTemplate}
       />
+
+      <Dialog open={isGalleryOpen} onOpenChange={setIsGalleryOpen}>
+        <DialogContent className="max-w-5xl max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Template Gallery</DialogTitle>
+            <DialogDescription>
+              Start from a ready-made design. Names, titles and contact details fill in for each sender.
+            </DialogDescription>
+          </DialogHeader>
+          <TemplateGallery onCreated={handleGalleryTemplateCreated} />
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
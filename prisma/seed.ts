@@ -1,5 +1,6 @@
 import { PrismaClient } from '@prisma/client';
 import bcrypt from 'bcrypt';
+import { htmlToPlainText } from '../shared/plain-text';
 
 const prisma = new PrismaClient();
 
@@ -102,6 +103,7 @@ async function main() {
     data: {
       tenant_id: acmeCorp.id,
       name: 'Acme Corporate Standard',
+      description: 'Default signature for all Acme employees',
       html_content: `
         <div style="font-family: Arial, sans-serif; font-size: 14px; color: #333;">
           <div style="font-weight: bold; font-size: 16px;">{{ first_name }} {{ last_name }}</div>
@@ -123,6 +125,7 @@ async function main() {
     data: {
       tenant_id: acmeCorp.id,
       name: 'Marketing Team Template',
+      description: 'Signature with the company tagline for the marketing team',
       html_content: `
         <div style="font-family: 'Segoe UI', sans-serif; font-size: 14px;">
           <div style="color: #2c5aa0; font-weight: bold; font-size: 18px;">{{ first_name }} {{ last_name }}</div>
@@ -167,6 +170,48 @@ async function main() {
 
   console.log(`Created ${3} signature templates`);
 
+  // Publish the seeded templates so they are served to assigned users
+  for (const template of [acmeDefaultTemplate, acmeMarketingTemplate, techStartTemplate]) {
+    const version = await prisma.signatureTemplateVersion.create({
+      data: {
+        template_id: template.id,
+        version: 1,
+        name: template.name,
+        html_content: template.html_content,
+        text_content: htmlToPlainText(template.html_content),
+        created_by: template.created_by,
+      },
+    });
+
+    await prisma.signatureTemplate.update({
+      where: { id: template.id },
+      data: {
+        text_content: version.text_content,
+        status: 'published',
+        published_version_id: version.id,
+      },
+    });
+  }
+
+  // Create template tags for Acme Corp
+  const [acmeSales, acmeEvents] = await Promise.all(
+    [
+      { name: 'Sales', color: '#2563eb' },
+      { name: 'Events', color: '#ea580c' },
+      { name: 'Legal', color: '#6b7280' },
+    ].map((tag) => prisma.templateTag.create({ data: { tenant_id: acmeCorp.id, ...tag } }))
+  );
+
+  await prisma.templateTagging.createMany({
+    data: [
+      { template_id: acmeDefaultTemplate.id, tag_id: acmeSales.id },
+      { template_id: acmeMarketingTemplate.id, tag_id: acmeSales.id },
+      { template_id: acmeMarketingTemplate.id, tag_id: acmeEvents.id },
+    ],
+  });
+
+  console.log(`Created ${3} template tags`);
+
   // Create template assignments
   await prisma.templateAssignment.createMany({
     data: [
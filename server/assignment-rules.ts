@@ -0,0 +1,210 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import { ApiError, HTTP_STATUS } from "./middleware/error";
+import {
+  assignmentRuleMatches,
+  winningAssignmentRule,
+  type AssignmentCondition
+} from "@shared/assignment-rules";
+
+type TransactionClient = Prisma.TransactionClient;
+
+// User fields rules are matched on, plus what previews show
+const subjectSelect = {
+  id: true,
+  first_name: true,
+  last_name: true,
+  email: true,
+  department: true,
+  title: true,
+  country: true,
+  role: true,
+  locale: true
+} satisfies Prisma.UserSelect;
+
+// A rule as it would be saved, for previews
+export interface AssignmentRuleDraft {
+  rule_id?: number; // Saved rule the draft replaces
+  template_id?: number;
+  priority: number;
+  conditions: AssignmentCondition[];
+}
+
+export interface AssignmentSyncResult {
+  assigned: number[]; // Users given a template by a rule
+  unassigned: number[]; // Users whose rule-derived template was taken away
+}
+
+export class AssignmentRuleService {
+  // A rule within the tenant, or ASSIGNMENT_RULE_NOT_FOUND
+  static async findTenantRule(id: number, tenantId: number, client: TransactionClient = prisma) {
+    const rule = await client.assignmentRule.findFirst({
+      where: {
+        id,
+        tenant_id: tenantId
+      }
+    });
+
+    if (!rule) {
+      throw new ApiError(
+        HTTP_STATUS.NOT_FOUND,
+        "Assignment rule not found",
+        "ASSIGNMENT_RULE_NOT_FOUND"
+      );
+    }
+
+    return rule;
+  }
+
+  // Ensure a rule's template belongs to the tenant
+  static async assertTenantTemplate(templateId: number, tenantId: number, client: TransactionClient = prisma) {
+    const template = await client.signatureTemplate.findFirst({
+      where: {
+        id: templateId,
+        tenant_id: tenantId
+      },
+      select: { id: true }
+    });
+
+    if (!template) {
+      throw new ApiError(
+        HTTP_STATUS.NOT_FOUND,
+        "Template not found in your organization",
+        "TEMPLATE_NOT_FOUND"
+      );
+    }
+  }
+
+  /**
+   * Bring rule-derived assignments in line with the tenant's rules, for the
+   * given users or, without IDs, everyone in the tenant. Each user keeps at
+   * most one rule-derived assignment, for the winning rule's template.
+   * Manual assignments are never touched; a default assignment of the same
+   * template is taken over by the rule.
+   */
+  static async syncUsers(
+    tenantId: number,
+    userIds: number[] | null = null,
+    client: TransactionClient = prisma
+  ): Promise<AssignmentSyncResult> {
+    const [rules, users] = await Promise.all([
+      client.assignmentRule.findMany({
+        where: {
+          tenant_id: tenantId,
+          is_active: true
+        }
+      }),
+      client.user.findMany({
+        where: {
+          tenant_id: tenantId,
+          ...(userIds ? { id: { in: userIds } } : {})
+        },
+        select: {
+          ...subjectSelect,
+          template_assignments: {
+            select: { id: true, template_id: true, source: true, rule_id: true }
+          }
+        }
+      })
+    ]);
+
+    const result: AssignmentSyncResult = { assigned: [], unassigned: [] };
+
+    for (const user of users) {
+      const winner = winningAssignmentRule(rules, user);
+      const stale = user.template_assignments.filter((assignment) =>
+        assignment.source === 'rule' && assignment.template_id !== winner?.template_id
+      );
+
+      if (stale.length > 0) {
+        await client.templateAssignment.deleteMany({
+          where: { id: { in: stale.map((assignment) => assignment.id) } }
+        });
+      }
+
+      if (!winner) {
+        if (stale.length > 0) {
+          result.unassigned.push(user.id);
+        }
+        continue;
+      }
+
+      const existing = user.template_assignments.find((assignment) => assignment.template_id === winner.template_id);
+      if (!existing) {
+        await client.templateAssignment.create({
+          data: {
+            user_id: user.id,
+            template_id: winner.template_id,
+            source: 'rule',
+            rule_id: winner.id
+          }
+        });
+        result.assigned.push(user.id);
+      } else if (existing.source !== 'manual' && (existing.source !== 'rule' || existing.rule_id !== winner.id)) {
+        await client.templateAssignment.update({
+          where: { id: existing.id },
+          data: {
+            source: 'rule',
+            rule_id: winner.id
+          }
+        });
+        if (existing.source !== 'rule') {
+          result.assigned.push(user.id);
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Users a rule would match if saved, and whether it would decide their
+   * template. A user can be matched but kept by a higher-priority rule;
+   * manual assignments also take precedence when signatures render.
+   */
+  static async preview(draft: AssignmentRuleDraft, tenantId: number) {
+    const [rules, users] = await Promise.all([
+      prisma.assignmentRule.findMany({
+        where: {
+          tenant_id: tenantId,
+          is_active: true,
+          ...(draft.rule_id ? { id: { not: draft.rule_id } } : {})
+        },
+        select: { id: true, name: true, priority: true, is_active: true, template_id: true, conditions: true }
+      }),
+      prisma.user.findMany({
+        where: { tenant_id: tenantId },
+        select: {
+          ...subjectSelect,
+          template_assignments: {
+            where: { source: 'manual' },
+            select: { template_id: true }
+          }
+        },
+        orderBy: [{ last_name: 'asc' }, { first_name: 'asc' }]
+      })
+    ]);
+
+    // An unsaved rule is the newest, so it wins ties on priority
+    const candidate = {
+      id: draft.rule_id ?? Number.MAX_SAFE_INTEGER,
+      name: '',
+      priority: draft.priority,
+      is_active: true,
+      template_id: draft.template_id ?? 0,
+      conditions: draft.conditions
+    };
+
+    return users
+      .filter((user) => assignmentRuleMatches(candidate, user))
+      .map(({ template_assignments, ...user }) => {
+        const winner = winningAssignmentRule([...rules, candidate], user);
+        return {
+          ...user,
+          full_name: `${user.first_name} ${user.last_name}`,
+          overridden_by: winner && winner !== candidate ? { id: winner.id, name: winner.name } : null,
+          manual_template_ids: template_assignments.map((assignment) => assignment.template_id)
+        };
+      });
+  }
+}
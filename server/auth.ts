@@ -1,5 +1,6 @@
 import jwt from "jsonwebtoken";
 import bcrypt from "bcrypt";
+import { Prisma } from "@prisma/client";
 import { prisma } from "./prisma";
 
 const JWT_ACCESS_SECRET = process.env.JWT_ACCESS_SECRET || "access-secret-key";
@@ -72,6 +73,12 @@ export class AuthService {
     last_name: string;
     title?: string;
     department?: string;
+    phone?: string | null;
+    mobile?: string | null;
+    social_links?: Prisma.InputJsonValue;
+    locale?: string | null;
+    country?: string | null;
+    photo_url?: string | null;
   }) {
     const hashedPassword = await this.hashPassword(userData.password);
     
@@ -85,6 +92,12 @@ export class AuthService {
         last_name: userData.last_name,
         title: userData.title,
         department: userData.department,
+        phone: userData.phone,
+        mobile: userData.mobile,
+        social_links: userData.social_links,
+        locale: userData.locale,
+        country: userData.country,
+        photo_url: userData.photo_url,
       },
       include: {
         tenant: true,
@@ -0,0 +1,35 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import { ApiError, HTTP_STATUS } from "./middleware/error";
+import { brandKitViolations, readBrandKit, type BrandKit } from "@shared/brand-kit";
+import type { SignatureDocument } from "@shared/signature-document";
+
+type TransactionClient = Prisma.TransactionClient;
+
+export class BrandKitService {
+  // The tenant's kit; an empty one when none has been set up
+  static async forTenant(tenantId: number, client: TransactionClient = prisma): Promise<BrandKit> {
+    const kit = await client.brandKit.findUnique({
+      where: { tenant_id: tenantId }
+    });
+    return readBrandKit(kit);
+  }
+
+  // Reject a document styled outside a kit that restricts styling
+  static async assertOnBrand(document: SignatureDocument, tenantId: number, client: TransactionClient = prisma) {
+    const kit = await this.forTenant(tenantId, client);
+    if (kit.enforcement !== 'restrict') {
+      return;
+    }
+
+    const violations = brandKitViolations(document.styles, kit);
+    if (violations.length > 0) {
+      throw new ApiError(
+        HTTP_STATUS.UNPROCESSABLE_ENTITY,
+        `Template uses ${violations.length} style${violations.length === 1 ? '' : 's'} outside the brand kit: ${violations[0].value}`,
+        "OFF_BRAND_STYLES",
+        { violations }
+      );
+    }
+  }
+}
@@ -0,0 +1,84 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import { ApiError, HTTP_STATUS } from "./middleware/error";
+import { rankCampaigns, type CampaignAudience } from "@shared/campaigns";
+
+type TransactionClient = Prisma.TransactionClient;
+
+export class CampaignService {
+  // Ensure every targeted template belongs to the tenant
+  static async assertTenantTemplates(templateIds: number[], tenantId: number, client: TransactionClient = prisma) {
+    if (templateIds.length === 0) {
+      return;
+    }
+
+    const found = await client.signatureTemplate.findMany({
+      where: {
+        id: { in: templateIds },
+        tenant_id: tenantId
+      },
+      select: { id: true }
+    });
+
+    const foundIds = new Set(found.map((template) => template.id));
+    const missing = templateIds.filter((id) => !foundIds.has(id));
+    if (missing.length > 0) {
+      throw new ApiError(
+        HTTP_STATUS.BAD_REQUEST,
+        "One or more target templates not found",
+        "TEMPLATE_NOT_FOUND",
+        { template_ids: missing }
+      );
+    }
+  }
+
+  // Image asset a campaign banner is picked from
+  static async findBannerAsset(assetId: number, tenantId: number, client: TransactionClient = prisma) {
+    const asset = await client.asset.findFirst({
+      where: {
+        id: assetId,
+        tenant_id: tenantId
+      },
+      select: { id: true, url: true, mime_type: true }
+    });
+
+    if (!asset) {
+      throw new ApiError(
+        HTTP_STATUS.BAD_REQUEST,
+        "Asset not found",
+        "ASSET_NOT_FOUND",
+        { asset_id: assetId }
+      );
+    }
+
+    if (!asset.mime_type.startsWith('image/')) {
+      throw new ApiError(
+        HTTP_STATUS.BAD_REQUEST,
+        "Campaign banners must be images",
+        "ASSET_NOT_IMAGE",
+        { asset_id: assetId, mime_type: asset.mime_type }
+      );
+    }
+
+    return asset;
+  }
+
+  // Live campaigns for a signature, winner first
+  static async rankForSignature(tenantId: number, audience: CampaignAudience, at: Date = new Date()) {
+    const live = await prisma.campaign.findMany({
+      where: {
+        tenant_id: tenantId,
+        starts_at: { lte: at },
+        ends_at: { gt: at }
+      }
+    });
+
+    return rankCampaigns(live, audience, at);
+  }
+
+  // The campaign whose banner a signature shows right now, if any
+  static async findActive(tenantId: number, audience: CampaignAudience, at: Date = new Date()) {
+    const [winner] = await this.rankForSignature(tenantId, audience, at);
+    return winner ?? null;
+  }
+}
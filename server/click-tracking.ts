@@ -0,0 +1,149 @@
+import { randomBytes } from "crypto";
+import { prisma } from "./prisma";
+import { appendUtmParams, NO_TRACK_ATTRIBUTE, type UtmParams } from "@shared/link-tracking";
+
+// Public origin redirect links point at; signatures are read outside the app
+const TRACKING_BASE_URL = (process.env.TRACKING_BASE_URL || "http://localhost:5000").replace(/\/+$/, "");
+
+export const USER_AGENT_CLASSES = ['desktop', 'mobile', 'tablet', 'bot', 'unknown'] as const;
+export type UserAgentClass = typeof USER_AGENT_CLASSES[number];
+
+// Crawlers, link scanners and mail security gateways that follow links on their own
+const BOT_PATTERN = /bot|crawl|spider|slurp|preview|scanner|safelinks|proofpoint|mimecast|barracuda|headless|phantom|curl|wget|python|java\/|go-http|okhttp|axios|node-fetch|facebookexternalhit|whatsapp/i;
+
+/**
+ * Coarse device class for a User-Agent header; bots are checked first
+ */
+export function classifyUserAgent(userAgent: string | undefined): UserAgentClass {
+  if (!userAgent) {
+    return 'unknown';
+  }
+  if (BOT_PATTERN.test(userAgent)) {
+    return 'bot';
+  }
+  if (/ipad|tablet|kindle|silk|playbook|android(?!.*mobile)/i.test(userAgent)) {
+    return 'tablet';
+  }
+  if (/mobi|iphone|ipod|android|blackberry|opera mini|iemobile/i.test(userAgent)) {
+    return 'mobile';
+  }
+  if (/windows|macintosh|mac os x|x11|linux|cros/i.test(userAgent)) {
+    return 'desktop';
+  }
+  return 'unknown';
+}
+
+/**
+ * Absolute URL of a public tracking route
+ */
+export function publicTrackingUrl(path: string): string {
+  return `${TRACKING_BASE_URL}${path}`;
+}
+
+/**
+ * Absolute form of an app-relative URL such as /uploads/assets/banner.png,
+ * for content read outside the app. Other URLs are returned unchanged.
+ */
+export function absolutePublicUrl(url: string): string {
+  return url.startsWith('/') && !url.startsWith('//') ? publicTrackingUrl(url) : url;
+}
+
+/**
+ * Redirect URL for a tracked link token
+ */
+export function trackedLinkUrl(token: string): string {
+  return publicTrackingUrl(`/r/${token}`);
+}
+
+// Opening <a> tags; sanitized HTML escapes '>' inside attribute values
+const ANCHOR_PATTERN = /<a\b([^>]*)>/gi;
+const HREF_PATTERN = /\shref="([^"]*)"/i;
+const NO_TRACK_PATTERN = new RegExp(`\\s${NO_TRACK_ATTRIBUTE}(?:="[^"]*")?`, 'i');
+
+const decodeHref = (value: string) => value.replace(/&amp;/g, '&');
+const encodeHref = (value: string) => value.replace(/&/g, '&amp;').replace(/"/g, '&quot;');
+
+export interface SignatureLinkOptions {
+  tenantId: number;
+  templateId: number;
+  userId: number;
+  // Rewrite links to redirect tokens; otherwise only UTM parameters are applied
+  track: boolean;
+  utm: UtmParams;
+  // Live campaign whose banner link gets its own UTM parameters
+  campaign?: { id: number; link_url: string | null; utm: UtmParams } | null;
+}
+
+export class ClickTrackingService {
+  // Token for a link in one sender's signature, reused across renders
+  static async tokenFor(url: string, options: SignatureLinkOptions, campaignId: number | null) {
+    const link = await prisma.trackedLink.upsert({
+      where: {
+        tenant_id_template_id_user_id_url: {
+          tenant_id: options.tenantId,
+          template_id: options.templateId,
+          user_id: options.userId,
+          url
+        }
+      },
+      update: {},
+      create: {
+        tenant_id: options.tenantId,
+        template_id: options.templateId,
+        user_id: options.userId,
+        campaign_id: campaignId,
+        url,
+        token: randomBytes(6).toString('base64url')
+      },
+      select: { token: true }
+    });
+
+    return link.token;
+  }
+
+  // Apply UTM parameters to the web links of rendered signature HTML and,
+  // when tracking, swap them for redirect URLs. Links marked with
+  // NO_TRACK_ATTRIBUTE are left exactly as written; the marker is dropped.
+  static async rewriteLinks(html: string, options: SignatureLinkOptions): Promise<string> {
+    const campaignLink = options.campaign?.link_url ?? null;
+    const destinations = new Map<string, { url: string; campaignId: number | null }>();
+
+    for (const match of Array.from(html.matchAll(ANCHOR_PATTERN))) {
+      const href = match[1].match(HREF_PATTERN);
+      if (!href || NO_TRACK_PATTERN.test(match[1])) {
+        continue;
+      }
+      const original = decodeHref(href[1]);
+      if (!/^https?:\/\//i.test(original) || destinations.has(original)) {
+        continue;
+      }
+      const isCampaignLink = !!campaignLink && original === campaignLink;
+      const utm = isCampaignLink ? { ...options.utm, ...options.campaign!.utm } : options.utm;
+      destinations.set(original, {
+        url: appendUtmParams(original, utm),
+        campaignId: isCampaignLink ? options.campaign!.id : null
+      });
+    }
+
+    const replacements = new Map<string, string>();
+    for (const [original, destination] of Array.from(destinations)) {
+      replacements.set(
+        original,
+        options.track
+          ? trackedLinkUrl(await this.tokenFor(destination.url, options, destination.campaignId))
+          : destination.url
+      );
+    }
+
+    return html.replace(ANCHOR_PATTERN, (tag: string, attributes: string) => {
+      if (NO_TRACK_PATTERN.test(attributes)) {
+        return `<a${attributes.replace(NO_TRACK_PATTERN, '')}>`;
+      }
+      const href = attributes.match(HREF_PATTERN);
+      const replacement = href && replacements.get(decodeHref(href[1]));
+      return replacement
+        ? `<a${attributes.replace(HREF_PATTERN, () => ` href="${encodeHref(replacement)}"`)}>`
+        : tag;
+    });
+  }
+}
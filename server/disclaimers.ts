@@ -0,0 +1,82 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import { ApiError, HTTP_STATUS } from "./middleware/error";
+import { disclaimerBlocksFor, type DisclaimerBlock, type DisclaimerSender } from "@shared/disclaimers";
+
+type TransactionClient = Prisma.TransactionClient;
+
+export class DisclaimerService {
+  // Disclaimer blocks a sender's signature carries, in rule order
+  static async blocksForSender(tenantId: number, sender: DisclaimerSender, client: TransactionClient = prisma): Promise<DisclaimerBlock[]> {
+    const rules = await client.disclaimerRule.findMany({
+      where: {
+        tenant_id: tenantId,
+        is_active: true
+      },
+      orderBy: [{ position: 'asc' }, { id: 'asc' }]
+    });
+
+    return disclaimerBlocksFor(rules, sender);
+  }
+
+  // Position after the tenant's last rule
+  static async nextPosition(tenantId: number, client: TransactionClient = prisma): Promise<number> {
+    const last = await client.disclaimerRule.aggregate({
+      where: { tenant_id: tenantId },
+      _max: { position: true }
+    });
+    return (last._max.position ?? -1) + 1;
+  }
+
+  // A rule within the tenant, or DISCLAIMER_RULE_NOT_FOUND
+  static async findTenantRule(id: number, tenantId: number, client: TransactionClient = prisma) {
+    const rule = await client.disclaimerRule.findFirst({
+      where: {
+        id,
+        tenant_id: tenantId
+      }
+    });
+
+    if (!rule) {
+      throw new ApiError(
+        HTTP_STATUS.NOT_FOUND,
+        "Disclaimer rule not found",
+        "DISCLAIMER_RULE_NOT_FOUND"
+      );
+    }
+
+    return rule;
+  }
+
+  // Put the tenant's rules in the given order; every rule must be listed once
+  static async reorder(ruleIds: number[], tenantId: number) {
+    return prisma.$transaction(async (tx) => {
+      const rules = await tx.disclaimerRule.findMany({
+        where: { tenant_id: tenantId },
+        select: { id: true }
+      });
+
+      const existing = new Set(rules.map((rule) => rule.id));
+      if (ruleIds.length !== existing.size || ruleIds.some((id) => !existing.has(id))) {
+        throw new ApiError(
+          HTTP_STATUS.BAD_REQUEST,
+          "rule_ids must list every disclaimer rule of the tenant exactly once",
+          "INVALID_RULE_ORDER",
+          { rule_ids: rules.map((rule) => rule.id) }
+        );
+      }
+
+      for (let position = 0; position < ruleIds.length; position++) {
+        await tx.disclaimerRule.update({
+          where: { id: ruleIds[position] },
+          data: { position }
+        });
+      }
+
+      return tx.disclaimerRule.findMany({
+        where: { tenant_id: tenantId },
+        orderBy: [{ position: 'asc' }, { id: 'asc' }]
+      });
+    });
+  }
+}
@@ -0,0 +1,26 @@
+/**
+ * Entity tags for optimistic concurrency on editable records.
+ *
+ * GET responses carry an ETag built from the record's ID and last update
+ * time. Clients send it back in If-Match when saving; a mismatch means
+ * someone else saved in between and the write is rejected with 409.
+ */
+
+export function entityTag(id: number, updatedAt: Date): string {
+  return `"${id}-${updatedAt.getTime()}"`;
+}
+
+/**
+ * Whether an If-Match header allows writing a record with the given tag.
+ * Requests without the header are not checked.
+ */
+export function ifMatchSatisfied(ifMatch: string | undefined, etag: string): boolean {
+  if (!ifMatch) {
+    return true;
+  }
+
+  return ifMatch
+    .split(',')
+    .map((tag) => tag.trim())
+    .some((tag) => tag === '*' || tag === etag);
+}
@@ -101,6 +101,33 @@ export const requireAdmin = (req: Request, res: Response, next: NextFunction) =>
   next();
 };
 
+// Platform operators, who manage content shared by every tenant; comma-separated emails
+const PLATFORM_ADMIN_EMAILS = (process.env.PLATFORM_ADMIN_EMAILS || "")
+  .split(",")
+  .map((email) => email.trim().toLowerCase())
+  .filter(Boolean);
+
+export const isPlatformAdmin = (email: string) => PLATFORM_ADMIN_EMAILS.includes(email.toLowerCase());
+
+// Platform admin middleware - requires an account listed in PLATFORM_ADMIN_EMAILS
+export const requirePlatformAdmin = (req: Request, res: Response, next: NextFunction) => {
+  if (!req.user) {
+    return res.status(401).json({
+      error: "Authentication required",
+      code: "AUTH_REQUIRED"
+    });
+  }
+
+  if (!isPlatformAdmin(req.user.email)) {
+    return res.status(403).json({
+      error: "Platform admin access required",
+      code: "PLATFORM_ADMIN_REQUIRED"
+    });
+  }
+
+  next();
+};
+
 // Optional authentication middleware - doesn't fail if no token
 export const optionalAuth = (req: Request, res: Response, next: NextFunction) => {
   const authHeader = req.headers.authorization;
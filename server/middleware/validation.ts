@@ -1,5 +1,11 @@
 import { Request, Response, NextFunction } from "express";
 import Joi from "joi";
+import { CONTACT_KINDS, SIGNATURE_DOCUMENT_VERSION, SOCIAL_NETWORKS } from "@shared/signature-document";
+import { LOCALE_PATTERN } from "@shared/template-locales";
+import { OPEN_TRACKING_MODES, UTM_PARAMETERS } from "@shared/link-tracking";
+import { BRAND_KIT_ENFORCEMENTS, SOCIAL_ICON_STYLES } from "@shared/brand-kit";
+import { FORMATTING_PRESETS, GALLERY_CATEGORIES } from "@shared/template-gallery";
+import { ASSIGNMENT_RULE_FIELDS, ASSIGNMENT_RULE_OPERATORS } from "@shared/assignment-rules";
 
 /**
  * Validation middleware factory
@@ -75,6 +81,40 @@ export const commonSchemas = {
   }).concat(paginationSchema)
 };
 
+// Language with an optional region, e.g. de or de-AT
+export const localeSchema = Joi.string().trim().pattern(LOCALE_PATTERN)
+  .messages({
+    'string.pattern.base': 'Locale must be a language code such as de or de-AT'
+  });
+
+// Office country as an ISO 3166-1 alpha-2 code; stored upper-case
+export const countrySchema = Joi.string().trim().pattern(/^[A-Za-z]{2}$/)
+  .messages({
+    'string.pattern.base': 'Country must be a two-letter ISO code such as DE'
+  });
+
+// UTM parameters appended to signature links; null clears them
+const utmParamsSchema = Joi.object(
+  Object.fromEntries(UTM_PARAMETERS.map((key) => [key, Joi.string().trim().max(100).allow('').optional()]))
+);
+
+/**
+ * Tenant settings validation schemas
+ */
+export const tenantSchemas = {
+  update: Joi.object({
+    name: Joi.string().trim().min(2).max(100).optional()
+      .messages({
+        'string.min': 'Organization name must be at least 2 characters',
+        'string.max': 'Organization name cannot exceed 100 characters'
+      }),
+    locale: localeSchema.optional(),
+    click_tracking: Joi.boolean().optional(),
+    open_tracking: Joi.string().valid(...OPEN_TRACKING_MODES).optional(),
+    utm_params: utmParamsSchema.allow(null).optional()
+  }).min(1)
+};
+
 /**
  * Auth validation schemas
  */
@@ -120,7 +160,8 @@ export const authSchemas = {
       .messages({
         'any.only': 'Passwords do not match',
         'any.required': 'Password confirmation is required'
-      })
+      }),
+    locale: localeSchema.optional()
   }),
 
   login: Joi.object({
@@ -141,6 +182,163 @@ export const authSchemas = {
   })
 };
 
+const urlString = Joi.string().trim().max(2048);
+
+const signatureStylesSchema = Joi.object({
+  nameSize: Joi.number().min(6).max(72),
+  nameColor: Joi.string().max(50),
+  nameFont: Joi.string().max(100),
+  nameWeight: Joi.string().max(10),
+  roleSize: Joi.number().min(6).max(72),
+  roleColor: Joi.string().max(50),
+  roleFont: Joi.string().max(100),
+  roleWeight: Joi.string().max(10),
+  companySize: Joi.number().min(6).max(72),
+  companyColor: Joi.string().max(50),
+  companyFont: Joi.string().max(100),
+  companyWeight: Joi.string().max(10),
+  contactSize: Joi.number().min(6).max(72),
+  contactColor: Joi.string().max(50),
+  contactFont: Joi.string().max(100),
+  contactWeight: Joi.string().max(10),
+  linkColor: Joi.string().max(50),
+  spacing: Joi.number().min(0).max(100),
+  padding: Joi.number().min(0).max(100),
+  logoRadius: Joi.number().min(0).max(100),
+  logoSpacing: Joi.number().min(0).max(100),
+  promoHeight: Joi.number().min(10).max(400)
+});
+
+const imageBlockFields = {
+  src: urlString.required(),
+  alt: Joi.string().trim().max(200).allow('').optional(),
+  width: Joi.number().integer().min(1).optional(),
+  height: Joi.number().integer().min(1).optional(),
+  href: urlString.allow('').optional(),
+  track: Joi.boolean().optional()
+};
+
+/**
+ * Versioned block document (see shared/signature-document), rendered
+ * server-side into email-safe HTML
+ */
+const signatureDocumentSchema = Joi.object({
+  version: Joi.number().valid(SIGNATURE_DOCUMENT_VERSION).required(),
+  blocks: Joi.array().max(50).required().items(
+    Joi.object({ type: Joi.string().valid('name').required(), text: Joi.string().trim().min(1).max(200).required() }),
+    Joi.object({
+      type: Joi.string().valid('title').required(),
+      text: Joi.string().trim().max(200).allow('').required(),
+      company: Joi.string().trim().max(200).allow('').optional()
+    }),
+    Joi.object({
+      type: Joi.string().valid('contact').required(),
+      kind: Joi.string().valid(...CONTACT_KINDS).required(),
+      value: Joi.string().trim().min(1).max(2048).required(),
+      label: Joi.string().trim().max(50).optional(),
+      track: Joi.boolean().optional()
+    }),
+    Joi.object({
+      type: Joi.string().valid('social').required(),
+      links: Joi.array().max(10).items(Joi.object({
+        network: Joi.string().valid(...SOCIAL_NETWORKS).required(),
+        url: urlString.min(1).required()
+      })).required(),
+      track: Joi.boolean().optional()
+    }),
+    Joi.object({ type: Joi.string().valid('logo', 'banner').required(), ...imageBlockFields }),
+    Joi.object({ type: Joi.string().valid('disclaimer').required(), text: Joi.string().trim().min(1).max(2000).required() })
+  ),
+  styles: signatureStylesSchema.default({})
+});
+
+/**
+ * Flat editor fields saved before block documents existed (document
+ * version 0); migrated to the current version on write
+ */
+const legacySignatureContentSchema = Joi.object({
+  fullName: Joi.string().trim().min(1).max(200).required(),
+  jobTitle: Joi.string().trim().max(200).allow('').optional(),
+  company: Joi.string().trim().max(200).allow('').optional(),
+  email: Joi.string().trim().max(254).allow('').optional(),
+  phone: Joi.string().trim().max(50).allow('').optional(),
+  website: urlString.allow('').optional(),
+  linkedIn: urlString.allow('').optional(),
+  twitter: urlString.allow('').optional(),
+  instagram: urlString.allow('').optional(),
+  logoUrl: urlString.allow('').optional(),
+  logoWidth: Joi.number().integer().min(1).optional(),
+  logoHeight: Joi.number().integer().min(1).optional(),
+  promotionalImage: urlString.allow('').optional(),
+  promotionalImageWidth: Joi.number().integer().min(1).optional(),
+  promotionalImageHeight: Joi.number().integer().min(1).optional(),
+  promotionalLink: urlString.allow('').optional(),
+  disclaimer: Joi.string().trim().max(2000).allow('').optional(),
+  styles: signatureStylesSchema.optional()
+});
+
+const signatureContentSchema = Joi.alternatives().try(signatureDocumentSchema, legacySignatureContentSchema);
+
+const hexColor = Joi.string().pattern(/^#[0-9a-fA-F]{6}$/)
+  .messages({
+    'string.pattern.base': 'Color must be a hex color such as #2563eb'
+  });
+
+/**
+ * Brand kit validation schemas
+ */
+export const brandKitSchemas = {
+  update: Joi.object({
+    colors: Joi.array().max(20).items(Joi.object({
+      name: Joi.string().trim().min(1).max(50).required(),
+      value: hexColor.required()
+    })).required(),
+    // Font stacks are written into style attributes, so only plain names are allowed
+    fonts: Joi.array().max(10).items(Joi.object({
+      name: Joi.string().trim().min(1).max(50).pattern(/^[A-Za-z0-9 -]+$/).required(),
+      stack: Joi.string().trim().min(1).max(200).pattern(/^[A-Za-z0-9 ,'-]+$/).required()
+        .messages({
+          'string.pattern.base': 'Font stack may only contain font names, quotes and commas'
+        })
+    })).required(),
+    primary_logo_url: urlString.allow(null, '').optional(),
+    secondary_logo_url: urlString.allow(null, '').optional(),
+    social_icon_style: Joi.string().valid(...SOCIAL_ICON_STYLES).optional(),
+    enforcement: Joi.string().valid(...BRAND_KIT_ENFORCEMENTS).optional()
+  })
+};
+
+const tagIdsSchema = Joi.array().items(Joi.number().integer().positive()).max(20).unique();
+
+/**
+ * Regions a child template replaces on top of its parent (see
+ * shared/template-inheritance); null removes the region
+ */
+const templateOverridesSchema = Joi.object({
+  banner: Joi.object(imageBlockFields).allow(null).optional(),
+  disclaimer: Joi.string().trim().max(2000).allow('', null).optional(),
+  accent_color: hexColor.optional()
+});
+
+/**
+ * Per-locale variants of a template's translatable strings (see
+ * shared/template-locales), keyed by locale
+ */
+const templateTranslationsSchema = Joi.object().pattern(
+  localeSchema,
+  Joi.object({
+    disclaimer: Joi.string().trim().max(2000).allow('').optional(),
+    title_label: Joi.string().trim().max(200).allow('').optional(),
+    banner_alt: Joi.string().trim().max(200).allow('').optional()
+  })
+);
+
+// A template ID, or "default" for the tenant's default template
+const parentTemplateSchema = Joi.alternatives().try(
+  Joi.number().integer().positive(),
+  Joi.string().valid('default')
+);
+
 /**
  * Template validation schemas
  */
@@ -151,29 +349,127 @@ export const templateSchemas = {
         'string.min': 'Template name is required',
         'string.max': 'Template name cannot exceed 100 characters'
       }),
-    html_content: Joi.string().min(1).max(50000).required()
+    html_content: Joi.string().min(1).max(50000).optional()
       .messages({
         'string.min': 'Template content is required',
         'string.max': 'Template content is too large (max 50KB)'
       }),
+    content: signatureContentSchema.optional(),
+    text_content: Joi.string().trim().min(1).max(10000).optional()
+      .messages({
+        'string.max': 'Plain-text content cannot exceed 10000 characters'
+      }),
     is_default: Joi.boolean().default(false),
-    description: Joi.string().trim().max(500).optional()
+    description: Joi.string().trim().max(500).allow('').optional()
       .messages({
         'string.max': 'Description cannot exceed 500 characters'
-      })
-  }),
+      }),
+    tag_ids: tagIdsSchema.optional(),
+    parent_id: parentTemplateSchema.optional(),
+    overrides: templateOverridesSchema.optional(),
+    translations: templateTranslationsSchema.optional()
+  }).or('html_content', 'content', 'parent_id')
+    .without('parent_id', ['html_content', 'content'])
+    .with('overrides', 'parent_id')
+    .messages({
+      'object.missing': 'Either html_content, content or parent_id is required'
+    }),
 
   update: Joi.object({
     name: Joi.string().trim().min(1).max(100).optional(),
     html_content: Joi.string().min(1).max(50000).optional(),
+    content: signatureContentSchema.optional(),
+    // null switches back to text derived from the HTML
+    text_content: Joi.string().trim().min(1).max(10000).allow(null).optional(),
     is_default: Joi.boolean().optional(),
-    description: Joi.string().trim().max(500).optional()
+    description: Joi.string().trim().max(500).allow('', null).optional(),
+    // Replaces the template's tags
+    tag_ids: tagIdsSchema.optional(),
+    // null detaches the template, keeping its current content
+    parent_id: parentTemplateSchema.allow(null).optional(),
+    // Replaces all of the template's overrides
+    overrides: templateOverridesSchema.allow(null).optional(),
+    // Replaces all of the template's translations
+    translations: templateTranslationsSchema.allow(null).optional()
   }).min(1)
 };
 
+/**
+ * Starter template gallery validation schemas
+ */
+export const gallerySchemas = {
+  slug: Joi.object({
+    slug: Joi.string().pattern(/^[a-z0-9]+(?:-[a-z0-9]+)*$/).max(50).required()
+  }),
+
+  query: Joi.object({
+    category: Joi.string().valid(...GALLERY_CATEGORIES).optional()
+  }),
+
+  create: Joi.object({
+    slug: Joi.string().pattern(/^[a-z0-9]+(?:-[a-z0-9]+)*$/).max(50).required()
+      .messages({
+        'string.pattern.base': 'Slug may only contain lowercase letters, digits and single hyphens'
+      }),
+    name: Joi.string().trim().min(1).max(100).required(),
+    description: Joi.string().trim().max(500).allow('', null).optional(),
+    category: Joi.string().valid(...GALLERY_CATEGORIES).required(),
+    formatting: Joi.string().valid(...Object.keys(FORMATTING_PRESETS)).allow(null).optional(),
+    content: signatureContentSchema.required(),
+    sort_order: Joi.number().integer().min(0).max(10000).optional(),
+    is_active: Joi.boolean().optional()
+  }),
+
+  update: Joi.object({
+    name: Joi.string().trim().min(1).max(100).optional(),
+    description: Joi.string().trim().max(500).allow('', null).optional(),
+    category: Joi.string().valid(...GALLERY_CATEGORIES).optional(),
+    formatting: Joi.string().valid(...Object.keys(FORMATTING_PRESETS)).allow(null).optional(),
+    content: signatureContentSchema.optional(),
+    sort_order: Joi.number().integer().min(0).max(10000).optional(),
+    is_active: Joi.boolean().optional()
+  }).min(1),
+
+  // Creating a tenant template from an entry
+  use: Joi.object({
+    name: Joi.string().trim().min(1).max(100).optional(),
+    description: Joi.string().trim().max(500).allow('').optional()
+  })
+};
+
+/**
+ * Template tag validation schemas
+ */
+export const tagSchemas = {
+  create: Joi.object({
+    name: Joi.string().trim().min(1).max(50).required()
+      .messages({
+        'string.max': 'Tag name cannot exceed 50 characters'
+      }),
+    color: hexColor.allow(null).optional()
+  }),
+
+  update: Joi.object({
+    name: Joi.string().trim().min(1).max(50).optional(),
+    color: hexColor.allow(null).optional()
+  }).min(1),
+
+  bulk: Joi.object({
+    template_ids: Joi.array().items(Joi.number().integer().positive()).min(1).max(100).unique().required(),
+    add: tagIdsSchema.optional(),
+    remove: tagIdsSchema.optional()
+  }).or('add', 'remove')
+};
+
 /**
  * User validation schemas
  */
+// Social profiles shown by templates through {{#each social_links}}
+const socialLinksSchema = Joi.array().max(SOCIAL_NETWORKS.length).items(Joi.object({
+  network: Joi.string().valid(...SOCIAL_NETWORKS).required(),
+  url: urlString.min(1).required()
+})).unique('network');
+
 export const userSchemas = {
   create: Joi.object({
     email: Joi.string().email().trim().lowercase().required()
@@ -186,6 +482,12 @@ export const userSchemas = {
     role: Joi.string().valid('admin', 'user').default('user'),
     title: Joi.string().trim().max(100).optional(),
     department: Joi.string().trim().max(100).optional(),
+    phone: Joi.string().trim().max(50).allow('').optional(),
+    mobile: Joi.string().trim().max(50).allow('').optional(),
+    socialLinks: socialLinksSchema.optional(),
+    locale: localeSchema.optional(),
+    country: countrySchema.allow('').optional(),
+    photoUrl: urlString.allow('').optional(),
     password: Joi.string().min(8).max(128).optional()
       .pattern(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/)
       .messages({
@@ -200,11 +502,62 @@ export const userSchemas = {
     role: Joi.string().valid('admin', 'user').optional(),
     title: Joi.string().trim().max(100).optional(),
     department: Joi.string().trim().max(100).optional(),
+    phone: Joi.string().trim().max(50).allow('', null).optional(),
+    mobile: Joi.string().trim().max(50).allow('', null).optional(),
+    socialLinks: socialLinksSchema.optional(),
+    locale: localeSchema.allow(null).optional(),
+    country: countrySchema.allow('', null).optional(),
+    photoUrl: urlString.allow('', null).optional(),
     password: Joi.string().min(8).max(128).optional()
       .pattern(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/)
   }).min(1)
 };
 
+/**
+ * Disclaimer rule validation schemas
+ */
+const disclaimerBlockSchema = Joi.object({
+  title: Joi.string().trim().max(100).allow('').optional(),
+  text: Joi.string().trim().min(1).max(2000).required()
+});
+
+const disclaimerMatchSchema = {
+  match_departments: Joi.array().max(50).items(Joi.string().trim().min(1).max(100)).unique(),
+  match_countries: Joi.array().max(250).items(countrySchema).unique((a, b) => a.toUpperCase() === b.toUpperCase()),
+  match_email_domains: Joi.array().max(50).items(Joi.string().trim().lowercase().domain()).unique()
+};
+
+export const disclaimerSchemas = {
+  create: Joi.object({
+    name: Joi.string().trim().min(1).max(100).required(),
+    match_departments: disclaimerMatchSchema.match_departments.default([]),
+    match_countries: disclaimerMatchSchema.match_countries.default([]),
+    match_email_domains: disclaimerMatchSchema.match_email_domains.default([]),
+    blocks: Joi.array().min(1).max(10).items(disclaimerBlockSchema).required(),
+    is_active: Joi.boolean().default(true),
+    position: Joi.number().integer().min(0).optional()
+  }),
+
+  update: Joi.object({
+    name: Joi.string().trim().min(1).max(100).optional(),
+    match_departments: disclaimerMatchSchema.match_departments.optional(),
+    match_countries: disclaimerMatchSchema.match_countries.optional(),
+    match_email_domains: disclaimerMatchSchema.match_email_domains.optional(),
+    blocks: Joi.array().min(1).max(10).items(disclaimerBlockSchema).optional(),
+    is_active: Joi.boolean().optional()
+  }).min(1),
+
+  // Every rule of the tenant, first to last
+  reorder: Joi.object({
+    rule_ids: Joi.array().min(1).items(Joi.number().integer().positive()).unique().required()
+  }),
+
+  // Sender whose disclaimers to show
+  match: Joi.object({
+    user_id: Joi.number().integer().positive().required()
+  })
+};
+
 /**
  * Assignment validation schemas
  */
@@ -220,6 +573,47 @@ export const assignmentSchemas = {
   })
 };
 
+/**
+ * Assignment rule validation schemas
+ */
+const assignmentConditionSchema = Joi.object({
+  field: Joi.string().valid(...ASSIGNMENT_RULE_FIELDS).required(),
+  operator: Joi.string().valid(...ASSIGNMENT_RULE_OPERATORS).required(),
+  value: Joi.when('operator', {
+    is: 'is_empty',
+    then: Joi.forbidden(),
+    otherwise: Joi.string().trim().allow('').max(200).required()
+  })
+});
+
+const assignmentConditionsSchema = Joi.array().max(20).items(assignmentConditionSchema);
+
+export const assignmentRuleSchemas = {
+  create: Joi.object({
+    name: Joi.string().trim().min(1).max(100).required(),
+    template_id: Joi.number().integer().positive().required(),
+    priority: Joi.number().integer().min(-100).max(100).default(0),
+    conditions: assignmentConditionsSchema.required(),
+    is_active: Joi.boolean().default(true)
+  }),
+
+  update: Joi.object({
+    name: Joi.string().trim().min(1).max(100).optional(),
+    template_id: Joi.number().integer().positive().optional(),
+    priority: Joi.number().integer().min(-100).max(100).optional(),
+    conditions: assignmentConditionsSchema.optional(),
+    is_active: Joi.boolean().optional()
+  }).min(1),
+
+  // A rule as it would be saved; rule_id previews changes to a saved rule
+  preview: Joi.object({
+    rule_id: Joi.number().integer().positive().optional(),
+    template_id: Joi.number().integer().positive().optional(),
+    priority: Joi.number().integer().min(-100).max(100).default(0),
+    conditions: assignmentConditionsSchema.required()
+  })
+};
+
 /**
  * Upload validation schemas
  */
@@ -238,4 +632,76 @@ export const uploadSchemas = {
       otherwise: Joi.optional()
     })
   })
-};
\ No newline at end of file
+};
+
+/**
+ * Campaign validation schemas
+ */
+const campaignTargetsSchema = {
+  target_template_ids: Joi.array().items(Joi.number().integer().positive()).max(100).unique(),
+  target_departments: Joi.array().items(Joi.string().trim().min(1).max(100)).max(50).unique()
+};
+
+export const campaignSchemas = {
+  create: Joi.object({
+    name: Joi.string().trim().min(1).max(100).required(),
+    asset_id: Joi.number().integer().positive().required(),
+    link_url: urlString.uri({ scheme: ['http', 'https'] }).allow(null, '').optional(),
+    alt_text: Joi.string().trim().max(200).allow(null, '').optional(),
+    starts_at: Joi.date().iso().required(),
+    ends_at: Joi.date().iso().greater(Joi.ref('starts_at')).required()
+      .messages({
+        'date.greater': 'Campaign must end after it starts'
+      }),
+    priority: Joi.number().integer().min(-100).max(100).optional(),
+    utm_params: utmParamsSchema.allow(null).optional(),
+    ...campaignTargetsSchema
+  }),
+
+  update: Joi.object({
+    name: Joi.string().trim().min(1).max(100).optional(),
+    asset_id: Joi.number().integer().positive().optional(),
+    link_url: urlString.uri({ scheme: ['http', 'https'] }).allow(null, '').optional(),
+    alt_text: Joi.string().trim().max(200).allow(null, '').optional(),
+    starts_at: Joi.date().iso().optional(),
+    ends_at: Joi.date().iso().optional(),
+    priority: Joi.number().integer().min(-100).max(100).optional(),
+    utm_params: utmParamsSchema.allow(null).optional(),
+    ...campaignTargetsSchema
+  }).min(1),
+
+  // Calendar window; campaigns overlapping it are returned
+  query: Joi.object({
+    from: Joi.date().iso().optional(),
+    to: Joi.date().iso().optional(),
+    status: Joi.string().valid('scheduled', 'active', 'ended').optional()
+  }),
+
+  active: Joi.object({
+    template_id: Joi.number().integer().positive().required(),
+    department: Joi.string().trim().max(100).allow('').optional(),
+    at: Joi.date().iso().optional()
+  })
+};
+
+/**
+ * Link tracking validation schemas
+ */
+export const trackingSchemas = {
+  // Redirect tokens are URL-safe base64
+  token: Joi.object({
+    token: Joi.string().pattern(/^[A-Za-z0-9_-]{6,32}$/).required()
+  }),
+
+  // Open beacons end in .gif so mail clients treat them as images
+  beacon: Joi.object({
+    token: Joi.string().pattern(/^[A-Za-z0-9_-]{6,32}(\.gif)?$/).required()
+  }),
+
+  report: Joi.object({
+    from: Joi.date().iso().optional(),
+    to: Joi.date().iso().optional(),
+    template_id: Joi.number().integer().positive().optional(),
+    user_id: Joi.number().integer().positive().optional()
+  })
+};
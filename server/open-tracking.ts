@@ -0,0 +1,148 @@
+import { createHash, randomBytes } from "crypto";
+import { prisma } from "./prisma";
+import { classifyUserAgent, publicTrackingUrl } from "./click-tracking";
+import type { OpenTrackingMode } from "@shared/link-tracking";
+
+// Transparent 1x1 GIF
+export const TRANSPARENT_PIXEL = Buffer.from('R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7', 'base64');
+
+// Webmail image proxies, which fetch on the reader's behalf when a message is
+// opened, so their loads are opens even though they don't look like a browser
+const IMAGE_PROXY_PATTERN = /googleimageproxy|yahoomailproxy/i;
+
+// Security gateways and prefetchers that fetch images without a reader, e.g.
+// on delivery
+const SCANNER_PATTERN = /mimecast|proofpoint|barracuda|symantec|messagelabs|safelinks|outlook-ios-prefetch/i;
+
+// Headers browsers and proxies send with speculative fetches
+const PREFETCH_HEADERS = ['purpose', 'sec-purpose', 'x-moz', 'x-purpose'];
+
+export interface BeaconRequest {
+  method: string;
+  ip: string | undefined;
+  userAgent: string | undefined;
+  headers: Record<string, string | string[] | undefined>;
+}
+
+/**
+ * Whether an image fetch came from software rather than a reader: crawlers,
+ * security scanners, speculative fetches and clients that do not identify
+ * themselves (Apple Mail Privacy Protection preloads look like this).
+ * Webmail image proxies fetch when the reader opens the message and count.
+ */
+export function isAutomatedFetch(request: BeaconRequest): boolean {
+  if (request.method !== 'GET') {
+    return true;
+  }
+  if (PREFETCH_HEADERS.some((name) => /prefetch|preview/i.test(String(request.headers[name] ?? '')))) {
+    return true;
+  }
+  if (request.userAgent && SCANNER_PATTERN.test(request.userAgent)) {
+    return true;
+  }
+  if (request.userAgent && IMAGE_PROXY_PATTERN.test(request.userAgent)) {
+    return false;
+  }
+  const userAgentClass = classifyUserAgent(request.userAgent);
+  return userAgentClass === 'bot' || userAgentClass === 'unknown';
+}
+
+// Attribute value as the signature compiler writes it
+function escapeAttribute(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// Calendar day in UTC an impression counts towards
+function impressionDay(at: Date): Date {
+  return new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth(), at.getUTCDate()));
+}
+
+export interface SignatureBeaconOptions {
+  tenantId: number;
+  templateId: number;
+  userId: number;
+  mode: OpenTrackingMode;
+  // Source of the signature's logo as written in its HTML, if it has one
+  logoUrl: string | null;
+}
+
+export class OpenTrackingService {
+  // Beacon for one sender's signature, reused across renders
+  static async beaconFor(options: SignatureBeaconOptions, imageUrl: string) {
+    const beacon = await prisma.openBeacon.upsert({
+      where: {
+        tenant_id_template_id_user_id_image_url: {
+          tenant_id: options.tenantId,
+          template_id: options.templateId,
+          user_id: options.userId,
+          image_url: imageUrl
+        }
+      },
+      update: {},
+      create: {
+        tenant_id: options.tenantId,
+        template_id: options.templateId,
+        user_id: options.userId,
+        image_url: imageUrl,
+        token: randomBytes(6).toString('base64url')
+      },
+      select: { token: true }
+    });
+
+    return publicTrackingUrl(`/o/${beacon.token}.gif`);
+  }
+
+  // Route the signature's logo through a beacon, or append a 1x1 pixel when
+  // the mode asks for one or there is no logo to carry it
+  static async addBeacon(html: string, options: SignatureBeaconOptions): Promise<string> {
+    if (options.mode === 'off') {
+      return html;
+    }
+
+    const logoSrc = options.logoUrl ? ` src="${escapeAttribute(options.logoUrl)}"` : null;
+    if (options.mode === 'logo' && logoSrc && html.includes(logoSrc)) {
+      const beaconUrl = await this.beaconFor(options, options.logoUrl!);
+      return html.replace(logoSrc, () => ` src="${beaconUrl}"`);
+    }
+
+    const beaconUrl = await this.beaconFor(options, '');
+    return `${html}<img src="${beaconUrl}" alt="" width="1" height="1" style="display: block; width: 1px; height: 1px; border: 0;" />`;
+  }
+
+  // Count a reader loading a beacon; automated fetches and repeat loads by
+  // the same reader on the same day are ignored. Returns whether it counted.
+  static async recordImpression(
+    beacon: { id: number; tenant_id: number; template_id: number; user_id: number },
+    request: BeaconRequest,
+    at: Date = new Date()
+  ): Promise<boolean> {
+    if (isAutomatedFetch(request)) {
+      return false;
+    }
+
+    const visitor = createHash('sha256')
+      .update(`${request.ip ?? ''}\n${request.userAgent ?? ''}`)
+      .digest('hex')
+      .slice(0, 32);
+
+    const result = await prisma.signatureImpression.createMany({
+      data: [{
+        beacon_id: beacon.id,
+        tenant_id: beacon.tenant_id,
+        template_id: beacon.template_id,
+        user_id: beacon.user_id,
+        day: impressionDay(at),
+        visitor,
+        user_agent_class: classifyUserAgent(request.userAgent)
+      }],
+      skipDuplicates: true
+    });
+
+    return result.count > 0;
+  }
+}
@@ -5,6 +5,9 @@ import jwt from "jsonwebtoken";
 import multer from "multer";
 import path from "path";
 import { storage } from "./storage";
+import { entityTag, ifMatchSatisfied } from "./etag";
+import redirectRoutes from "./routes/redirect";
+import beaconRoutes from "./routes/beacon";
 import { 
   insertUserSchema, 
   insertTenantSchema, 
@@ -301,6 +304,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!template || template.tenantId !== req.tenantId) {
         return res.status(404).json({ error: "Template not found" });
       }
+      res.setHeader("ETag", entityTag(template.id, template.updatedAt));
       res.json(template);
     } catch (error) {
       res.status(500).json({ error: "Failed to fetch template" });
@@ -345,7 +349,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: "Template not found" });
       }
 
+      // Someone else saved since this editor loaded the template
+      const currentTag = entityTag(existing.id, existing.updatedAt);
+      if (!ifMatchSatisfied(req.get("If-Match"), currentTag)) {
+        res.setHeader("ETag", currentTag);
+        return res.status(409).json({
+          error: "Template was changed by someone else since you opened it",
+          code: "EDIT_CONFLICT",
+          details: { etag: currentTag, current: existing }
+        });
+      }
+
       const template = await storage.updateSignatureTemplate(parseInt(req.params.id), templateData);
+      if (template) {
+        res.setHeader("ETag", entityTag(template.id, template.updatedAt));
+      }
 
       // Log activity
       await storage.createActivity({
@@ -507,6 +525,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Serve uploaded files
   app.use('/uploads', express.static('uploads'));
 
+  // Tracked signature links and open beacons, loaded from mail clients
+  // without a session
+  app.use('/r', redirectRoutes);
+  app.use('/o', beaconRoutes);
+
   const httpServer = createServer(app);
   return httpServer;
 }
@@ -0,0 +1,226 @@
+import { Router, Request, Response } from "express";
+import { Prisma } from "@prisma/client";
+import { prisma } from "../prisma";
+import { authenticateToken, validateTenantAccess, requireAdmin } from "../middleware/auth";
+import { validate, assignmentRuleSchemas, commonSchemas } from "../middleware/validation";
+import { asyncHandler, successResponse, HTTP_STATUS } from "../middleware/error";
+import { AssignmentRuleService } from "../assignment-rules";
+
+const router = Router();
+
+// Template and assignment count included with rules in API responses
+const ruleInclude = {
+  template: {
+    select: { id: true, name: true }
+  },
+  _count: {
+    select: { assignments: true }
+  }
+} satisfies Prisma.AssignmentRuleInclude;
+
+/**
+ * @route GET /api/assignment-rules
+ * @desc Get the tenant's assignment rules, highest priority first
+ * @access Private (Admin only)
+ */
+router.get(
+  "/",
+  authenticateToken,
+  validateTenantAccess,
+  requireAdmin,
+  asyncHandler(async (req: Request, res: Response) => {
+    const rules = await prisma.assignmentRule.findMany({
+      where: {
+        tenant_id: req.tenant!.id
+      },
+      include: ruleInclude,
+      orderBy: [{ priority: 'desc' }, { id: 'desc' }]
+    });
+
+    successResponse(res, rules, "Assignment rules retrieved successfully");
+  })
+);
+
+/**
+ * @route POST /api/assignment-rules/preview
+ * @desc Show which users a rule would match before it is saved, and which of them a
+ *       higher-priority rule would keep
+ * @access Private (Admin only)
+ * @body {Array} conditions - Conditions as { field, operator, value }, all of which must hold
+ * @body {number} priority - Priority the rule would have (optional)
+ * @body {number} template_id - Template the rule would assign (optional)
+ * @body {number} rule_id - Saved rule being edited, left out of the comparison (optional)
+ */
+router.post(
+  "/preview",
+  authenticateToken,
+  validateTenantAccess,
+  requireAdmin,
+  validate({ body: assignmentRuleSchemas.preview }),
+  asyncHandler(async (req: Request, res: Response) => {
+    // validate() checks the body without applying Joi's defaults
+    const { rule_id, template_id, priority = 0, conditions } = req.body;
+
+    if (rule_id) {
+      await AssignmentRuleService.findTenantRule(rule_id, req.tenant!.id);
+    }
+
+    const users = await AssignmentRuleService.preview({ rule_id, template_id, priority, conditions }, req.tenant!.id);
+
+    successResponse(res, {
+      users,
+      matched: users.length,
+      assigned: users.filter((user) => !user.overridden_by).length
+    }, "Assignment rule preview generated successfully");
+  })
+);
+
+/**
+ * @route POST /api/assignment-rules
+ * @desc Create an assignment rule and apply it to the tenant's users
+ * @access Private (Admin only)
+ * @body {string} name - Rule name
+ * @body {number} template_id - Template matching users get
+ * @body {number} priority - Higher wins when several rules match a user (optional)
+ * @body {Array} conditions - Conditions as { field, operator, value }, all of which must hold
+ * @body {boolean} is_active - Whether the rule applies (optional)
+ */
+router.post(
+  "/",
+  authenticateToken,
+  validateTenantAccess,
+  requireAdmin,
+  validate({ body: assignmentRuleSchemas.create }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { name, template_id, priority = 0, conditions, is_active = true } = req.body;
+
+    await AssignmentRuleService.assertTenantTemplate(template_id, req.tenant!.id);
+
+    const created = await prisma.assignmentRule.create({
+      data: {
+        tenant_id: req.tenant!.id,
+        name,
+        template_id,
+        priority,
+        conditions,
+        is_active,
+        created_by: req.user!.userId
+      }
+    });
+
+    const sync = await AssignmentRuleService.syncUsers(req.tenant!.id);
+    const rule = await prisma.assignmentRule.findUniqueOrThrow({
+      where: { id: created.id },
+      include: ruleInclude
+    });
+
+    // Log activity
+    await prisma.processingLog.create({
+      data: {
+        tenant_id: req.tenant!.id,
+        user_id: req.user!.userId,
+        email_id: `assignment_rule_created_${rule.id}`,
+        status: 'success'
+      }
+    });
+
+    successResponse(res, { ...rule, sync }, "Assignment rule created successfully", HTTP_STATUS.CREATED);
+  })
+);
+
+/**
+ * @route PUT /api/assignment-rules/:id
+ * @desc Update an assignment rule and re-apply the tenant's rules
+ * @access Private (Admin only)
+ * @param {number} id - Rule ID
+ * @body Same fields as create, all optional
+ */
+router.put(
+  "/:id",
+  authenticateToken,
+  validateTenantAccess,
+  requireAdmin,
+  validate({ params: commonSchemas.id, body: assignmentRuleSchemas.update }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const { name, template_id, priority, conditions, is_active } = req.body;
+
+    await AssignmentRuleService.findTenantRule(Number(id), req.tenant!.id);
+    if (template_id !== undefined) {
+      await AssignmentRuleService.assertTenantTemplate(template_id, req.tenant!.id);
+    }
+
+    await prisma.assignmentRule.update({
+      where: {
+        id: Number(id)
+      },
+      data: {
+        name,
+        template_id,
+        priority,
+        conditions,
+        is_active
+      }
+    });
+
+    const sync = await AssignmentRuleService.syncUsers(req.tenant!.id);
+    const rule = await prisma.assignmentRule.findUniqueOrThrow({
+      where: { id: Number(id) },
+      include: ruleInclude
+    });
+
+    // Log activity
+    await prisma.processingLog.create({
+      data: {
+        tenant_id: req.tenant!.id,
+        user_id: req.user!.userId,
+        email_id: `assignment_rule_updated_${rule.id}`,
+        status: 'success'
+      }
+    });
+
+    successResponse(res, { ...rule, sync }, "Assignment rule updated successfully");
+  })
+);
+
+/**
+ * @route DELETE /api/assignment-rules/:id
+ * @desc Delete an assignment rule. Its assignments are removed and users it matched
+ *       fall to the next matching rule.
+ * @access Private (Admin only)
+ * @param {number} id - Rule ID
+ */
+router.delete(
+  "/:id",
+  authenticateToken,
+  validateTenantAccess,
+  requireAdmin,
+  validate({ params: commonSchemas.id }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    await AssignmentRuleService.findTenantRule(Number(id), req.tenant!.id);
+
+    await prisma.assignmentRule.delete({
+      where: {
+        id: Number(id)
+      }
+    });
+
+    await AssignmentRuleService.syncUsers(req.tenant!.id);
+
+    // Log activity
+    await prisma.processingLog.create({
+      data: {
+        tenant_id: req.tenant!.id,
+        user_id: req.user!.userId,
+        email_id: `assignment_rule_deleted_${id}`,
+        status: 'success'
+      }
+    });
+
+    successResponse(res, null, "Assignment rule deleted successfully", HTTP_STATUS.NO_CONTENT);
+  })
+);
+
+export default router;
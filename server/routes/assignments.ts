@@ -3,6 +3,7 @@ import { prisma } from "../prisma";
 import { authenticateToken, validateTenantAccess, requireAdmin } from "../middleware/auth";
 import { validate, assignmentSchemas, commonSchemas } from "../middleware/validation";
 import { asyncHandler, successResponse, paginatedResponse, ApiError, HTTP_STATUS } from "../middleware/error";
+import { ASSIGNMENT_SOURCES } from "@shared/assignment-rules";
 import Joi from "joi";
 
 const router = Router();
@@ -17,6 +18,7 @@ const router = Router();
  * @query {string} order - Sort order (asc, desc)
  * @query {number} user_id - Filter by user ID
  * @query {number} template_id - Filter by template ID
+ * @query {string} source - Filter by how templates were assigned (manual, rule, default)
  */
 router.get(
   "/",
@@ -30,7 +32,8 @@ router.get(
       sort: Joi.string().valid('assigned_at', 'user_name', 'template_name').default('assigned_at'),
       order: Joi.string().valid('asc', 'desc').default('desc'),
       user_id: Joi.number().integer().positive().optional(),
-      template_id: Joi.number().integer().positive().optional()
+      template_id: Joi.number().integer().positive().optional(),
+      source: Joi.string().valid(...ASSIGNMENT_SOURCES).optional()
     })
   }),
   asyncHandler(async (req: Request, res: Response) => {
@@ -40,7 +43,8 @@ router.get(
       sort = 'assigned_at', 
       order = 'desc',
       user_id,
-      template_id 
+      template_id,
+      source
     } = req.query;
     const offset = (Number(page) - 1) * Number(limit);
 
@@ -59,6 +63,10 @@ router.get(
       where.template_id = Number(template_id);
     }
 
+    if (source) {
+      where.source = source;
+    }
+
     // Get total count for pagination
     const total = await prisma.templateAssignment.count({ where });
 
@@ -114,6 +122,9 @@ router.get(
               }
             }
           }
+        },
+        rule: {
+          select: { id: true, name: true }
         }
       },
       orderBy,
@@ -125,6 +136,8 @@ router.get(
     const assignmentsWithDetails = assignments.map(assignment => ({
       id: assignment.id,
       assigned_at: assignment.assigned_at,
+      source: assignment.source,
+      rule: assignment.rule,
       user: {
         ...assignment.user,
         full_name: `${assignment.user.first_name} ${assignment.user.last_name}`
@@ -206,7 +219,9 @@ router.get(
 
 /**
  * @route POST /api/assignments
- * @desc Create a new template assignment (assign template to user)
+ * @desc Create a new template assignment (assign template to user). A template the user
+ *       already has from a rule or as the default becomes a manual assignment, which rules
+ *       leave alone.
  * @access Private (Admin only)
  * @body {number} user_id - User ID to assign template to
  * @body {number} template_id - Template ID to assign
@@ -260,7 +275,7 @@ router.post(
       }
     });
 
-    if (existingAssignment) {
+    if (existingAssignment?.source === 'manual') {
       throw new ApiError(
         HTTP_STATUS.CONFLICT,
         "Template is already assigned to this user",
@@ -268,12 +283,23 @@ router.post(
       );
     }
 
-    // Create assignment
-    const assignment = await prisma.templateAssignment.create({
-      data: {
+    // Create assignment, or take over the one a rule or the default made
+    const assignment = await prisma.templateAssignment.upsert({
+      where: {
+        user_id_template_id: {
+          user_id,
+          template_id
+        }
+      },
+      create: {
         user_id,
         template_id
       },
+      update: {
+        source: 'manual',
+        rule_id: null,
+        assigned_at: new Date()
+      },
       include: {
         user: {
           select: {
@@ -374,7 +400,9 @@ router.post(
       }
     });
 
-    const existingUserIds = existingAssignments.map(a => a.user_id);
+    // Users who already have the template from a rule or the default get it manually instead
+    const existingUserIds = existingAssignments.filter(a => a.source === 'manual').map(a => a.user_id);
+    const takenOver = existingAssignments.filter(a => a.source !== 'manual');
     const newUserIds = user_ids.filter(id => !existingUserIds.includes(id));
 
     if (newUserIds.length === 0) {
@@ -386,14 +414,28 @@ router.post(
     }
 
     // Create bulk assignments
-    const assignmentData = newUserIds.map(user_id => ({
-      user_id,
-      template_id
-    }));
+    const assignmentData = newUserIds
+      .filter((user_id: number) => !takenOver.some(a => a.user_id === user_id))
+      .map(user_id => ({
+        user_id,
+        template_id
+      }));
 
-    await prisma.templateAssignment.createMany({
-      data: assignmentData
-    });
+    await prisma.$transaction([
+      prisma.templateAssignment.updateMany({
+        where: {
+          id: { in: takenOver.map(a => a.id) }
+        },
+        data: {
+          source: 'manual',
+          rule_id: null,
+          assigned_at: new Date()
+        }
+      }),
+      prisma.templateAssignment.createMany({
+        data: assignmentData
+      })
+    ]);
 
     // Get the created assignments with details
     const createdAssignments = await prisma.templateAssignment.findMany({
@@ -444,7 +486,7 @@ router.post(
 
 /**
  * @route DELETE /api/assignments/:id
- * @desc Remove a template assignment
+ * @desc Remove a template assignment. Rule-derived assignments are removed by changing the rule.
  * @access Private (Admin only)
  * @param {number} id - Assignment ID
  */
@@ -471,6 +513,9 @@ router.delete(
         },
         template: {
           select: { name: true }
+        },
+        rule: {
+          select: { name: true }
         }
       }
     });
@@ -483,6 +528,16 @@ router.delete(
       );
     }
 
+    // The rule would assign it again on its next run
+    if (assignment.source === 'rule') {
+      throw new ApiError(
+        HTTP_STATUS.CONFLICT,
+        `This assignment comes from the rule "${assignment.rule?.name}". Change or deactivate the rule instead.`,
+        "ASSIGNMENT_FROM_RULE",
+        { rule_id: assignment.rule_id }
+      );
+    }
+
     await prisma.templateAssignment.delete({
       where: {
         id: Number(id)
@@ -512,7 +567,7 @@ router.delete(
 
 /**
  * @route DELETE /api/assignments/bulk
- * @desc Bulk remove template assignments
+ * @desc Bulk remove template assignments; rule-derived ones are rejected
  * @access Private (Admin only)
  * @body {number[]} assignment_ids - Array of assignment IDs to remove
  */
@@ -551,6 +606,16 @@ router.delete(
       );
     }
 
+    const ruleDerived = assignments.filter(a => a.source === 'rule');
+    if (ruleDerived.length > 0) {
+      throw new ApiError(
+        HTTP_STATUS.CONFLICT,
+        "Some assignments come from assignment rules. Change or deactivate the rules instead.",
+        "ASSIGNMENT_FROM_RULE",
+        { ruleDerivedIds: ruleDerived.map(a => a.id) }
+      );
+    }
+
     // Delete assignments
     await prisma.templateAssignment.deleteMany({
       where: {
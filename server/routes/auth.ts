@@ -3,6 +3,7 @@ import { z } from "zod";
 import { AuthService } from "../auth";
 import { prisma } from "../prisma";
 import { authRateLimit } from "../middleware/auth";
+import { LOCALE_PATTERN } from "@shared/template-locales";
 
 const router = Router();
 
@@ -15,6 +16,7 @@ const registerSchema = z.object({
   email: z.string().email("Invalid email format"),
   password: z.string().min(8, "Password must be at least 8 characters"),
   confirmPassword: z.string(),
+  locale: z.string().regex(LOCALE_PATTERN, "Locale must be a language code such as de or de-AT").optional(),
 }).refine((data) => data.password === data.confirmPassword, {
   message: "Passwords don't match",
   path: ["confirmPassword"],
@@ -33,7 +35,7 @@ const refreshTokenSchema = z.object({
 router.post("/register", authRateLimit(3, 15 * 60 * 1000), async (req: Request, res: Response) => {
   try {
     const validatedData = registerSchema.parse(req.body);
-    const { organizationName, domain, firstName, lastName, email, password } = validatedData;
+    const { organizationName, domain, firstName, lastName, email, password, locale } = validatedData;
 
     // Check if tenant domain already exists
     const existingTenant = await prisma.tenant.findUnique({
@@ -64,7 +66,8 @@ router.post("/register", authRateLimit(3, 15 * 60 * 1000), async (req: Request,
       data: {
         name: organizationName,
         domain: domain.toLowerCase(),
-        subscription_plan: 'starter'
+        subscription_plan: 'starter',
+        ...(locale ? { locale } : {})
       }
     });
 
@@ -309,12 +312,14 @@ router.get("/me", async (req: Request, res: Response) => {
         role: user.role,
         title: user.title,
         department: user.department,
+        locale: user.locale,
       },
       tenant: {
         id: user.tenant.id,
         name: user.tenant.name,
         domain: user.tenant.domain,
         plan: user.tenant.subscription_plan,
+        locale: user.tenant.locale,
       },
     });
   } catch (error) {
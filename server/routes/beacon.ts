@@ -0,0 +1,62 @@
+import { Router, Request, Response } from "express";
+import { prisma } from "../prisma";
+import { validate, trackingSchemas } from "../middleware/validation";
+import { asyncHandler } from "../middleware/error";
+import { OpenTrackingService, TRANSPARENT_PIXEL } from "../open-tracking";
+
+const router = Router();
+
+// Every load must reach the server to be counted
+function sendPixel(res: Response) {
+  res.set({
+    'Content-Type': 'image/gif',
+    'Content-Length': String(TRANSPARENT_PIXEL.length),
+    'Cache-Control': 'no-store, no-cache, must-revalidate, private',
+    'Pragma': 'no-cache'
+  });
+  res.end(TRANSPARENT_PIXEL);
+}
+
+/**
+ * @route GET /o/:token
+ * @desc Count a signature impression and serve the beacon's logo, or a 1x1
+ *       pixel. Unknown tokens still get a pixel so signatures never show a
+ *       broken image.
+ * @access Public
+ * @param {string} token - Beacon token, optionally ending in .gif
+ */
+router.get(
+  "/:token",
+  validate({ params: trackingSchemas.beacon }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const beacon = await prisma.openBeacon.findUnique({
+      where: {
+        token: req.params.token.replace(/\.gif$/, '')
+      },
+      select: { id: true, tenant_id: true, template_id: true, user_id: true, image_url: true }
+    });
+
+    if (beacon) {
+      // A failed write must not break the image in the reader's mail client
+      try {
+        await OpenTrackingService.recordImpression(beacon, {
+          method: req.method,
+          ip: req.ip,
+          userAgent: req.get('user-agent'),
+          headers: req.headers
+        });
+      } catch (error) {
+        console.error('Failed to record signature impression:', error);
+      }
+    }
+
+    if (beacon?.image_url) {
+      res.set('Cache-Control', 'no-store, private');
+      return res.redirect(302, beacon.image_url);
+    }
+
+    sendPixel(res);
+  })
+);
+
+export default router;
@@ -0,0 +1,345 @@
+import { Router, Request, Response } from "express";
+import { Prisma } from "@prisma/client";
+import { prisma } from "../prisma";
+import { authenticateToken, validateTenantAccess, requireAdmin } from "../middleware/auth";
+import { validate, campaignSchemas, commonSchemas } from "../middleware/validation";
+import { asyncHandler, successResponse, ApiError, HTTP_STATUS } from "../middleware/error";
+import { CampaignService } from "../campaigns";
+import { campaignStatus, type CampaignSchedule } from "@shared/campaigns";
+import { readUtmParams } from "@shared/link-tracking";
+
+const router = Router();
+
+/**
+ * Find a campaign within the tenant or throw CAMPAIGN_NOT_FOUND
+ */
+async function findTenantCampaign(id: number, tenantId: number) {
+  const campaign = await prisma.campaign.findFirst({
+    where: {
+      id,
+      tenant_id: tenantId
+    }
+  });
+
+  if (!campaign) {
+    throw new ApiError(
+      HTTP_STATUS.NOT_FOUND,
+      "Campaign not found",
+      "CAMPAIGN_NOT_FOUND"
+    );
+  }
+
+  return campaign;
+}
+
+/**
+ * Campaign as returned by the API, with where its window stands now
+ */
+function withStatus<T extends CampaignSchedule>(campaign: T, at: Date = new Date()) {
+  return { ...campaign, status: campaignStatus(campaign, at) };
+}
+
+// Blank optional strings are stored as null
+function optionalString(value: string | null | undefined) {
+  return value === undefined ? undefined : value?.trim() || null;
+}
+
+// UTM parameters as stored; no parameters are stored as null
+function utmParamsJson(value: unknown) {
+  if (value === undefined) {
+    return undefined;
+  }
+  const params = readUtmParams(value);
+  return Object.keys(params).length > 0 ? params : Prisma.DbNull;
+}
+
+/**
+ * @route GET /api/campaigns
+ * @desc Get the tenant's campaigns for the calendar, ordered by start
+ * @access Private
+ * @query {string} from - Only campaigns still running at or after this time (optional)
+ * @query {string} to - Only campaigns starting before this time (optional)
+ * @query {string} status - scheduled, active or ended (optional)
+ */
+router.get(
+  "/",
+  authenticateToken,
+  validateTenantAccess,
+  validate({ query: campaignSchemas.query }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { from, to, status } = req.query as { from?: string; to?: string; status?: string };
+    const now = new Date();
+
+    const where: Prisma.CampaignWhereInput = {
+      tenant_id: req.tenant!.id,
+      AND: [
+        ...(from ? [{ ends_at: { gt: new Date(from) } }] : []),
+        ...(to ? [{ starts_at: { lt: new Date(to) } }] : []),
+        ...(status === 'scheduled' ? [{ starts_at: { gt: now } }] : []),
+        ...(status === 'active' ? [{ starts_at: { lte: now }, ends_at: { gt: now } }] : []),
+        ...(status === 'ended' ? [{ ends_at: { lte: now } }] : [])
+      ]
+    };
+
+    const campaigns = await prisma.campaign.findMany({
+      where,
+      orderBy: [
+        { starts_at: 'asc' },
+        { id: 'asc' }
+      ]
+    });
+
+    successResponse(
+      res,
+      campaigns.map((campaign) => withStatus(campaign, now)),
+      "Campaigns retrieved successfully"
+    );
+  })
+);
+
+/**
+ * @route GET /api/campaigns/active
+ * @desc Show which campaign a signature's banner comes from, and the live
+ *       campaigns it takes precedence over
+ * @access Private
+ * @query {number} template_id - Template the signature is rendered from
+ * @query {string} department - Sender's department (optional)
+ * @query {string} at - Moment to resolve for (default: now)
+ */
+router.get(
+  "/active",
+  authenticateToken,
+  validateTenantAccess,
+  validate({ query: campaignSchemas.active }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { template_id, department, at } = req.query as { template_id: string; department?: string; at?: string };
+    const moment = at ? new Date(at) : new Date();
+
+    const ranked = await CampaignService.rankForSignature(
+      req.tenant!.id,
+      { template_id: Number(template_id), department: department || null },
+      moment
+    );
+
+    successResponse(
+      res,
+      {
+        at: moment,
+        campaign: ranked[0] ? withStatus(ranked[0], moment) : null,
+        overridden: ranked.slice(1).map((campaign) => withStatus(campaign, moment))
+      },
+      ranked[0] ? "Active campaign resolved" : "No campaign is active for this signature"
+    );
+  })
+);
+
+/**
+ * @route GET /api/campaigns/:id
+ * @desc Get a campaign
+ * @access Private
+ * @param {number} id - Campaign ID
+ */
+router.get(
+  "/:id",
+  authenticateToken,
+  validateTenantAccess,
+  validate({ params: commonSchemas.id }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const campaign = await findTenantCampaign(Number(req.params.id), req.tenant!.id);
+
+    successResponse(res, withStatus(campaign), "Campaign retrieved successfully");
+  })
+);
+
+/**
+ * @route POST /api/campaigns
+ * @desc Schedule a banner campaign
+ * @access Private (Admin only)
+ * @body {string} name - Campaign name
+ * @body {number} asset_id - Image asset shown as the banner
+ * @body {string} link_url - Where the banner links to (optional)
+ * @body {string} alt_text - Banner alt text (optional)
+ * @body {string} starts_at - Start of the campaign window (ISO 8601)
+ * @body {string} ends_at - End of the campaign window, exclusive (ISO 8601)
+ * @body {number} priority - Higher wins when campaigns overlap (default: 0)
+ * @body {number[]} target_template_ids - Templates to show the banner in; empty for all (optional)
+ * @body {string[]} target_departments - Departments to show the banner to; empty for all (optional)
+ * @body {object} utm_params - UTM parameters for the banner link, over the tenant's (optional)
+ */
+router.post(
+  "/",
+  authenticateToken,
+  validateTenantAccess,
+  requireAdmin,
+  validate({ body: campaignSchemas.create }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const {
+      name,
+      asset_id,
+      link_url,
+      alt_text,
+      starts_at,
+      ends_at,
+      priority = 0,
+      target_template_ids = [],
+      target_departments = [],
+      utm_params
+    } = req.body;
+
+    const asset = await CampaignService.findBannerAsset(asset_id, req.tenant!.id);
+    await CampaignService.assertTenantTemplates(target_template_ids, req.tenant!.id);
+
+    const campaign = await prisma.campaign.create({
+      data: {
+        tenant_id: req.tenant!.id,
+        name: name.trim(),
+        asset_id: asset.id,
+        image_url: asset.url,
+        link_url: optionalString(link_url),
+        alt_text: optionalString(alt_text),
+        starts_at: new Date(starts_at),
+        ends_at: new Date(ends_at),
+        priority,
+        target_template_ids,
+        target_departments: target_departments.map((department: string) => department.trim()),
+        utm_params: utmParamsJson(utm_params),
+        created_by: req.user!.userId
+      }
+    });
+
+    // Log activity
+    await prisma.processingLog.create({
+      data: {
+        tenant_id: req.tenant!.id,
+        user_id: req.user!.userId,
+        email_id: `campaign_created_${campaign.id}`,
+        status: 'success'
+      }
+    });
+
+    successResponse(res, withStatus(campaign), "Campaign created successfully", HTTP_STATUS.CREATED);
+  })
+);
+
+/**
+ * @route PUT /api/campaigns/:id
+ * @desc Update a campaign
+ * @access Private (Admin only)
+ * @param {number} id - Campaign ID
+ * @body Same fields as POST /api/campaigns, all optional; null or an empty
+ *       string clears link_url and alt_text, and null clears utm_params
+ */
+router.put(
+  "/:id",
+  authenticateToken,
+  validateTenantAccess,
+  requireAdmin,
+  validate({ params: commonSchemas.id, body: campaignSchemas.update }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const {
+      name,
+      asset_id,
+      link_url,
+      alt_text,
+      starts_at,
+      ends_at,
+      priority,
+      target_template_ids,
+      target_departments,
+      utm_params
+    } = req.body;
+
+    const existing = await findTenantCampaign(Number(id), req.tenant!.id);
+
+    // Either end of the window may change; the result must still be a window
+    const startsAt = starts_at !== undefined ? new Date(starts_at) : existing.starts_at;
+    const endsAt = ends_at !== undefined ? new Date(ends_at) : existing.ends_at;
+    if (endsAt.getTime() <= startsAt.getTime()) {
+      throw new ApiError(
+        HTTP_STATUS.BAD_REQUEST,
+        "Campaign must end after it starts",
+        "INVALID_CAMPAIGN_WINDOW",
+        { starts_at: startsAt, ends_at: endsAt }
+      );
+    }
+
+    const asset = asset_id !== undefined
+      ? await CampaignService.findBannerAsset(asset_id, req.tenant!.id)
+      : null;
+    if (target_template_ids !== undefined) {
+      await CampaignService.assertTenantTemplates(target_template_ids, req.tenant!.id);
+    }
+
+    const campaign = await prisma.campaign.update({
+      where: {
+        id: existing.id
+      },
+      data: {
+        ...(name !== undefined ? { name: name.trim() } : {}),
+        ...(asset ? { asset_id: asset.id, image_url: asset.url } : {}),
+        link_url: optionalString(link_url),
+        alt_text: optionalString(alt_text),
+        starts_at: startsAt,
+        ends_at: endsAt,
+        ...(priority !== undefined ? { priority } : {}),
+        ...(target_template_ids !== undefined ? { target_template_ids } : {}),
+        ...(target_departments !== undefined
+          ? { target_departments: target_departments.map((department: string) => department.trim()) }
+          : {}),
+        utm_params: utmParamsJson(utm_params)
+      }
+    });
+
+    // Log activity
+    await prisma.processingLog.create({
+      data: {
+        tenant_id: req.tenant!.id,
+        user_id: req.user!.userId,
+        email_id: `campaign_updated_${campaign.id}`,
+        status: 'success'
+      }
+    });
+
+    successResponse(res, withStatus(campaign), "Campaign updated successfully");
+  })
+);
+
+/**
+ * @route DELETE /api/campaigns/:id
+ * @desc Delete a campaign; signatures stop showing its banner immediately
+ * @access Private (Admin only)
+ * @param {number} id - Campaign ID
+ */
+router.delete(
+  "/:id",
+  authenticateToken,
+  validateTenantAccess,
+  requireAdmin,
+  validate({ params: commonSchemas.id }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    await findTenantCampaign(Number(id), req.tenant!.id);
+
+    await prisma.campaign.delete({
+      where: {
+        id: Number(id)
+      }
+    });
+
+    // Log activity
+    await prisma.processingLog.create({
+      data: {
+        tenant_id: req.tenant!.id,
+        user_id: req.user!.userId,
+        email_id: `campaign_deleted_${id}`,
+        status: 'success'
+      }
+    });
+
+    successResponse(res, null, "Campaign deleted successfully", HTTP_STATUS.NO_CONTENT);
+  })
+);
+
+export default router;
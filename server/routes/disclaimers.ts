@@ -0,0 +1,259 @@
+import { Router, Request, Response } from "express";
+import { Prisma } from "@prisma/client";
+import { prisma } from "../prisma";
+import { authenticateToken, validateTenantAccess, requireAdmin } from "../middleware/auth";
+import { validate, disclaimerSchemas, commonSchemas } from "../middleware/validation";
+import { asyncHandler, successResponse, ApiError, HTTP_STATUS } from "../middleware/error";
+import { DisclaimerService } from "../disclaimers";
+import { assertValidTemplateSyntax, escapeHtml } from "../signature";
+import {
+  matchingDisclaimerRules,
+  readDisclaimerBlocks,
+  renderDisclaimerHtml,
+  renderDisclaimerText,
+  type DisclaimerBlock
+} from "@shared/disclaimers";
+
+const router = Router();
+
+/**
+ * Blocks as stored, without empty titles. Their merge fields must parse
+ * like a template's, since they are rendered with the signature.
+ */
+function prepareBlocks(blocks: DisclaimerBlock[]): Prisma.InputJsonValue {
+  const prepared = blocks.map((block) => (block.title ? { title: block.title, text: block.text } : { text: block.text }));
+  assertValidTemplateSyntax(renderDisclaimerHtml(prepared, escapeHtml), renderDisclaimerText(prepared));
+  return prepared;
+}
+
+/**
+ * @route GET /api/disclaimer-rules
+ * @desc Get the tenant's disclaimer rules in order
+ * @access Private
+ */
+router.get(
+  "/",
+  authenticateToken,
+  validateTenantAccess,
+  asyncHandler(async (req: Request, res: Response) => {
+    const rules = await prisma.disclaimerRule.findMany({
+      where: {
+        tenant_id: req.tenant!.id
+      },
+      orderBy: [{ position: 'asc' }, { id: 'asc' }]
+    });
+
+    successResponse(res, rules, "Disclaimer rules retrieved successfully");
+  })
+);
+
+/**
+ * @route GET /api/disclaimer-rules/match
+ * @desc Get the rules and disclaimer blocks a user's signature carries
+ * @access Private
+ * @query {number} user_id - User to match
+ */
+router.get(
+  "/match",
+  authenticateToken,
+  validateTenantAccess,
+  validate({ query: disclaimerSchemas.match }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const user = await prisma.user.findFirst({
+      where: {
+        id: Number(req.query.user_id),
+        tenant_id: req.tenant!.id
+      },
+      select: {
+        id: true,
+        email: true,
+        department: true,
+        country: true
+      }
+    });
+
+    if (!user) {
+      throw new ApiError(
+        HTTP_STATUS.NOT_FOUND,
+        "User not found",
+        "USER_NOT_FOUND"
+      );
+    }
+
+    const rules = await prisma.disclaimerRule.findMany({
+      where: {
+        tenant_id: req.tenant!.id,
+        is_active: true
+      }
+    });
+
+    successResponse(res, {
+      user,
+      rules: matchingDisclaimerRules(rules, user).map((rule) => ({ id: rule.id, name: rule.name })),
+      blocks: await DisclaimerService.blocksForSender(req.tenant!.id, user)
+    }, "Disclaimers retrieved successfully");
+  })
+);
+
+/**
+ * @route POST /api/disclaimer-rules
+ * @desc Create a disclaimer rule
+ * @access Private (Admin only)
+ * @body {string} name - Rule name
+ * @body {string[]} match_departments - Departments the rule applies to; empty for all (optional)
+ * @body {string[]} match_countries - Office country codes the rule applies to; empty for all (optional)
+ * @body {string[]} match_email_domains - Email domains the rule applies to; empty for all (optional)
+ * @body {Array} blocks - Disclaimer blocks as { title?, text }, in order
+ * @body {boolean} is_active - Whether the rule applies (optional)
+ * @body {number} position - Place among the tenant's rules; defaults to last (optional)
+ */
+router.post(
+  "/",
+  authenticateToken,
+  validateTenantAccess,
+  requireAdmin,
+  validate({ body: disclaimerSchemas.create }),
+  asyncHandler(async (req: Request, res: Response) => {
+    // validate() checks the body without applying Joi's defaults or conversions
+    const {
+      name,
+      match_departments = [],
+      match_countries = [],
+      match_email_domains = [],
+      blocks,
+      is_active = true,
+      position
+    } = req.body;
+
+    const rule = await prisma.disclaimerRule.create({
+      data: {
+        tenant_id: req.tenant!.id,
+        name: name.trim(),
+        position: position ?? await DisclaimerService.nextPosition(req.tenant!.id),
+        is_active,
+        match_departments: match_departments.map((department: string) => department.trim()),
+        match_countries: match_countries.map((country: string) => country.trim().toUpperCase()),
+        match_email_domains: match_email_domains.map((domain: string) => domain.trim().toLowerCase()),
+        blocks: prepareBlocks(blocks),
+        created_by: req.user!.userId
+      }
+    });
+
+    // Log activity
+    await prisma.processingLog.create({
+      data: {
+        tenant_id: req.tenant!.id,
+        user_id: req.user!.userId,
+        email_id: `disclaimer_rule_created_${rule.id}`,
+        status: 'success'
+      }
+    });
+
+    successResponse(res, rule, "Disclaimer rule created successfully", HTTP_STATUS.CREATED);
+  })
+);
+
+/**
+ * @route PUT /api/disclaimer-rules/order
+ * @desc Reorder the tenant's disclaimer rules
+ * @access Private (Admin only)
+ * @body {number[]} rule_ids - Every rule of the tenant, first to last
+ */
+router.put(
+  "/order",
+  authenticateToken,
+  validateTenantAccess,
+  requireAdmin,
+  validate({ body: disclaimerSchemas.reorder }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const rules = await DisclaimerService.reorder(req.body.rule_ids, req.tenant!.id);
+
+    successResponse(res, rules, "Disclaimer rules reordered successfully");
+  })
+);
+
+/**
+ * @route PUT /api/disclaimer-rules/:id
+ * @desc Update a disclaimer rule
+ * @access Private (Admin only)
+ * @param {number} id - Rule ID
+ * @body Same fields as create, all optional; position changes go through PUT /order
+ */
+router.put(
+  "/:id",
+  authenticateToken,
+  validateTenantAccess,
+  requireAdmin,
+  validate({ params: commonSchemas.id, body: disclaimerSchemas.update }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const { name, match_departments, match_countries, match_email_domains, blocks, is_active } = req.body;
+
+    await DisclaimerService.findTenantRule(Number(id), req.tenant!.id);
+
+    const rule = await prisma.disclaimerRule.update({
+      where: {
+        id: Number(id)
+      },
+      data: {
+        name: name?.trim(),
+        is_active,
+        match_departments: match_departments?.map((department: string) => department.trim()),
+        match_countries: match_countries?.map((country: string) => country.trim().toUpperCase()),
+        match_email_domains: match_email_domains?.map((domain: string) => domain.trim().toLowerCase()),
+        blocks: blocks ? prepareBlocks(blocks) : undefined
+      }
+    });
+
+    // Log activity
+    await prisma.processingLog.create({
+      data: {
+        tenant_id: req.tenant!.id,
+        user_id: req.user!.userId,
+        email_id: `disclaimer_rule_updated_${rule.id}`,
+        status: 'success'
+      }
+    });
+
+    successResponse(res, rule, "Disclaimer rule updated successfully");
+  })
+);
+
+/**
+ * @route DELETE /api/disclaimer-rules/:id
+ * @desc Delete a disclaimer rule
+ * @access Private (Admin only)
+ * @param {number} id - Rule ID
+ */
+router.delete(
+  "/:id",
+  authenticateToken,
+  validateTenantAccess,
+  requireAdmin,
+  validate({ params: commonSchemas.id }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    await DisclaimerService.findTenantRule(Number(id), req.tenant!.id);
+
+    await prisma.disclaimerRule.delete({
+      where: {
+        id: Number(id)
+      }
+    });
+
+    // Log activity
+    await prisma.processingLog.create({
+      data: {
+        tenant_id: req.tenant!.id,
+        user_id: req.user!.userId,
+        email_id: `disclaimer_rule_deleted_${id}`,
+        status: 'success'
+      }
+    });
+
+    successResponse(res, null, "Disclaimer rule deleted successfully", HTTP_STATUS.NO_CONTENT);
+  })
+);
+
+export default router;
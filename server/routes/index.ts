@@ -4,6 +4,12 @@ import templateRoutes from "./templates";
 import userRoutes from "./users";
 import assignmentRoutes from "./assignments";
 import uploadRoutes from "./upload";
+import tagRoutes from "./tags";
+import tenantRoutes from "./tenant";
+import campaignRoutes from "./campaigns";
+import trackingRoutes from "./tracking";
+import disclaimerRoutes from "./disclaimers";
+import assignmentRuleRoutes from "./assignment-rules";
 
 const router = Router();
 
@@ -15,15 +21,33 @@ const router = Router();
 // Authentication routes - /api/auth/*
 router.use("/auth", authRoutes);
 
+// Tenant settings routes - /api/tenant/*
+router.use("/tenant", tenantRoutes);
+
 // Template management routes - /api/templates/*
 router.use("/templates", templateRoutes);
 
+// Template tag routes - /api/template-tags/*
+router.use("/template-tags", tagRoutes);
+
+// Banner campaign routes - /api/campaigns/*
+router.use("/campaigns", campaignRoutes);
+
+// Link and open tracking reports - /api/tracking/*
+router.use("/tracking", trackingRoutes);
+
+// Compliance disclaimer rules - /api/disclaimer-rules/*
+router.use("/disclaimer-rules", disclaimerRoutes);
+
 // User management routes - /api/users/*
 router.use("/users", userRoutes);
 
 // Template assignment routes - /api/assignments/*
 router.use("/assignments", assignmentRoutes);
 
+// Rule-based template assignment - /api/assignment-rules/*
+router.use("/assignment-rules", assignmentRuleRoutes);
+
 // File upload routes - /api/upload/*
 router.use("/upload", uploadRoutes);
 
@@ -45,9 +69,15 @@ router.get("/", (req, res) => {
     description: "RESTful API for multi-tenant email signature management",
     endpoints: {
       auth: "/api/auth",
+      tenant: "/api/tenant",
       templates: "/api/templates", 
+      template_tags: "/api/template-tags",
+      campaigns: "/api/campaigns",
+      tracking: "/api/tracking",
+      disclaimer_rules: "/api/disclaimer-rules",
       users: "/api/users",
       assignments: "/api/assignments",
+      assignment_rules: "/api/assignment-rules",
       upload: "/api/upload",
       health: "/api/health"
     },
@@ -0,0 +1,50 @@
+import { Router, Request, Response } from "express";
+import { prisma } from "../prisma";
+import { validate, trackingSchemas } from "../middleware/validation";
+import { asyncHandler, ApiError, HTTP_STATUS } from "../middleware/error";
+import { classifyUserAgent } from "../click-tracking";
+
+const router = Router();
+
+/**
+ * @route GET /r/:token
+ * @desc Record a click on a tracked signature link and redirect to its destination
+ * @access Public
+ * @param {string} token - Tracked link token
+ */
+router.get(
+  "/:token",
+  validate({ params: trackingSchemas.token }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const link = await prisma.trackedLink.findUnique({
+      where: {
+        token: req.params.token
+      },
+      select: { id: true, url: true }
+    });
+
+    if (!link) {
+      throw new ApiError(
+        HTTP_STATUS.NOT_FOUND,
+        "Link not found",
+        "LINK_NOT_FOUND"
+      );
+    }
+
+    // A failed write must not strand the reader on an error page
+    try {
+      await prisma.linkClick.create({
+        data: {
+          link_id: link.id,
+          user_agent_class: classifyUserAgent(req.get('user-agent'))
+        }
+      });
+    } catch (error) {
+      console.error('Failed to record link click:', error);
+    }
+
+    res.redirect(302, link.url);
+  })
+);
+
+export default router;
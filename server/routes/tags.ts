@@ -0,0 +1,263 @@
+import { Router, Request, Response } from "express";
+import { prisma } from "../prisma";
+import { authenticateToken, validateTenantAccess, requireAdmin } from "../middleware/auth";
+import { validate, tagSchemas, commonSchemas } from "../middleware/validation";
+import { asyncHandler, successResponse, ApiError, HTTP_STATUS } from "../middleware/error";
+import { TemplateTagService } from "../template-tags";
+
+const router = Router();
+
+/**
+ * Find a tag within the tenant or throw TAG_NOT_FOUND
+ */
+async function findTenantTag(id: number, tenantId: number) {
+  const tag = await prisma.templateTag.findFirst({
+    where: {
+      id,
+      tenant_id: tenantId
+    }
+  });
+
+  if (!tag) {
+    throw new ApiError(
+      HTTP_STATUS.NOT_FOUND,
+      "Tag not found",
+      "TAG_NOT_FOUND"
+    );
+  }
+
+  return tag;
+}
+
+/**
+ * Throw TAG_EXISTS if another tag in the tenant already has this name
+ */
+async function assertUniqueName(name: string, tenantId: number, excludeId?: number) {
+  const existing = await prisma.templateTag.findFirst({
+    where: {
+      tenant_id: tenantId,
+      name: { equals: name, mode: 'insensitive' },
+      ...(excludeId ? { id: { not: excludeId } } : {})
+    }
+  });
+
+  if (existing) {
+    throw new ApiError(
+      HTTP_STATUS.CONFLICT,
+      `A tag named "${existing.name}" already exists`,
+      "TAG_EXISTS"
+    );
+  }
+}
+
+/**
+ * @route GET /api/template-tags
+ * @desc Get the tenant's template tags with the templates carrying each one
+ * @access Private
+ */
+router.get(
+  "/",
+  authenticateToken,
+  validateTenantAccess,
+  asyncHandler(async (req: Request, res: Response) => {
+    const tags = await prisma.templateTag.findMany({
+      where: {
+        tenant_id: req.tenant!.id
+      },
+      include: {
+        taggings: {
+          select: { template_id: true }
+        }
+      },
+      orderBy: {
+        name: 'asc'
+      }
+    });
+
+    successResponse(
+      res,
+      tags.map(({ taggings, ...tag }) => ({
+        ...tag,
+        templates_count: taggings.length,
+        template_ids: taggings.map((tagging) => tagging.template_id)
+      })),
+      "Tags retrieved successfully"
+    );
+  })
+);
+
+/**
+ * @route POST /api/template-tags
+ * @desc Create a template tag
+ * @access Private (Admin only)
+ * @body {string} name - Tag name, unique within the tenant
+ * @body {string} color - Badge color as #rrggbb (optional)
+ */
+router.post(
+  "/",
+  authenticateToken,
+  validateTenantAccess,
+  requireAdmin,
+  validate({ body: tagSchemas.create }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { name, color } = req.body;
+
+    await assertUniqueName(name.trim(), req.tenant!.id);
+
+    const tag = await prisma.templateTag.create({
+      data: {
+        name: name.trim(),
+        color: color || null,
+        tenant_id: req.tenant!.id
+      }
+    });
+
+    successResponse(res, tag, "Tag created successfully", HTTP_STATUS.CREATED);
+  })
+);
+
+/**
+ * @route POST /api/template-tags/bulk
+ * @desc Add and remove tags on several templates at once
+ * @access Private
+ * @body {number[]} template_ids - Templates to update
+ * @body {number[]} add - Tags to add (optional)
+ * @body {number[]} remove - Tags to remove (optional)
+ */
+router.post(
+  "/bulk",
+  authenticateToken,
+  validateTenantAccess,
+  validate({ body: tagSchemas.bulk }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { template_ids, add = [], remove = [] } = req.body as {
+      template_ids: number[];
+      add?: number[];
+      remove?: number[];
+    };
+
+    const templates = await prisma.signatureTemplate.findMany({
+      where: {
+        id: { in: template_ids },
+        tenant_id: req.tenant!.id
+      },
+      select: { id: true }
+    });
+
+    if (templates.length !== template_ids.length) {
+      const found = new Set(templates.map((template) => template.id));
+      throw new ApiError(
+        HTTP_STATUS.NOT_FOUND,
+        "One or more templates not found",
+        "TEMPLATE_NOT_FOUND",
+        { template_ids: template_ids.filter((id) => !found.has(id)) }
+      );
+    }
+
+    await TemplateTagService.assertTenantTags([...add, ...remove], req.tenant!.id);
+
+    const result = await prisma.$transaction(async (tx) => {
+      const removed = remove.length > 0
+        ? await tx.templateTagging.deleteMany({
+            where: {
+              template_id: { in: template_ids },
+              tag_id: { in: remove }
+            }
+          })
+        : { count: 0 };
+
+      const added = add.length > 0
+        ? await tx.templateTagging.createMany({
+            data: template_ids.flatMap((templateId) =>
+              add.map((tagId) => ({ template_id: templateId, tag_id: tagId }))
+            ),
+            skipDuplicates: true
+          })
+        : { count: 0 };
+
+      return { added: added.count, removed: removed.count };
+    });
+
+    // Log activity
+    await prisma.processingLog.create({
+      data: {
+        tenant_id: req.tenant!.id,
+        user_id: req.user!.userId,
+        email_id: `bulk_tagging_${template_ids.length}`,
+        status: 'success'
+      }
+    });
+
+    successResponse(
+      res,
+      { templates: template_ids.length, ...result },
+      `Tags updated on ${template_ids.length} templates`
+    );
+  })
+);
+
+/**
+ * @route PUT /api/template-tags/:id
+ * @desc Rename or recolor a template tag
+ * @access Private (Admin only)
+ * @param {number} id - Tag ID
+ * @body {string} name - Tag name (optional)
+ * @body {string|null} color - Badge color as #rrggbb, or null to clear it (optional)
+ */
+router.put(
+  "/:id",
+  authenticateToken,
+  validateTenantAccess,
+  requireAdmin,
+  validate({ params: commonSchemas.id, body: tagSchemas.update }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const { name, color } = req.body;
+
+    await findTenantTag(Number(id), req.tenant!.id);
+    if (name !== undefined) {
+      await assertUniqueName(name.trim(), req.tenant!.id, Number(id));
+    }
+
+    const tag = await prisma.templateTag.update({
+      where: {
+        id: Number(id)
+      },
+      data: {
+        ...(name !== undefined ? { name: name.trim() } : {}),
+        ...(color !== undefined ? { color } : {})
+      }
+    });
+
+    successResponse(res, tag, "Tag updated successfully");
+  })
+);
+
+/**
+ * @route DELETE /api/template-tags/:id
+ * @desc Delete a template tag and remove it from all templates
+ * @access Private (Admin only)
+ * @param {number} id - Tag ID
+ */
+router.delete(
+  "/:id",
+  authenticateToken,
+  validateTenantAccess,
+  requireAdmin,
+  validate({ params: commonSchemas.id }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    await findTenantTag(Number(id), req.tenant!.id);
+
+    await prisma.templateTag.delete({
+      where: {
+        id: Number(id)
+      }
+    });
+
+    successResponse(res, null, "Tag deleted successfully", HTTP_STATUS.NO_CONTENT);
+  })
+);
+
+export default router;
@@ -1,12 +1,42 @@
 import { Router, Request, Response } from "express";
 import Joi from "joi";
+import multer from "multer";
+import path from "path";
+import { Prisma } from "@prisma/client";
 import { prisma } from "../prisma";
-import { authenticateToken, validateTenantAccess, requireAdmin } from "../middleware/auth";
-import { validate, templateSchemas, commonSchemas } from "../middleware/validation";
+import { authenticateToken, validateTenantAccess, requireAdmin, requirePlatformAdmin, isPlatformAdmin } from "../middleware/auth";
+import { validate, templateSchemas, commonSchemas, localeSchema, gallerySchemas } from "../middleware/validation";
 import { asyncHandler, successResponse, paginatedResponse, ApiError, HTTP_STATUS } from "../middleware/error";
+import { TemplateVersionService, diffHtml } from "../template-versions";
+import { TemplateWorkflowService, TEMPLATE_STATUSES, statusAfterEdit, WorkflowAction } from "../template-workflow";
+import { TemplatePackageService, ImportConflictStrategy } from "../template-packages";
+import { TemplateTagService, templateTagsInclude, withTags } from "../template-tags";
+import { entityTag, ifMatchSatisfied } from "../etag";
+import { assertValidTemplateSyntax, SignatureService } from "../signature";
+import { TemplateInheritanceService, type InheritanceSource } from "../template-inheritance";
+import { BrandKitService } from "../brand-kit";
+import { TemplateGalleryService } from "../template-gallery";
+import { DefaultTemplateService } from "../template-defaults";
+import { AssignmentRuleService } from "../assignment-rules";
+import { renderSignatureDocument } from "@shared/signature-compiler";
+import { migrateSignatureDocument, type SignatureDocument } from "@shared/signature-document";
+import { sanitizeEmailHtml } from "@shared/html-sanitizer";
+import { htmlToPlainText } from "@shared/plain-text";
+import { lintTemplateHtml, type LintResult } from "@shared/template-linter";
+import { checkDarkMode, simulateDarkMode, DARK_MODE_PREVIEWS } from "@shared/dark-mode";
+import { auditAccessibility } from "@shared/accessibility";
+import { readTemplateOverrides, type TemplateOverrides } from "@shared/template-inheritance";
+import { localeFallbackChain, localizeDocument, readTemplateTranslations } from "@shared/template-locales";
+import { STARTER_TEMPLATES, type GalleryCategory } from "@shared/template-gallery";
 
 const router = Router();
 
+type LintMode = 'report' | 'strict';
+
+const lintQuerySchema = Joi.object({
+  lint: Joi.string().valid('report', 'strict').optional()
+});
+
 /**
  * @route GET /api/templates
  * @desc Get all signature templates for the authenticated user's tenant
@@ -17,14 +47,21 @@ const router = Router();
  * @query {string} order - Sort order (asc, desc)
  * @query {string} q - Search query (searches name and description)
  * @query {string} filter - Filter templates (all, active, default)
+ * @query {string} status - Filter by lifecycle status (draft, in_review, published, archived)
+ * @query {number} tag - Only templates carrying this tag ID
  */
 router.get(
   "/",
   authenticateToken,
   validateTenantAccess,
-  validate({ query: commonSchemas.search }),
+  validate({
+    query: commonSchemas.search.keys({
+      status: Joi.string().valid(...TEMPLATE_STATUSES).optional(),
+      tag: Joi.number().integer().positive().optional()
+    })
+  }),
   asyncHandler(async (req: Request, res: Response) => {
-    const { page = 1, limit = 10, sort = 'created_at', order = 'desc', q, filter = 'all' } = req.query;
+    const { page = 1, limit = 10, sort = 'created_at', order = 'desc', q, filter = 'all', status, tag } = req.query;
     const offset = (Number(page) - 1) * Number(limit);
 
     // Build search conditions
@@ -43,6 +80,14 @@ router.get(
       where.is_default = true;
     }
 
+    if (status) {
+      where.status = status;
+    }
+
+    if (tag) {
+      where.taggings = { some: { tag_id: Number(tag) } };
+    }
+
     // Get total count for pagination
     const total = await prisma.signatureTemplate.count({ where });
 
@@ -70,6 +115,14 @@ router.get(
             }
           }
         },
+        published_version: {
+          select: {
+            id: true,
+            version: true,
+            created_at: true
+          }
+        },
+        ...templateTagsInclude,
         _count: {
           select: {
             template_assignments: true
@@ -87,8 +140,15 @@ router.get(
     const templatesWithStats = templates.map(template => ({
       id: template.id,
       name: template.name,
+      description: template.description,
+      content: template.content,
       html_content: template.html_content,
+      text_content: template.text_content,
+      text_override: template.text_override,
       is_default: template.is_default,
+      status: template.status,
+      tags: template.taggings.map(tagging => tagging.tag),
+      published_version: template.published_version,
       created_at: template.created_at,
       updated_at: template.updated_at,
       creator: template.creator,
@@ -111,9 +171,244 @@ router.get(
   })
 );
 
+/**
+ * @route GET /api/templates/gallery
+ * @desc List starter templates, each with its signature document and thumbnail HTML
+ *       rendered for a sample sender. Platform admins also see hidden entries.
+ * @access Private
+ * @query {string} category - Only entries in this category (professional, creative, minimal)
+ */
+router.get(
+  "/gallery",
+  authenticateToken,
+  validateTenantAccess,
+  validate({ query: gallerySchemas.query }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const entries = await TemplateGalleryService.list({
+      category: req.query.category as GalleryCategory | undefined,
+      includeInactive: isPlatformAdmin(req.user!.email)
+    });
+
+    successResponse(res, entries, "Gallery retrieved successfully");
+  })
+);
+
+/**
+ * @route POST /api/templates/gallery
+ * @desc Add a gallery entry. An entry with a built-in starter's slug replaces that starter.
+ * @access Private (Platform admin only)
+ * @body {string} slug - Identifier, lowercase words joined by hyphens
+ * @body {string} name - Entry name
+ * @body {string} description - Short description (optional)
+ * @body {string} category - professional, creative or minimal
+ * @body {string} formatting - Editor formatting option the entry starts from (optional)
+ * @body {object} content - Signature document, with sender details as merge fields
+ * @body {number} sort_order - Position in the gallery, lowest first (optional)
+ * @body {boolean} is_active - false adds the entry hidden (optional)
+ */
+router.post(
+  "/gallery",
+  authenticateToken,
+  validateTenantAccess,
+  requirePlatformAdmin,
+  validate({ body: gallerySchemas.create }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { slug, name, description, category, formatting, content, sort_order = 0, is_active = true } = req.body;
+
+    const existing = await prisma.galleryTemplate.findUnique({ where: { slug } });
+    if (existing) {
+      throw new ApiError(
+        HTTP_STATUS.CONFLICT,
+        "A gallery entry with this slug already exists",
+        "GALLERY_SLUG_TAKEN"
+      );
+    }
+
+    const document = migrateSignatureDocument(content);
+    assertValidTemplateSyntax(renderSignatureDocument(document));
+
+    const entry = await prisma.galleryTemplate.create({
+      data: {
+        slug,
+        name,
+        description: description || null,
+        category,
+        formatting: formatting ?? null,
+        content: document as unknown as Prisma.InputJsonValue,
+        sort_order,
+        is_active,
+        created_by: req.user!.email
+      }
+    });
+
+    await prisma.processingLog.create({
+      data: {
+        tenant_id: req.tenant!.id,
+        user_id: req.user!.userId,
+        email_id: `gallery_template_created_${entry.id}`,
+        status: 'success'
+      }
+    });
+
+    successResponse(res, entry, "Gallery entry created successfully", HTTP_STATUS.CREATED);
+  })
+);
+
+/**
+ * @route PUT /api/templates/gallery/:slug
+ * @desc Update a gallery entry. Updating a built-in starter stores a replacement for it;
+ *       is_active false hides it.
+ * @access Private (Platform admin only)
+ * @param {string} slug - Entry slug
+ * @body Same fields as POST /api/templates/gallery except slug, all optional
+ */
+router.put(
+  "/gallery/:slug",
+  authenticateToken,
+  validateTenantAccess,
+  requirePlatformAdmin,
+  validate({ params: gallerySchemas.slug, body: gallerySchemas.update }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { slug } = req.params;
+    const { name, description, category, formatting, content, sort_order, is_active } = req.body;
+
+    const existing = await prisma.galleryTemplate.findUnique({ where: { slug } });
+    const starter = STARTER_TEMPLATES.find((entry) => entry.slug === slug);
+    if (!existing && !starter) {
+      throw new ApiError(
+        HTTP_STATUS.NOT_FOUND,
+        "Gallery template not found",
+        "GALLERY_TEMPLATE_NOT_FOUND"
+      );
+    }
+
+    const document = content ? migrateSignatureDocument(content) : null;
+    if (document) {
+      assertValidTemplateSyntax(renderSignatureDocument(document));
+    }
+
+    const updates = {
+      ...(name !== undefined && { name }),
+      ...(description !== undefined && { description: description || null }),
+      ...(category !== undefined && { category }),
+      ...(formatting !== undefined && { formatting }),
+      ...(document && { content: document as unknown as Prisma.InputJsonValue }),
+      ...(sort_order !== undefined && { sort_order }),
+      ...(is_active !== undefined && { is_active })
+    };
+
+    // The first change to a built-in starts from the shipped entry
+    const entry = existing
+      ? await prisma.galleryTemplate.update({ where: { slug }, data: updates })
+      : await prisma.galleryTemplate.create({
+        data: {
+          slug,
+          name: starter!.name,
+          description: starter!.description,
+          category: starter!.category,
+          formatting: starter!.formatting,
+          content: starter!.content as unknown as Prisma.InputJsonValue,
+          sort_order: starter!.sort_order,
+          created_by: req.user!.email,
+          ...updates
+        }
+      });
+
+    await prisma.processingLog.create({
+      data: {
+        tenant_id: req.tenant!.id,
+        user_id: req.user!.userId,
+        email_id: `gallery_template_updated_${entry.id}`,
+        status: 'success'
+      }
+    });
+
+    successResponse(res, entry, "Gallery entry updated successfully");
+  })
+);
+
+/**
+ * @route DELETE /api/templates/gallery/:slug
+ * @desc Delete a gallery entry added by a platform admin. Deleting the replacement of a
+ *       built-in starter restores the shipped starter.
+ * @access Private (Platform admin only)
+ * @param {string} slug - Entry slug
+ */
+router.delete(
+  "/gallery/:slug",
+  authenticateToken,
+  validateTenantAccess,
+  requirePlatformAdmin,
+  validate({ params: gallerySchemas.slug }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { slug } = req.params;
+
+    const existing = await prisma.galleryTemplate.findUnique({ where: { slug } });
+    if (!existing) {
+      throw new ApiError(
+        HTTP_STATUS.NOT_FOUND,
+        STARTER_TEMPLATES.some((entry) => entry.slug === slug)
+          ? "Built-in starters cannot be deleted; set is_active to false to hide one"
+          : "Gallery template not found",
+        "GALLERY_TEMPLATE_NOT_FOUND"
+      );
+    }
+
+    await prisma.galleryTemplate.delete({ where: { slug } });
+
+    await prisma.processingLog.create({
+      data: {
+        tenant_id: req.tenant!.id,
+        user_id: req.user!.userId,
+        email_id: `gallery_template_deleted_${existing.id}`,
+        status: 'success'
+      }
+    });
+
+    successResponse(res, null, "Gallery entry deleted successfully", HTTP_STATUS.NO_CONTENT);
+  })
+);
+
+/**
+ * @route POST /api/templates/gallery/:slug/use
+ * @desc Create a template in the tenant from a gallery entry. A brand kit that restricts
+ *       styling pulls the entry's colors and fonts onto the kit.
+ * @access Private
+ * @param {string} slug - Entry slug
+ * @body {string} name - Template name; defaults to the entry's name (optional)
+ * @body {string} description - Template description; defaults to the entry's (optional)
+ */
+router.post(
+  "/gallery/:slug/use",
+  authenticateToken,
+  validateTenantAccess,
+  validate({ params: gallerySchemas.slug, body: gallerySchemas.use }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { slug } = req.params;
+    const { name, description } = req.body;
+
+    const template = await TemplateGalleryService.instantiate(slug, req.tenant!.id, req.user!.userId, {
+      name,
+      description
+    });
+
+    await prisma.processingLog.create({
+      data: {
+        tenant_id: req.tenant!.id,
+        user_id: req.user!.userId,
+        email_id: `template_created_${template.id}`,
+        status: 'success'
+      }
+    });
+
+    successResponse(res, withTags(template), "Template created from gallery successfully", HTTP_STATUS.CREATED);
+  })
+);
+
 /**
  * @route GET /api/templates/:id
- * @desc Get a specific signature template by ID
+ * @desc Get a specific signature template by ID. The ETag header identifies this revision;
+ *       send it back in If-Match when saving.
  * @access Private
  * @param {number} id - Template ID
  */
@@ -155,7 +450,15 @@ router.get(
           orderBy: {
             assigned_at: 'desc'
           }
-        }
+        },
+        parent: {
+          select: { id: true, name: true }
+        },
+        children: {
+          select: { id: true, name: true },
+          orderBy: { name: 'asc' }
+        },
+        ...templateTagsInclude
       }
     });
 
@@ -167,59 +470,113 @@ router.get(
       );
     }
 
-    successResponse(res, template, "Template retrieved successfully");
+    res.setHeader('ETag', entityTag(template.id, template.updated_at));
+    successResponse(res, withTags(template), "Template retrieved successfully");
   })
 );
 
 /**
  * @route POST /api/templates
- * @desc Create a new signature template
+ * @desc Create a new signature template. HTML is sanitized and the response includes a sanitization report.
+ *       Merge tags are compiled and syntax errors rejected with 422 TEMPLATE_SYNTAX_ERROR.
+ *       When the brand kit restricts styling, off-brand colors and fonts are rejected with
+ *       422 OFF_BRAND_STYLES.
  * @access Private
  * @body {string} name - Template name
- * @body {string} html_content - Template HTML content
- * @body {boolean} is_default - Whether this is a default template
+ * @body {string} html_content - Template HTML content (required unless content is given)
+ * @body {object} content - Block document (or legacy editor fields), rendered to email-safe HTML (optional)
+ * @body {string} text_content - Hand-written plain-text variant; derived from the HTML when omitted (optional)
+ * @body {boolean} is_default - Make this the tenant's default, replacing the current one
  * @body {string} description - Template description (optional)
+ * @body {number[]} tag_ids - Tags to apply (optional)
+ * @body {number|string} parent_id - Template to inherit from, or "default" for the tenant's
+ *       default template; the content then comes from the parent (optional)
+ * @body {object} overrides - Regions replaced on top of the parent: banner, disclaimer,
+ *       accent_color (optional)
+ * @body {object} translations - Per-locale disclaimer, title_label and banner_alt strings,
+ *       keyed by locale (optional)
+ * @query {string} lint - Lint the saved HTML: "report" adds the results to the response,
+ *        "strict" also rejects HTML with lint errors (optional)
  */
 router.post(
   "/",
   authenticateToken,
   validateTenantAccess,
-  validate({ body: templateSchemas.create }),
+  validate({ body: templateSchemas.create, query: lintQuerySchema }),
   asyncHandler(async (req: Request, res: Response) => {
-    const { name, html_content, is_default = false, description } = req.body;
+    const {
+      name,
+      content,
+      text_content,
+      is_default = false,
+      description,
+      tag_ids = [],
+      parent_id,
+      overrides = {},
+      translations
+    } = req.body;
 
-    // If setting as default, unset any existing default templates
-    if (is_default) {
-      await prisma.signatureTemplate.updateMany({
-        where: {
+    const parent = parent_id !== undefined
+      ? await TemplateInheritanceService.findParent(parent_id, req.tenant!.id)
+      : null;
+    if (parent) {
+      await TemplateInheritanceService.assertValidParent(null, parent.id, req.tenant!.id);
+    }
+
+    const document = parent
+      ? await TemplateInheritanceService.composeChild(parent.id, overrides, req.tenant!.id)
+      : content ? migrateSignatureDocument(content) : null;
+    if (document) {
+      await BrandKitService.assertOnBrand(document, req.tenant!.id);
+    }
+    // Stored HTML is always sanitized; the report tells the author what was removed
+    const { html: html_content, report: sanitization } = sanitizeEmailHtml(
+      document ? renderSignatureDocument(document) : req.body.html_content
+    );
+    const lint = lintOnSave(html_content, req.query.lint as LintMode | undefined);
+    assertValidTemplateSyntax(html_content, text_content);
+
+    await TemplateTagService.assertTenantTags(tag_ids, req.tenant!.id);
+
+    const template = await prisma.$transaction(async (tx) => {
+      const created = await tx.signatureTemplate.create({
+        data: {
+          name,
+          content: documentJson(document),
+          html_content,
+          ...textVariant(html_content, text_content),
+          is_default,
+          description: description || null,
+          parent_id: parent?.id ?? null,
+          overrides: parent ? overridesJson(overrides) : Prisma.DbNull,
+          translations: translationsJson(translations),
           tenant_id: req.tenant!.id,
-          is_default: true
+          created_by: req.user!.userId,
+          taggings: {
+            create: tag_ids.map((tag_id: number) => ({ tag_id }))
+          }
         },
-        data: {
-          is_default: false
+        include: {
+          creator: {
+            select: {
+              id: true,
+              first_name: true,
+              last_name: true,
+              email: true
+            }
+          },
+          ...templateTagsInclude
         }
       });
-    }
 
-    const template = await prisma.signatureTemplate.create({
-      data: {
-        name,
-        html_content,
-        is_default,
-        description,
-        tenant_id: req.tenant!.id,
-        created_by: req.user!.userId
-      },
-      include: {
-        creator: {
-          select: {
-            id: true,
-            first_name: true,
-            last_name: true,
-            email: true
-          }
-        }
+      // A new default takes the flag from the previous one
+      if (is_default) {
+        await DefaultTemplateService.makeDefault(created.id, req.tenant!.id, tx);
       }
+
+      await TemplateVersionService.snapshot(created, req.user!.userId, tx);
+
+      return created;
     });
 
     // Log activity
@@ -234,7 +591,7 @@ router.post(
 
     successResponse(
       res,
-      template,
+      { ...withTags(template), sanitization, ...(lint ? { lint } : {}) },
       "Template created successfully",
       HTTP_STATUS.CREATED
     );
@@ -243,13 +600,27 @@ router.post(
 
 /**
  * @route PUT /api/templates/:id
- * @desc Update a signature template
+ * @desc Update a signature template. HTML is sanitized and the response includes a sanitization report.
+ *       New content and recomposed inherited content are held to a restricting brand kit as on create.
+ *       New content is held to a restricting brand kit as on create.
+ *       With an If-Match header, the save is rejected with 409 EDIT_CONFLICT and the current
+ *       server copy if the template changed since that ETag was issued.
  * @access Private
+ * @header {string} If-Match - ETag from GET /api/templates/:id, or * to overwrite (optional)
  * @param {number} id - Template ID
  * @body {string} name - Template name (optional)
  * @body {string} html_content - Template HTML content (optional)
- * @body {boolean} is_default - Whether this is a default template (optional)
- * @body {string} description - Template description (optional)
+ * @body {object} content - Block document (or legacy editor fields); replaces html_content with its rendered HTML (optional)
+ * @body {string|null} text_content - Hand-written plain-text variant, or null to derive it from the HTML (optional)
+ * @body {boolean} is_default - Make this the tenant's default, replacing the current one (optional)
+ * @body {string|null} description - Template description, or empty to clear it (optional)
+ * @body {number[]} tag_ids - Replaces the template's tags (optional)
+ * @body {number|string|null} parent_id - Template to inherit from, "default" for the tenant's
+ *       default template, or null to detach and keep the current content (optional)
+ * @body {object|null} overrides - Replaces the regions overridden on top of the parent (optional)
+ * @body {object|null} translations - Replaces the per-locale string variants (optional)
+ * @query {string} lint - Lint changed HTML: "report" adds the results to the response,
+ *        "strict" also rejects HTML with lint errors (optional)
  */
 router.put(
   "/:id",
@@ -257,11 +628,30 @@ router.put(
   validateTenantAccess,
   validate({ 
     params: commonSchemas.id,
-    body: templateSchemas.update
+    body: templateSchemas.update,
+    query: lintQuerySchema
   }),
   asyncHandler(async (req: Request, res: Response) => {
     const { id } = req.params;
-    const updateData = req.body;
+    const { content, text_content, tag_ids, parent_id, overrides, ...updateData } = req.body;
+
+    if (updateData.description !== undefined) {
+      updateData.description = updateData.description || null;
+    }
+
+    if (updateData.translations !== undefined) {
+      updateData.translations = translationsJson(updateData.translations);
+    }
+
+    if (content) {
+      const document = migrateSignatureDocument(content);
+      await BrandKitService.assertOnBrand(document, req.tenant!.id);
+      updateData.content = documentJson(document);
+      updateData.html_content = renderSignatureDocument(document);
+    } else if (updateData.html_content !== undefined) {
+      // Hand-edited HTML no longer matches the stored document
+      updateData.content = Prisma.DbNull;
+    }
 
     // Check if template exists and belongs to tenant
     const existingTemplate = await prisma.signatureTemplate.findFirst({
@@ -279,40 +669,140 @@ router.put(
       );
     }
 
-    // If setting as default, unset any existing default templates
-    if (updateData.is_default) {
-      await prisma.signatureTemplate.updateMany({
+    // Reject saves based on a revision someone else has since replaced
+    const ifMatch = req.get('If-Match');
+    if (!ifMatchSatisfied(ifMatch, entityTag(existingTemplate.id, existingTemplate.updated_at))) {
+      throw await editConflict(res, existingTemplate.id);
+    }
+
+    // Inherited templates take their content from the parent chain plus their overrides
+    const parentId: number | null = parent_id === undefined
+      ? existingTemplate.parent_id
+      : parent_id === null ? null : (await TemplateInheritanceService.findParent(parent_id, req.tenant!.id)).id;
+
+    if (parentId !== null && updateData.html_content !== undefined) {
+      throw new ApiError(
+        HTTP_STATUS.BAD_REQUEST,
+        "Inherited templates are edited through their overrides",
+        "TEMPLATE_INHERITS_CONTENT",
+        { parent_id: parentId }
+      );
+    }
+
+    if (parentId === null && overrides) {
+      throw new ApiError(
+        HTTP_STATUS.BAD_REQUEST,
+        "Only templates with a parent can have overrides",
+        "TEMPLATE_HAS_NO_PARENT"
+      );
+    }
+
+    if (parent_id !== undefined) {
+      updateData.parent_id = parentId;
+      if (parentId === null) {
+        updateData.overrides = Prisma.DbNull;
+      } else {
+        await TemplateInheritanceService.assertValidParent(existingTemplate.id, parentId, req.tenant!.id);
+      }
+    }
+
+    if (parentId !== null && (parent_id !== undefined || overrides !== undefined)) {
+      const nextOverrides: TemplateOverrides = overrides !== undefined
+        ? overrides ?? {}
+        : readTemplateOverrides(existingTemplate.overrides);
+      const document = await TemplateInheritanceService.composeChild(parentId, nextOverrides, req.tenant!.id);
+      await BrandKitService.assertOnBrand(document, req.tenant!.id);
+      updateData.overrides = overridesJson(nextOverrides);
+      updateData.content = documentJson(document);
+      updateData.html_content = renderSignatureDocument(document);
+    }
+
+    let sanitization = null;
+    let lint: LintResult | null = null;
+    if (updateData.html_content !== undefined) {
+      const sanitized = sanitizeEmailHtml(updateData.html_content);
+      updateData.html_content = sanitized.html;
+      sanitization = sanitized.report;
+      lint = lintOnSave(updateData.html_content, req.query.lint as LintMode | undefined);
+    }
+
+    // Merge tags must compile before anything is saved
+    if (updateData.html_content !== undefined || text_content) {
+      assertValidTemplateSyntax(updateData.html_content ?? existingTemplate.html_content, text_content);
+    }
+
+    if (tag_ids) {
+      await TemplateTagService.assertTenantTags(tag_ids, req.tenant!.id);
+    }
+
+    // Keep the plain-text variant in step with the HTML unless it was written by hand
+    if (text_content !== undefined || updateData.html_content !== undefined) {
+      Object.assign(updateData, textVariant(
+        updateData.html_content ?? existingTemplate.html_content,
+        text_content !== undefined
+          ? text_content
+          : existingTemplate.text_override ? existingTemplate.text_content : null
+      ));
+    }
+
+    // Content changes send the template back to draft for review
+    if (
+      updateData.name !== undefined ||
+      updateData.html_content !== undefined ||
+      text_content !== undefined ||
+      updateData.translations !== undefined
+    ) {
+      updateData.status = statusAfterEdit(existingTemplate.status);
+    }
+
+    // Every save is snapshotted so earlier versions can be restored
+    const updatedTemplate = await prisma.$transaction(async (tx) => {
+      if (tag_ids) {
+        await TemplateTagService.setTemplateTags(Number(id), tag_ids, tx);
+      }
+
+      // A conditional save only applies if nobody saved since the check above
+      const { count } = await tx.signatureTemplate.updateMany({
         where: {
-          tenant_id: req.tenant!.id,
-          is_default: true,
-          id: { not: Number(id) }
+          id: Number(id),
+          ...(ifMatch ? { updated_at: existingTemplate.updated_at } : {})
         },
-        data: {
-          is_default: false
-        }
+        data: updateData
       });
-    }
+      if (count === 0) {
+        throw await editConflict(res, Number(id));
+      }
 
-    const updatedTemplate = await prisma.signatureTemplate.update({
-      where: {
-        id: Number(id)
-      },
-      data: updateData,
-      include: {
-        creator: {
-          select: {
-            id: true,
-            first_name: true,
-            last_name: true,
-            email: true
-          }
+      // A new default takes the flag from the previous one
+      if (updateData.is_default) {
+        await DefaultTemplateService.makeDefault(Number(id), req.tenant!.id, tx);
+      }
+
+      const updated = await tx.signatureTemplate.findUniqueOrThrow({
+        where: {
+          id: Number(id)
         },
-        _count: {
-          select: {
-            template_assignments: true
+        include: {
+          creator: {
+            select: {
+              id: true,
+              first_name: true,
+              last_name: true,
+              email: true
+            }
+          },
+          ...templateTagsInclude,
+          _count: {
+            select: {
+              template_assignments: true
+            }
           }
         }
-      }
+      });
+
+      await TemplateVersionService.snapshot(updated, req.user!.userId, tx);
+
+      return updated;
     });
 
     // Log activity
@@ -325,13 +815,19 @@ router.put(
       }
     });
 
-    successResponse(res, updatedTemplate, "Template updated successfully");
+    res.setHeader('ETag', entityTag(updatedTemplate.id, updatedTemplate.updated_at));
+    successResponse(
+      res,
+      { ...withTags(updatedTemplate), sanitization, ...(lint ? { lint } : {}) },
+      "Template updated successfully"
+    );
   })
 );
 
 /**
  * @route DELETE /api/templates/:id
- * @desc Delete a signature template
+ * @desc Delete a signature template. Users for whom it was the only assigned template
+ *       are assigned the tenant default instead.
  * @access Private (Admin only)
  * @param {number} id - Template ID
  */
@@ -353,8 +849,12 @@ router.delete(
       include: {
         _count: {
           select: {
-            template_assignments: true
+            template_assignments: true,
+            assignment_rules: true
           }
+        },
+        children: {
+          select: { id: true, name: true }
         }
       }
     });
@@ -367,22 +867,41 @@ router.delete(
       );
     }
 
-    // Check if template has assignments
-    if (existingTemplate._count.template_assignments > 0) {
+    // Children render from this template, so they must be moved or detached first
+    if (existingTemplate.children.length > 0) {
+      throw new ApiError(
+        HTTP_STATUS.CONFLICT,
+        "Cannot delete a template other templates inherit from. Detach them first.",
+        "TEMPLATE_HAS_CHILDREN",
+        { children: existingTemplate.children }
+      );
+    }
+
+    // Users of the default have nothing to fall back to
+    if (existingTemplate.is_default && existingTemplate._count.template_assignments > 0) {
       throw new ApiError(
         HTTP_STATUS.CONFLICT,
-        "Cannot delete template with active assignments. Remove assignments first.",
+        "Cannot delete the default template while it is assigned. Choose another default first.",
         "TEMPLATE_HAS_ASSIGNMENTS",
         { assignmentsCount: existingTemplate._count.template_assignments }
       );
     }
 
-    await prisma.signatureTemplate.delete({
-      where: {
-        id: Number(id)
-      }
+    // Users left without any template fall back to the default
+    await prisma.$transaction(async (tx) => {
+      await DefaultTemplateService.reassignSoleUsers(Number(id), req.tenant!.id, tx);
+      await tx.signatureTemplate.delete({
+        where: {
+          id: Number(id)
+        }
+      });
     });
 
+    // Its rules go with it, so users they matched may fall to other rules
+    if (existingTemplate._count.assignment_rules > 0) {
+      await AssignmentRuleService.syncUsers(req.tenant!.id);
+    }
+
     // Log activity
     await prisma.processingLog.create({
       data: {
@@ -399,7 +918,7 @@ router.delete(
 
 /**
  * @route POST /api/templates/:id/duplicate
- * @desc Duplicate an existing template
+ * @desc Duplicate an existing template. HTML is sanitized and the response includes a sanitization report
  * @access Private
  * @param {number} id - Template ID to duplicate
  * @body {string} name - New template name
@@ -423,6 +942,11 @@ router.post(
       where: {
         id: Number(id),
         tenant_id: req.tenant!.id
+      },
+      include: {
+        taggings: {
+          select: { tag_id: true }
+        }
       }
     });
 
@@ -434,34 +958,939 @@ router.post(
       );
     }
 
+    if (originalTemplate.content) {
+      await BrandKitService.assertOnBrand(migrateSignatureDocument(originalTemplate.content), req.tenant!.id);
+    }
+
+    // Templates stored before sanitization existed may still carry unsafe markup
+    const { html: html_content, report: sanitization } = sanitizeEmailHtml(originalTemplate.html_content);
+
     // Create duplicate
-    const duplicatedTemplate = await prisma.signatureTemplate.create({
-      data: {
-        name,
-        html_content: originalTemplate.html_content,
-        is_default: false, // Duplicates are never default
-        description: originalTemplate.description ? `Copy of ${originalTemplate.description}` : null,
-        tenant_id: req.tenant!.id,
-        created_by: req.user!.userId
-      },
-      include: {
-        creator: {
-          select: {
-            id: true,
+    const duplicatedTemplate = await prisma.$transaction(async (tx) => {
+      const created = await tx.signatureTemplate.create({
+        data: {
+          name,
+          content: originalTemplate.content ?? Prisma.DbNull,
+          html_content,
+          ...textVariant(html_content, originalTemplate.text_override ? originalTemplate.text_content : null),
+          is_default: false, // Duplicates are never default
+          description: originalTemplate.description ? `Copy of ${originalTemplate.description}` : null,
+          // A duplicated child inherits from the same parent
+          parent_id: originalTemplate.parent_id,
+          overrides: originalTemplate.overrides ?? Prisma.DbNull,
+          translations: originalTemplate.translations ?? Prisma.DbNull,
+          tenant_id: req.tenant!.id,
+          created_by: req.user!.userId,
+          taggings: {
+            create: originalTemplate.taggings.map(({ tag_id }) => ({ tag_id }))
+          }
+        },
+        include: {
+          creator: {
+            select: {
+              id: true,
+              first_name: true,
+              last_name: true,
+              email: true
+            }
+          },
+          ...templateTagsInclude
+        }
+      });
+
+      await TemplateVersionService.snapshot(created, req.user!.userId, tx);
+
+      return created;
+    });
+
+    successResponse(
+      res,
+      { ...withTags(duplicatedTemplate), sanitization },
+      "Template duplicated successfully",
+      HTTP_STATUS.CREATED
+    );
+  })
+);
+
+/**
+ * Lint HTML about to be saved when the request asked for it. Strict mode
+ * rejects the save when the linter finds errors.
+ */
+function lintOnSave(html: string, mode: LintMode | undefined): LintResult | null {
+  if (!mode) {
+    return null;
+  }
+
+  const result = lintTemplateHtml(html);
+  if (mode === 'strict' && result.summary.error > 0) {
+    throw new ApiError(
+      HTTP_STATUS.UNPROCESSABLE_ENTITY,
+      `Template has ${result.summary.error} lint error(s)`,
+      "TEMPLATE_LINT_FAILED",
+      result
+    );
+  }
+
+  return result;
+}
+
+/**
+ * @route GET /api/templates/:id/export
+ * @desc Download a template as a zip package with its JSON, HTML and referenced asset files.
+ *       The X-Missing-Assets header counts referenced assets whose files could not be read.
+ * @access Private
+ * @param {number} id - Template ID
+ */
+router.get(
+  "/:id/export",
+  authenticateToken,
+  validateTenantAccess,
+  validate({ params: commonSchemas.id }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    const { filename, buffer, missing } = await TemplatePackageService.exportTemplate(Number(id), req.tenant!.id);
+
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.setHeader('X-Missing-Assets', String(missing.length));
+    res.send(buffer);
+  })
+);
+
+// Template packages are read in memory; their assets are written by the import
+const packageUpload = multer({
+  storage: multer.memoryStorage(),
+  fileFilter: (req, file, cb) => {
+    if (path.extname(file.originalname).toLowerCase() === '.zip') {
+      return cb(null, true);
+    }
+    cb(new Error('Only .zip template packages are allowed'));
+  },
+  limits: {
+    fileSize: 20 * 1024 * 1024, // 20MB limit
+    files: 1
+  }
+});
+
+/**
+ * @route POST /api/templates/import
+ * @desc Import a template package exported by GET /api/templates/:id/export. Assets are
+ *       recreated in the tenant and their URLs rewritten; name conflicts are reported.
+ * @access Private
+ * @form {File} file - Template package (.zip)
+ * @query {string} name - Name for the imported template (default: the packaged name)
+ * @query {string} on_conflict - When the name is taken: rename (default) or fail
+ */
+router.post(
+  "/import",
+  authenticateToken,
+  validateTenantAccess,
+  validate({
+    query: Joi.object({
+      name: Joi.string().trim().min(1).max(100).optional(),
+      on_conflict: Joi.string().valid('rename', 'fail').optional()
+    })
+  }),
+  packageUpload.single('file'),
+  asyncHandler(async (req: Request, res: Response) => {
+    if (!req.file) {
+      throw new ApiError(
+        HTTP_STATUS.BAD_REQUEST,
+        "No file uploaded",
+        "FILE_REQUIRED"
+      );
+    }
+
+    const result = await TemplatePackageService.importPackage({
+      buffer: req.file.buffer,
+      tenantId: req.tenant!.id,
+      userId: req.user!.userId,
+      name: req.query.name as string | undefined,
+      onConflict: req.query.on_conflict as ImportConflictStrategy | undefined
+    });
+
+    // Log activity
+    await prisma.processingLog.create({
+      data: {
+        tenant_id: req.tenant!.id,
+        user_id: req.user!.userId,
+        email_id: `template_imported_${result.template.id}`,
+        status: 'success'
+      }
+    });
+
+    successResponse(
+      res,
+      result,
+      result.conflicts.length > 0
+        ? `Template imported with ${result.conflicts.length} conflict(s)`
+        : "Template imported successfully",
+      HTTP_STATUS.CREATED
+    );
+  })
+);
+
+/**
+ * 409 EDIT_CONFLICT carrying the current server copy, so the editor can
+ * reload, merge or overwrite. The ETag header lets a forced save retry.
+ */
+async function editConflict(res: Response, id: number) {
+  const current = await prisma.signatureTemplate.findUniqueOrThrow({
+    where: { id },
+    include: templateTagsInclude
+  });
+  const etag = entityTag(current.id, current.updated_at);
+
+  res.setHeader('ETag', etag);
+  return new ApiError(
+    HTTP_STATUS.CONFLICT,
+    "Template was changed by someone else since you opened it",
+    "EDIT_CONFLICT",
+    { etag, current: withTags(current) }
+  );
+}
+
+/**
+ * Prisma value for a template's block document column
+ */
+function documentJson(document: SignatureDocument | null) {
+  return document ? (document as unknown as Prisma.InputJsonValue) : Prisma.DbNull;
+}
+
+/**
+ * Prisma value for a child template's overrides column
+ */
+function overridesJson(overrides: TemplateOverrides) {
+  return overrides as unknown as Prisma.InputJsonValue;
+}
+
+/**
+ * Prisma value for a template's translations column; locales without any
+ * translated string are dropped
+ */
+function translationsJson(translations: unknown) {
+  const stored = readTemplateTranslations(translations);
+  return Object.keys(stored).length > 0 ? (stored as unknown as Prisma.InputJsonValue) : Prisma.DbNull;
+}
+
+/**
+ * Plain-text variant of a template: the hand-written override when given,
+ * otherwise derived from the HTML
+ */
+function textVariant(html: string, override: string | null | undefined) {
+  return typeof override === 'string'
+    ? { text_content: override, text_override: true }
+    : { text_content: htmlToPlainText(html), text_override: false };
+}
+
+/**
+ * Find a template within the tenant or throw TEMPLATE_NOT_FOUND
+ */
+async function findTenantTemplate(id: number, tenantId: number) {
+  const template = await prisma.signatureTemplate.findFirst({
+    where: {
+      id,
+      tenant_id: tenantId
+    }
+  });
+
+  if (!template) {
+    throw new ApiError(
+      HTTP_STATUS.NOT_FOUND,
+      "Template not found",
+      "TEMPLATE_NOT_FOUND"
+    );
+  }
+
+  return template;
+}
+
+/**
+ * Find a specific version of a template or throw VERSION_NOT_FOUND
+ */
+async function findTemplateVersion(templateId: number, version: number) {
+  const templateVersion = await prisma.signatureTemplateVersion.findUnique({
+    where: {
+      template_id_version: {
+        template_id: templateId,
+        version
+      }
+    },
+    include: {
+      author: {
+        select: {
+          id: true,
+          first_name: true,
+          last_name: true,
+          email: true
+        }
+      }
+    }
+  });
+
+  if (!templateVersion) {
+    throw new ApiError(
+      HTTP_STATUS.NOT_FOUND,
+      `Version ${version} not found`,
+      "VERSION_NOT_FOUND"
+    );
+  }
+
+  return templateVersion;
+}
+
+const versionParams = Joi.object({
+  id: Joi.number().integer().positive().required(),
+  version: Joi.number().integer().positive().required()
+});
+
+/**
+ * @route GET /api/templates/:id/versions
+ * @desc List the saved versions of a template, newest first
+ * @access Private
+ * @param {number} id - Template ID
+ */
+router.get(
+  "/:id/versions",
+  authenticateToken,
+  validateTenantAccess,
+  validate({ params: commonSchemas.id }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    await findTenantTemplate(Number(id), req.tenant!.id);
+
+    const versions = await prisma.signatureTemplateVersion.findMany({
+      where: {
+        template_id: Number(id)
+      },
+      select: {
+        id: true,
+        version: true,
+        name: true,
+        created_at: true,
+        author: {
+          select: {
+            id: true,
             first_name: true,
             last_name: true,
             email: true
           }
         }
+      },
+      orderBy: {
+        version: 'desc'
       }
     });
 
+    successResponse(res, versions, "Template versions retrieved successfully");
+  })
+);
+
+/**
+ * @route GET /api/templates/:id/versions/diff
+ * @desc Side-by-side HTML diff between two versions of a template
+ * @access Private
+ * @param {number} id - Template ID
+ * @query {number} from - Older version number
+ * @query {number} to - Newer version number (default: latest)
+ */
+router.get(
+  "/:id/versions/diff",
+  authenticateToken,
+  validateTenantAccess,
+  validate({
+    params: commonSchemas.id,
+    query: Joi.object({
+      from: Joi.number().integer().positive().required(),
+      to: Joi.number().integer().positive().optional()
+    })
+  }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const { from, to } = req.query;
+
+    await findTenantTemplate(Number(id), req.tenant!.id);
+
+    let toVersion = Number(to);
+    if (!to) {
+      const latest = await prisma.signatureTemplateVersion.findFirst({
+        where: { template_id: Number(id) },
+        orderBy: { version: 'desc' },
+        select: { version: true }
+      });
+      toVersion = latest?.version || Number(from);
+    }
+
+    const [fromSnapshot, toSnapshot] = await Promise.all([
+      findTemplateVersion(Number(id), Number(from)),
+      findTemplateVersion(Number(id), toVersion)
+    ]);
+
     successResponse(
       res,
-      duplicatedTemplate,
-      "Template duplicated successfully",
-      HTTP_STATUS.CREATED
+      {
+        from: {
+          version: fromSnapshot.version,
+          name: fromSnapshot.name,
+          created_at: fromSnapshot.created_at,
+          author: fromSnapshot.author,
+          html_content: fromSnapshot.html_content
+        },
+        to: {
+          version: toSnapshot.version,
+          name: toSnapshot.name,
+          created_at: toSnapshot.created_at,
+          author: toSnapshot.author,
+          html_content: toSnapshot.html_content
+        },
+        rows: diffHtml(fromSnapshot.html_content, toSnapshot.html_content)
+      },
+      "Template diff generated successfully"
+    );
+  })
+);
+
+/**
+ * @route GET /api/templates/:id/versions/:version
+ * @desc Get a single saved version of a template
+ * @access Private
+ * @param {number} id - Template ID
+ * @param {number} version - Version number
+ */
+router.get(
+  "/:id/versions/:version",
+  authenticateToken,
+  validateTenantAccess,
+  validate({ params: versionParams }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id, version } = req.params;
+
+    await findTenantTemplate(Number(id), req.tenant!.id);
+    const templateVersion = await findTemplateVersion(Number(id), Number(version));
+
+    successResponse(res, templateVersion, "Template version retrieved successfully");
+  })
+);
+
+/**
+ * @route POST /api/templates/:id/versions/:version/restore
+ * @desc Restore a previous version. The restored content is sanitized and checked like
+ *       any save, then saved as a new version, so history is never rewritten.
+ *       With an If-Match header, the restore is rejected with 409 EDIT_CONFLICT if the
+ *       template changed since that ETag was issued.
+ * @access Private
+ * @header {string} If-Match - ETag from GET /api/templates/:id, or * to overwrite (optional)
+ * @param {number} id - Template ID
+ * @param {number} version - Version number to restore
+ */
+router.post(
+  "/:id/versions/:version/restore",
+  authenticateToken,
+  validateTenantAccess,
+  validate({ params: versionParams }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id, version } = req.params;
+
+    const template = await findTenantTemplate(Number(id), req.tenant!.id);
+    const templateVersion = await findTemplateVersion(Number(id), Number(version));
+
+    // Reject restores based on a revision someone else has since replaced
+    const ifMatch = req.get('If-Match');
+    if (!ifMatchSatisfied(ifMatch, entityTag(template.id, template.updated_at))) {
+      throw await editConflict(res, template.id);
+    }
+
+    // Older snapshots predate the current rules, so they go through the same checks as a save
+    if (templateVersion.content) {
+      await BrandKitService.assertOnBrand(migrateSignatureDocument(templateVersion.content), req.tenant!.id);
+    }
+    const { html: html_content, report: sanitization } = sanitizeEmailHtml(templateVersion.html_content);
+    const text_content = templateVersion.text_override ? templateVersion.text_content : null;
+    assertValidTemplateSyntax(html_content, text_content);
+
+    const restored = await prisma.$transaction(async (tx) => {
+      // A conditional restore only applies if nobody saved since the check above
+      const { count } = await tx.signatureTemplate.updateMany({
+        where: {
+          id: Number(id),
+          ...(ifMatch ? { updated_at: template.updated_at } : {})
+        },
+        data: {
+          name: templateVersion.name,
+          content: templateVersion.content ?? Prisma.DbNull,
+          html_content,
+          // Only children have overrides; a standalone template keeps none
+          overrides: template.parent_id ? templateVersion.overrides ?? Prisma.DbNull : Prisma.DbNull,
+          translations: templateVersion.translations ?? Prisma.DbNull,
+          ...textVariant(html_content, text_content),
+          status: statusAfterEdit(template.status)
+        }
+      });
+      if (count === 0) {
+        throw await editConflict(res, Number(id));
+      }
+
+      const updated = await tx.signatureTemplate.findUniqueOrThrow({
+        where: {
+          id: Number(id)
+        }
+      });
+
+      const snapshot = await TemplateVersionService.snapshot(updated, req.user!.userId, tx);
+
+      return { template: updated, version: snapshot.version };
+    });
+
+    // Log activity
+    await prisma.processingLog.create({
+      data: {
+        tenant_id: req.tenant!.id,
+        user_id: req.user!.userId,
+        email_id: `template_restored_${id}_v${version}`,
+        status: 'success'
+      }
+    });
+
+    res.setHeader('ETag', entityTag(restored.template.id, restored.template.updated_at));
+    successResponse(
+      res,
+      {
+        ...restored.template,
+        restored_from: templateVersion.version,
+        version: restored.version,
+        sanitization
+      },
+      `Version ${templateVersion.version} restored successfully`
+    );
+  })
+);
+
+/**
+ * @route POST /api/templates/:id/rerender
+ * @desc Re-render a template's HTML from its block document with the current
+ *       compiler. Inherited templates are recomposed from their parents' current
+ *       content. Changed output is saved as a new version and goes back to draft.
+ * @access Private
+ * @param {number} id - Template ID
+ */
+router.post(
+  "/:id/rerender",
+  authenticateToken,
+  validateTenantAccess,
+  validate({ params: commonSchemas.id }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    const template = await findTenantTemplate(Number(id), req.tenant!.id);
+
+    if (!template.content) {
+      throw new ApiError(
+        HTTP_STATUS.UNPROCESSABLE_ENTITY,
+        "Template has no block document to render from",
+        "TEMPLATE_HAS_NO_DOCUMENT"
+      );
+    }
+
+    const document = template.parent_id
+      ? await TemplateInheritanceService.composeChild(
+          template.parent_id,
+          readTemplateOverrides(template.overrides),
+          req.tenant!.id
+        )
+      : migrateSignatureDocument(template.content);
+    await BrandKitService.assertOnBrand(document, req.tenant!.id);
+    const { html: html_content } = sanitizeEmailHtml(renderSignatureDocument(document));
+
+    if (html_content === template.html_content) {
+      successResponse(res, { ...template, changed: false }, "Template is already up to date");
+      return;
+    }
+
+    const rerendered = await prisma.$transaction(async (tx) => {
+      const updated = await tx.signatureTemplate.update({
+        where: {
+          id: template.id
+        },
+        data: {
+          content: documentJson(document),
+          html_content,
+          ...textVariant(html_content, template.text_override ? template.text_content : null),
+          status: statusAfterEdit(template.status)
+        }
+      });
+
+      await TemplateVersionService.snapshot(updated, req.user!.userId, tx);
+
+      return updated;
+    });
+
+    // Log activity
+    await prisma.processingLog.create({
+      data: {
+        tenant_id: req.tenant!.id,
+        user_id: req.user!.userId,
+        email_id: `template_rerendered_${id}`,
+        status: 'success'
+      }
+    });
+
+    successResponse(res, { ...rerendered, changed: true }, "Template re-rendered successfully");
+  })
+);
+
+/**
+ * @route POST /api/templates/:id/lint
+ * @desc Check a template's HTML for email-client problems: size, image dimensions,
+ *       relative URLs, alt text, unsupported CSS, fonts and malformed links
+ * @access Private
+ * @param {number} id - Template ID
+ */
+router.post(
+  "/:id/lint",
+  authenticateToken,
+  validateTenantAccess,
+  validate({ params: commonSchemas.id }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    const template = await findTenantTemplate(Number(id), req.tenant!.id);
+
+    successResponse(
+      res,
+      { template_id: template.id, ...lintTemplateHtml(template.html_content) },
+      "Template linted successfully"
+    );
+  })
+);
+
+/**
+ * @route POST /api/templates/:id/dark-mode
+ * @desc Check how a template survives dark mode: text that loses contrast, transparent
+ *       images without a light backdrop and colors clients will invert, with the HTML
+ *       as fully and partially inverting clients show it
+ * @access Private
+ * @param {number} id - Template ID
+ */
+router.post(
+  "/:id/dark-mode",
+  authenticateToken,
+  validateTenantAccess,
+  validate({ params: commonSchemas.id }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    const template = await findTenantTemplate(Number(id), req.tenant!.id);
+
+    successResponse(
+      res,
+      {
+        template_id: template.id,
+        ...checkDarkMode(template.html_content),
+        previews: Object.fromEntries(
+          DARK_MODE_PREVIEWS.map((mode) => [mode, simulateDarkMode(template.html_content, mode)])
+        )
+      },
+      "Template checked for dark mode successfully"
+    );
+  })
+);
+
+/**
+ * @route POST /api/templates/:id/accessibility
+ * @desc Audit a template's HTML for accessibility: WCAG AA contrast of every text and
+ *       background pair, minimum font size, image alt text and icon-only links, each
+ *       issue with a suggested fix
+ * @access Private
+ * @param {number} id - Template ID
+ */
+router.post(
+  "/:id/accessibility",
+  authenticateToken,
+  validateTenantAccess,
+  validate({ params: commonSchemas.id }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    const template = await findTenantTemplate(Number(id), req.tenant!.id);
+
+    successResponse(
+      res,
+      { template_id: template.id, ...auditAccessibility(template.html_content) },
+      "Template audited successfully"
+    );
+  })
+);
+
+const effectiveQuerySchema = Joi.object({
+  source: Joi.string().valid('draft', 'published').optional(),
+  locale: localeSchema.optional()
+});
+
+/**
+ * @route GET /api/templates/:id/effective
+ * @desc Show a template as it renders once its parent chain is applied, with the
+ *       template each overridable region comes from
+ * @access Private
+ * @param {number} id - Template ID
+ * @query {string} source - Resolve from working copies (draft, default) or from the
+ *        published versions that are sent to users (published)
+ * @query {string} locale - Apply the template's translations for this locale, falling back
+ *        to the tenant's locale (optional)
+ */
+router.get(
+  "/:id/effective",
+  authenticateToken,
+  validateTenantAccess,
+  validate({ params: commonSchemas.id, query: effectiveQuerySchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const source = (req.query.source as InheritanceSource | undefined) ?? 'draft';
+
+    const template = await findTenantTemplate(Number(id), req.tenant!.id);
+    const effective = await TemplateInheritanceService.resolveEffective(template.id, req.tenant!.id, source);
+
+    if (!effective) {
+      throw new ApiError(
+        HTTP_STATUS.UNPROCESSABLE_ENTITY,
+        source === 'published'
+          ? "Every template in the chain needs a published version"
+          : "The base template has no block document to inherit from",
+        "EFFECTIVE_TEMPLATE_UNAVAILABLE",
+        { source }
+      );
+    }
+
+    // Translations come from the same copy of the template as its content
+    const locale = req.query.locale as string | undefined;
+    let localized: { locale: string | null; html_content?: string; text_content?: string } = { locale: null };
+    if (locale) {
+      const translations = source === 'published'
+        ? (await prisma.signatureTemplateVersion.findUnique({
+            where: { id: template.published_version_id ?? 0 },
+            select: { translations: true }
+          }))?.translations
+        : template.translations;
+      const result = localizeDocument(
+        effective.document,
+        readTemplateTranslations(translations),
+        localeFallbackChain(locale, req.tenant!.locale)
+      );
+      if (result.locale) {
+        const { html } = sanitizeEmailHtml(renderSignatureDocument(result.document));
+        localized = { locale: result.locale, html_content: html, text_content: htmlToPlainText(html) };
+      }
+    }
+
+    successResponse(
+      res,
+      {
+        template_id: template.id,
+        parent_id: template.parent_id,
+        source,
+        overrides: readTemplateOverrides(template.overrides),
+        ...effective,
+        ...localized
+      },
+      "Effective template retrieved successfully"
+    );
+  })
+);
+
+const previewQuerySchema = Joi.object({
+  user_id: Joi.number().integer().positive().required(),
+  source: Joi.string().valid('draft', 'published').optional(),
+  locale: localeSchema.optional()
+});
+
+/**
+ * @route GET /api/templates/:id/preview
+ * @desc Render a template as a team member would receive it, with their real merge
+ *       fields, translations and any live campaign banner, and list the fields their
+ *       profile leaves empty. Links are not tracked.
+ * @access Private (Admin only)
+ * @param {number} id - Template ID
+ * @query {number} user_id - Team member to preview as
+ * @query {string} source - Preview the working copy (draft, default) or the published
+ *        version (published)
+ * @query {string} locale - Try this locale before the user's and tenant's (optional)
+ */
+router.get(
+  "/:id/preview",
+  authenticateToken,
+  validateTenantAccess,
+  requireAdmin,
+  validate({ params: commonSchemas.id, query: previewQuerySchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const preview = await SignatureService.previewForUser(
+      Number(req.params.id),
+      Number(req.query.user_id),
+      req.tenant!.id,
+      {
+        source: req.query.source as InheritanceSource | undefined,
+        locale: req.query.locale as string | undefined
+      }
     );
+
+    successResponse(res, preview, "Template preview rendered successfully");
+  })
+);
+
+/**
+ * Handler shared by the workflow transition routes
+ */
+const workflowHandler = (action: WorkflowAction, message: string) =>
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    const result = await TemplateWorkflowService.transition({
+      templateId: Number(id),
+      tenantId: req.tenant!.id,
+      action,
+      actor: req.user!,
+      comment: req.body?.comment
+    });
+
+    // Log activity
+    await prisma.processingLog.create({
+      data: {
+        tenant_id: req.tenant!.id,
+        user_id: req.user!.userId,
+        email_id: `template_${action}_${id}`,
+        status: 'success'
+      }
+    });
+
+    successResponse(res, result, message);
+  });
+
+const workflowCommentSchema = Joi.object({
+  comment: Joi.string().trim().max(1000).optional().allow('')
+});
+
+/**
+ * @route POST /api/templates/:id/submit
+ * @desc Submit a draft template for review
+ * @access Private
+ * @param {number} id - Template ID
+ * @body {string} comment - Note for the reviewer (optional)
+ */
+router.post(
+  "/:id/submit",
+  authenticateToken,
+  validateTenantAccess,
+  validate({ params: commonSchemas.id, body: workflowCommentSchema }),
+  workflowHandler('submit', "Template submitted for review")
+);
+
+/**
+ * @route POST /api/templates/:id/approve
+ * @desc Approve a template in review and publish the version that was submitted
+ * @access Private (Admin only)
+ * @param {number} id - Template ID
+ * @body {string} comment - Review comment (optional)
+ */
+router.post(
+  "/:id/approve",
+  authenticateToken,
+  validateTenantAccess,
+  requireAdmin,
+  validate({ params: commonSchemas.id, body: workflowCommentSchema }),
+  workflowHandler('approve', "Template approved and published")
+);
+
+/**
+ * @route POST /api/templates/:id/reject
+ * @desc Reject a template under review and send it back to draft
+ * @access Private (Admin only)
+ * @param {number} id - Template ID
+ * @body {string} comment - Reason for rejection
+ */
+router.post(
+  "/:id/reject",
+  authenticateToken,
+  validateTenantAccess,
+  requireAdmin,
+  validate({
+    params: commonSchemas.id,
+    body: Joi.object({
+      comment: Joi.string().trim().min(1).max(1000).required()
+        .messages({
+          'any.required': 'A comment explaining the rejection is required'
+        })
+    })
+  }),
+  workflowHandler('reject', "Template rejected")
+);
+
+/**
+ * @route POST /api/templates/:id/archive
+ * @desc Archive a template so it is no longer served
+ * @access Private (Admin only)
+ * @param {number} id - Template ID
+ */
+router.post(
+  "/:id/archive",
+  authenticateToken,
+  validateTenantAccess,
+  requireAdmin,
+  validate({ params: commonSchemas.id, body: workflowCommentSchema }),
+  workflowHandler('archive', "Template archived")
+);
+
+/**
+ * @route POST /api/templates/:id/reopen
+ * @desc Move an archived template back to draft. Its old published version is dropped,
+ *       so it is not served again until it is submitted and approved.
+ * @access Private (Admin only)
+ * @param {number} id - Template ID
+ */
+router.post(
+  "/:id/reopen",
+  authenticateToken,
+  validateTenantAccess,
+  requireAdmin,
+  validate({ params: commonSchemas.id, body: workflowCommentSchema }),
+  workflowHandler('reopen', "Template reopened as draft")
+);
+
+/**
+ * @route GET /api/templates/:id/transitions
+ * @desc Get the review history of a template
+ * @access Private
+ * @param {number} id - Template ID
+ */
+router.get(
+  "/:id/transitions",
+  authenticateToken,
+  validateTenantAccess,
+  validate({ params: commonSchemas.id }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    await findTenantTemplate(Number(id), req.tenant!.id);
+
+    const transitions = await prisma.templateStatusTransition.findMany({
+      where: {
+        template_id: Number(id)
+      },
+      include: {
+        actor: {
+          select: {
+            id: true,
+            first_name: true,
+            last_name: true,
+            email: true
+          }
+        }
+      },
+      orderBy: {
+        created_at: 'desc'
+      }
+    });
+
+    successResponse(res, transitions, "Template transitions retrieved successfully");
   })
 );
 
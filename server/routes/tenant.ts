@@ -0,0 +1,175 @@
+import { Router, Request, Response } from "express";
+import { Prisma } from "@prisma/client";
+import { prisma } from "../prisma";
+import { authenticateToken, validateTenantAccess, requireAdmin } from "../middleware/auth";
+import { validate, tenantSchemas, brandKitSchemas } from "../middleware/validation";
+import { asyncHandler, successResponse } from "../middleware/error";
+import { readUtmParams } from "@shared/link-tracking";
+import { readBrandKit } from "@shared/brand-kit";
+import { BrandKitService } from "../brand-kit";
+
+const router = Router();
+
+// Tenant fields returned by the settings endpoints
+const tenantSettingsSelect = {
+  id: true,
+  name: true,
+  domain: true,
+  subscription_plan: true,
+  locale: true,
+  click_tracking: true,
+  open_tracking: true,
+  utm_params: true,
+  created_at: true,
+  updated_at: true
+};
+
+/**
+ * @route GET /api/tenant
+ * @desc Get the authenticated user's tenant settings
+ * @access Private
+ */
+router.get(
+  "/",
+  authenticateToken,
+  validateTenantAccess,
+  asyncHandler(async (req: Request, res: Response) => {
+    const tenant = await prisma.tenant.findUniqueOrThrow({
+      where: {
+        id: req.tenant!.id
+      },
+      select: tenantSettingsSelect
+    });
+
+    successResponse(res, tenant, "Tenant settings retrieved successfully");
+  })
+);
+
+/**
+ * @route PUT /api/tenant
+ * @desc Update the tenant's settings
+ * @access Private (Admin only)
+ * @body {string} name - Organization name (optional)
+ * @body {string} locale - Language templates are written in and the fallback for users
+ *       without a locale, e.g. en or de-AT (optional)
+ * @body {boolean} click_tracking - Rewrite signature links to tracked /r/:token redirects (optional)
+ * @body {string} open_tracking - Count opens through the logo (logo), a 1x1 pixel (pixel)
+ *       or not at all (off) (optional)
+ * @body {object|null} utm_params - utm_source, utm_medium, utm_campaign, utm_term and
+ *       utm_content appended to signature links; null clears them (optional)
+ */
+router.put(
+  "/",
+  authenticateToken,
+  validateTenantAccess,
+  requireAdmin,
+  validate({ body: tenantSchemas.update }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { name, locale, click_tracking, open_tracking, utm_params } = req.body;
+    const utm = utm_params === undefined ? undefined : readUtmParams(utm_params);
+
+    const tenant = await prisma.tenant.update({
+      where: {
+        id: req.tenant!.id
+      },
+      data: {
+        ...(name !== undefined ? { name } : {}),
+        ...(locale !== undefined ? { locale } : {}),
+        ...(click_tracking !== undefined ? { click_tracking } : {}),
+        ...(open_tracking !== undefined ? { open_tracking } : {}),
+        ...(utm !== undefined
+          ? { utm_params: Object.keys(utm).length > 0 ? utm : Prisma.DbNull }
+          : {})
+      },
+      select: tenantSettingsSelect
+    });
+
+    // Log activity
+    await prisma.processingLog.create({
+      data: {
+        tenant_id: req.tenant!.id,
+        user_id: req.user!.userId,
+        email_id: `tenant_updated_${tenant.id}`,
+        status: 'success'
+      }
+    });
+
+    successResponse(res, tenant, "Tenant settings updated successfully");
+  })
+);
+
+/**
+ * @route GET /api/tenant/brand-kit
+ * @desc Get the tenant's brand kit; empty when none has been set up
+ * @access Private
+ */
+router.get(
+  "/brand-kit",
+  authenticateToken,
+  validateTenantAccess,
+  asyncHandler(async (req: Request, res: Response) => {
+    const kit = await BrandKitService.forTenant(req.tenant!.id);
+
+    successResponse(res, kit, "Brand kit retrieved successfully");
+  })
+);
+
+/**
+ * @route PUT /api/tenant/brand-kit
+ * @desc Replace the tenant's brand kit
+ * @access Private (Admin only)
+ * @body {object[]} colors - Approved colors as { name, value }; the first two are
+ *       the primary and secondary color
+ * @body {object[]} fonts - Approved fonts as { name, stack }
+ * @body {string} primary_logo_url - Primary logo (optional)
+ * @body {string} secondary_logo_url - Secondary logo, e.g. for dark backgrounds (optional)
+ * @body {string} social_icon_style - text, color or monochrome (optional, default: text)
+ * @body {string} enforcement - Flag off-brand styles in the editor (warn) or allow
+ *       only kit values (restrict) (optional, default: warn)
+ */
+router.put(
+  "/brand-kit",
+  authenticateToken,
+  validateTenantAccess,
+  requireAdmin,
+  validate({ body: brandKitSchemas.update }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const {
+      colors,
+      fonts,
+      primary_logo_url,
+      secondary_logo_url,
+      social_icon_style = 'text',
+      enforcement = 'warn'
+    } = req.body;
+
+    const data = {
+      colors,
+      fonts,
+      primary_logo_url: primary_logo_url || null,
+      secondary_logo_url: secondary_logo_url || null,
+      social_icon_style,
+      enforcement
+    };
+
+    const kit = await prisma.brandKit.upsert({
+      where: { tenant_id: req.tenant!.id },
+      update: data,
+      create: { tenant_id: req.tenant!.id, ...data }
+    });
+
+    // Log activity
+    await prisma.processingLog.create({
+      data: {
+        tenant_id: req.tenant!.id,
+        user_id: req.user!.userId,
+        email_id: `brand_kit_updated_${kit.id}`,
+        status: 'success'
+      }
+    });
+
+    successResponse(res, readBrandKit(kit), "Brand kit updated successfully");
+  })
+);
+
+export default router;
@@ -0,0 +1,192 @@
+import { Router, Request, Response } from "express";
+import { Prisma } from "@prisma/client";
+import { prisma } from "../prisma";
+import { authenticateToken, validateTenantAccess, requireAdmin } from "../middleware/auth";
+import { validate, trackingSchemas } from "../middleware/validation";
+import { asyncHandler, successResponse } from "../middleware/error";
+import { USER_AGENT_CLASSES } from "../click-tracking";
+
+const router = Router();
+
+/**
+ * @route GET /api/tracking/clicks
+ * @desc Summarize clicks on tracked signature links. Bot clicks are counted
+ *       separately and left out of the per-link totals.
+ * @access Private (Admin only)
+ * @query {string} from - Only clicks at or after this time (optional)
+ * @query {string} to - Only clicks before this time (optional)
+ * @query {number} template_id - Only links in this template (optional)
+ * @query {number} user_id - Only links in this sender's signature (optional)
+ */
+router.get(
+  "/clicks",
+  authenticateToken,
+  validateTenantAccess,
+  requireAdmin,
+  validate({ query: trackingSchemas.report }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { from, to, template_id, user_id } = req.query as Record<string, string | undefined>;
+
+    const where: Prisma.LinkClickWhereInput = {
+      link: {
+        tenant_id: req.tenant!.id,
+        ...(template_id ? { template_id: Number(template_id) } : {}),
+        ...(user_id ? { user_id: Number(user_id) } : {})
+      },
+      ...(from || to
+        ? {
+            clicked_at: {
+              ...(from ? { gte: new Date(from) } : {}),
+              ...(to ? { lt: new Date(to) } : {})
+            }
+          }
+        : {})
+    };
+
+    const [byDevice, byLink] = await Promise.all([
+      prisma.linkClick.groupBy({
+        by: ['user_agent_class'],
+        where,
+        _count: { _all: true }
+      }),
+      prisma.linkClick.groupBy({
+        by: ['link_id'],
+        where: { ...where, user_agent_class: { not: 'bot' } },
+        _count: { _all: true },
+        orderBy: { _count: { link_id: 'desc' } },
+        take: 50
+      })
+    ]);
+
+    const links = await prisma.trackedLink.findMany({
+      where: {
+        id: { in: byLink.map((group) => group.link_id) }
+      },
+      include: {
+        template: { select: { id: true, name: true } },
+        user: { select: { id: true, first_name: true, last_name: true, email: true } },
+        campaign: { select: { id: true, name: true } }
+      }
+    });
+    const linksById = new Map(links.map((link) => [link.id, link]));
+
+    const devices = Object.fromEntries(USER_AGENT_CLASSES.map((name) => [
+      name,
+      byDevice.find((group) => group.user_agent_class === name)?._count._all ?? 0
+    ]));
+
+    successResponse(
+      res,
+      {
+        clicks: USER_AGENT_CLASSES
+          .filter((name) => name !== 'bot')
+          .reduce((total, name) => total + devices[name], 0),
+        bot_clicks: devices.bot,
+        by_device: devices,
+        links: byLink.flatMap((group) => {
+          const link = linksById.get(group.link_id);
+          return link
+            ? [{
+                id: link.id,
+                url: link.url,
+                template: link.template,
+                user: {
+                  id: link.user.id,
+                  full_name: `${link.user.first_name} ${link.user.last_name}`,
+                  email: link.user.email
+                },
+                campaign: link.campaign,
+                clicks: group._count._all
+              }]
+            : [];
+        })
+      },
+      "Click summary retrieved successfully"
+    );
+  })
+);
+
+// Impression reports cover the last 30 days unless a window is given
+const DEFAULT_IMPRESSION_DAYS = 30;
+
+/**
+ * @route GET /api/tracking/impressions
+ * @desc Count deduplicated signature opens per template and per day
+ * @access Private (Admin only)
+ * @query {string} from - Only impressions on or after this day (default: 30 days ago)
+ * @query {string} to - Only impressions before this day (optional)
+ * @query {number} template_id - Only this template (optional)
+ * @query {number} user_id - Only this sender (optional)
+ */
+router.get(
+  "/impressions",
+  authenticateToken,
+  validateTenantAccess,
+  requireAdmin,
+  validate({ query: trackingSchemas.report }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { from, to, template_id, user_id } = req.query as Record<string, string | undefined>;
+    const since = from
+      ? new Date(from)
+      : new Date(Date.now() - DEFAULT_IMPRESSION_DAYS * 24 * 60 * 60 * 1000);
+
+    const where: Prisma.SignatureImpressionWhereInput = {
+      tenant_id: req.tenant!.id,
+      day: {
+        gte: since,
+        ...(to ? { lt: new Date(to) } : {})
+      },
+      ...(template_id ? { template_id: Number(template_id) } : {}),
+      ...(user_id ? { user_id: Number(user_id) } : {})
+    };
+
+    const [bySender, byDay] = await Promise.all([
+      prisma.signatureImpression.groupBy({
+        by: ['template_id', 'user_id'],
+        where,
+        _count: { _all: true }
+      }),
+      prisma.signatureImpression.groupBy({
+        by: ['day'],
+        where,
+        _count: { _all: true },
+        orderBy: { day: 'asc' }
+      })
+    ]);
+
+    const totals = new Map<number, { impressions: number; senders: number }>();
+    for (const group of bySender) {
+      const entry = totals.get(group.template_id) ?? { impressions: 0, senders: 0 };
+      entry.impressions += group._count._all;
+      entry.senders += 1;
+      totals.set(group.template_id, entry);
+    }
+
+    const templates = await prisma.signatureTemplate.findMany({
+      where: {
+        id: { in: Array.from(totals.keys()) },
+        tenant_id: req.tenant!.id
+      },
+      select: { id: true, name: true }
+    });
+
+    successResponse(
+      res,
+      {
+        from: since,
+        to: to ? new Date(to) : null,
+        impressions: bySender.reduce((total, group) => total + group._count._all, 0),
+        templates: templates
+          .map((template) => ({ id: template.id, name: template.name, ...totals.get(template.id)! }))
+          .sort((a, b) => b.impressions - a.impressions),
+        days: byDay.map((group) => ({
+          day: group.day.toISOString().slice(0, 10),
+          impressions: group._count._all
+        }))
+      },
+      "Impression summary retrieved successfully"
+    );
+  })
+);
+
+export default router;
@@ -1,8 +1,11 @@
 import { Router, Request, Response } from "express";
 import { prisma } from "../prisma";
 import { AuthService } from "../auth";
+import { SignatureService } from "../signature";
+import { DefaultTemplateService } from "../template-defaults";
+import { AssignmentRuleService } from "../assignment-rules";
 import { authenticateToken, validateTenantAccess, requireAdmin } from "../middleware/auth";
-import { validate, userSchemas, commonSchemas } from "../middleware/validation";
+import { validate, userSchemas, commonSchemas, localeSchema } from "../middleware/validation";
 import { asyncHandler, successResponse, paginatedResponse, ApiError, HTTP_STATUS } from "../middleware/error";
 import Joi from "joi";
 
@@ -64,6 +67,12 @@ router.get(
         role: true,
         title: true,
         department: true,
+        phone: true,
+        mobile: true,
+        social_links: true,
+        locale: true,
+        photo_url: true,
+        country: true,
         created_at: true,
         updated_at: true,
         template_assignments: {
@@ -100,6 +109,12 @@ router.get(
       role: user.role,
       title: user.title,
       department: user.department,
+      phone: user.phone,
+      mobile: user.mobile,
+      social_links: user.social_links,
+      locale: user.locale,
+      photo_url: user.photo_url,
+      country: user.country,
       created_at: user.created_at,
       updated_at: user.updated_at,
       stats: {
@@ -152,6 +167,12 @@ router.get(
         role: true,
         title: true,
         department: true,
+        phone: true,
+        mobile: true,
+        social_links: true,
+        locale: true,
+        photo_url: true,
+        country: true,
         token_version: true,
         created_at: true,
         updated_at: true,
@@ -203,6 +224,63 @@ router.get(
   })
 );
 
+const signatureQuerySchema = Joi.object({
+  locale: localeSchema.optional()
+});
+
+/**
+ * @route GET /api/users/me/signature
+ * @desc Render the current user's signature (HTML and plain text) with their merge fields filled in
+ * @access Private
+ * @query {string} locale - Preview in this locale before the user's and tenant's (optional)
+ */
+router.get(
+  "/me/signature",
+  authenticateToken,
+  validateTenantAccess,
+  validate({ query: signatureQuerySchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const signature = await SignatureService.renderForUser(req.user!.userId, req.tenant!.id, {
+      locale: req.query.locale as string | undefined
+    });
+
+    successResponse(res, signature, "Signature rendered successfully");
+  })
+);
+
+/**
+ * @route GET /api/users/:id/signature
+ * @desc Render a user's signature (HTML and plain text) with their merge fields filled in
+ * @access Private (Admin or self)
+ * @param {number} id - User ID
+ * @query {string} locale - Preview in this locale before the user's and tenant's (optional)
+ */
+router.get(
+  "/:id/signature",
+  authenticateToken,
+  validateTenantAccess,
+  validate({ params: commonSchemas.id, query: signatureQuerySchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const isAdmin = req.user!.role === 'admin';
+    const isSelf = req.user!.userId === Number(id);
+
+    if (!isAdmin && !isSelf) {
+      throw new ApiError(
+        HTTP_STATUS.FORBIDDEN,
+        "You can only view your own signature",
+        "INSUFFICIENT_PERMISSIONS"
+      );
+    }
+
+    const signature = await SignatureService.renderForUser(Number(id), req.tenant!.id, {
+      locale: req.query.locale as string | undefined
+    });
+
+    successResponse(res, signature, "Signature rendered successfully");
+  })
+);
+
 /**
  * @route POST /api/users
  * @desc Create a new user (invite user to tenant)
@@ -213,6 +291,12 @@ router.get(
  * @body {string} role - User role (admin, user)
  * @body {string} title - User title (optional)
  * @body {string} department - User department (optional)
+ * @body {string} phone - Office phone number (optional)
+ * @body {string} mobile - Mobile phone number (optional)
+ * @body {object[]} socialLinks - Social profiles as { network, url } (optional)
+ * @body {string} locale - Preferred signature language, e.g. de or de-AT (optional)
+ * @body {string} photoUrl - Headshot shown by templates that use {{photo_url}} (optional)
+ * @body {string} country - Office country as an ISO 3166-1 alpha-2 code, e.g. DE (optional)
  * @body {string} password - Temporary password (optional)
  */
 router.post(
@@ -222,7 +306,7 @@ router.post(
   requireAdmin,
   validate({ body: userSchemas.create }),
   asyncHandler(async (req: Request, res: Response) => {
-    const { email, firstName, lastName, role = 'user', title, department, password } = req.body;
+    const { email, firstName, lastName, role = 'user', title, department, phone, mobile, socialLinks, locale, photoUrl, country, password } = req.body;
 
     // Check if user already exists
     const existingUser = await prisma.user.findUnique({
@@ -248,24 +332,19 @@ router.post(
       first_name: firstName,
       last_name: lastName,
       title: title || null,
-      department: department || null
+      department: department || null,
+      phone: phone || null,
+      mobile: mobile || null,
+      social_links: socialLinks,
+      locale: locale || null,
+      photo_url: photoUrl || null,
+      country: country ? country.toUpperCase() : null
     });
 
-    // If there's a default template, auto-assign it
-    const defaultTemplate = await prisma.signatureTemplate.findFirst({
-      where: {
-        tenant_id: req.tenant!.id,
-        is_default: true
-      }
-    });
-
-    if (defaultTemplate) {
-      await prisma.templateAssignment.create({
-        data: {
-          user_id: user.id,
-          template_id: defaultTemplate.id
-        }
-      });
+    // New users get the template a rule picks for them, or else the tenant's default
+    const { assigned } = await AssignmentRuleService.syncUsers(req.tenant!.id, [user.id]);
+    if (assigned.length === 0) {
+      await DefaultTemplateService.assignToUser(user.id, req.tenant!.id);
     }
 
     // Log activity
@@ -303,6 +382,12 @@ router.post(
  * @body {string} role - User role (optional, admin only)
  * @body {string} title - User title (optional)
  * @body {string} department - User department (optional)
+ * @body {string|null} phone - Office phone number, or empty to clear it (optional)
+ * @body {string|null} mobile - Mobile phone number, or empty to clear it (optional)
+ * @body {object[]} socialLinks - Replaces the user's social profiles (optional)
+ * @body {string|null} locale - Preferred signature language, or null to use the tenant's (optional)
+ * @body {string|null} photoUrl - Headshot, or empty to remove it (optional)
+ * @body {string|null} country - Office country code, or empty to clear it (optional)
  * @body {string} password - New password (optional)
  */
 router.put(
@@ -358,7 +443,13 @@ router.put(
       first_name: updateData.firstName,
       last_name: updateData.lastName,
       title: updateData.title,
-      department: updateData.department
+      department: updateData.department,
+      phone: updateData.phone === undefined ? undefined : updateData.phone || null,
+      mobile: updateData.mobile === undefined ? undefined : updateData.mobile || null,
+      social_links: updateData.socialLinks,
+      locale: updateData.locale,
+      photo_url: updateData.photoUrl === undefined ? undefined : updateData.photoUrl || null,
+      country: updateData.country === undefined ? undefined : updateData.country?.toUpperCase() || null
     };
 
     // Only include role if user is admin
@@ -393,11 +484,20 @@ router.put(
         role: true,
         title: true,
         department: true,
+        phone: true,
+        mobile: true,
+        social_links: true,
+        locale: true,
+        photo_url: true,
+        country: true,
         created_at: true,
         updated_at: true
       }
     });
 
+    // A changed department or title can move the user to another rule's template
+    await AssignmentRuleService.syncUsers(req.tenant!.id, [updatedUser.id]);
+
     // Log activity
     await prisma.processingLog.create({
       data: {
@@ -589,6 +689,12 @@ router.get(
         role: true,
         title: true,
         department: true,
+        phone: true,
+        mobile: true,
+        social_links: true,
+        locale: true,
+        photo_url: true,
+        country: true,
         created_at: true,
         template_assignments: {
           include: {
@@ -0,0 +1,529 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import { ApiError, HTTP_STATUS } from "./middleware/error";
+import { sanitizeEmailHtml } from "@shared/html-sanitizer";
+import { htmlToPlainText } from "@shared/plain-text";
+import { renderSignatureDocument } from "@shared/signature-compiler";
+import {
+  DEFAULT_SIGNATURE_STYLES,
+  migrateSignatureDocument,
+  SIGNATURE_DOCUMENT_VERSION,
+  SOCIAL_NETWORK_LABELS,
+  type ImageBlockFields,
+  type SignatureDocument,
+  type SocialLink
+} from "@shared/signature-document";
+import { localeFallbackChain, localizeDocument, readTemplateTranslations } from "@shared/template-locales";
+import { applyTemplateOverrides } from "@shared/template-inheritance";
+import { campaignBannerBlock } from "@shared/campaigns";
+import { readUtmParams, type OpenTrackingMode } from "@shared/link-tracking";
+import { brandMergeFields, readBrandKit, type BrandKit } from "@shared/brand-kit";
+import { compareAssignments } from "@shared/assignment-rules";
+import {
+  appendDisclaimerHtml,
+  renderDisclaimerHtml,
+  renderDisclaimerText,
+  type DisclaimerBlock
+} from "@shared/disclaimers";
+import {
+  compileTemplate,
+  renderCompiledTemplate,
+  TEMPLATE_FILTERS,
+  unfilledMergeFields,
+  type MergeContext,
+  type TemplateVariables
+} from "@shared/template-language";
+import { TemplateInheritanceService, type InheritanceSource } from "./template-inheritance";
+import { CampaignService } from "./campaigns";
+import { ClickTrackingService, absolutePublicUrl } from "./click-tracking";
+import { OpenTrackingService } from "./open-tracking";
+import { DisclaimerService } from "./disclaimers";
+
+/**
+ * Merge fields templates may reference, e.g. {{first_name}}
+ */
+export const MERGE_FIELDS = [
+  'first_name',
+  'last_name',
+  'full_name',
+  'title',
+  'department',
+  'email',
+  'phone',
+  'mobile',
+  'photo_url',
+  'country',
+  'tenant_name',
+  'tenant_domain',
+  'brand_primary_color',
+  'brand_secondary_color',
+  'brand_font',
+  'brand_logo_url',
+  'brand_secondary_logo_url',
+  'brand_social_icon_style'
+] as const;
+
+/**
+ * List merge fields for {{#each}}, with the fields of each item
+ */
+export const MERGE_LISTS = {
+  social_links: ['network', 'label', 'url'],
+  brand_colors: ['name', 'value'],
+  brand_fonts: ['name', 'stack']
+} as const;
+
+const MERGE_VARIABLES: TemplateVariables = {
+  fields: MERGE_FIELDS,
+  lists: MERGE_LISTS
+};
+
+/**
+ * Escape a value so it can be safely embedded in HTML text or attributes
+ */
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Build the merge context for a user, their tenant and its brand kit
+ */
+export function buildMergeContext(user: {
+  first_name: string;
+  last_name: string;
+  email: string;
+  title: string | null;
+  department: string | null;
+  phone: string | null;
+  mobile: string | null;
+  photo_url: string | null;
+  country: string | null;
+  social_links: Prisma.JsonValue;
+}, tenant: { name: string; domain: string }, brandKit: BrandKit): MergeContext {
+  const socialLinks = Array.isArray(user.social_links)
+    ? (user.social_links as unknown as SocialLink[])
+    : [];
+
+  return {
+    first_name: user.first_name,
+    last_name: user.last_name,
+    full_name: `${user.first_name} ${user.last_name}`,
+    title: user.title,
+    department: user.department,
+    email: user.email,
+    phone: user.phone,
+    mobile: user.mobile,
+    photo_url: user.photo_url,
+    country: user.country,
+    social_links: socialLinks.map((link) => ({
+      network: link.network,
+      label: SOCIAL_NETWORK_LABELS[link.network] ?? link.network,
+      url: link.url
+    })),
+    tenant_name: tenant.name,
+    tenant_domain: tenant.domain,
+    ...brandMergeFields(brandKit)
+  };
+}
+
+/**
+ * Compile-time problems in a template's HTML and plain text, labelled with
+ * the variant they were found in
+ */
+export function templateSyntaxErrors(html: string, text?: string | null) {
+  const variants: Array<['html' | 'text', string | null | undefined]> = [['html', html], ['text', text]];
+  return variants.flatMap(([variant, source]) =>
+    source ? compileTemplate(source, MERGE_VARIABLES).errors.map((error) => ({ variant, ...error })) : []
+  );
+}
+
+/**
+ * Reject a template whose HTML or plain text does not compile
+ */
+export function assertValidTemplateSyntax(html: string, text?: string | null) {
+  const errors = templateSyntaxErrors(html, text);
+  if (errors.length > 0) {
+    throw new ApiError(
+      HTTP_STATUS.UNPROCESSABLE_ENTITY,
+      `Template has ${errors.length} syntax error${errors.length === 1 ? '' : 's'}: ${errors[0].message}`,
+      "TEMPLATE_SYNTAX_ERROR",
+      { errors, fields: MERGE_FIELDS, lists: MERGE_LISTS, filters: TEMPLATE_FILTERS }
+    );
+  }
+}
+
+// Compile a stored template and render it with the given encoding
+function substitute(source: string, context: MergeContext, encode: (value: string) => string): string {
+  const template = compileTemplate(source, MERGE_VARIABLES);
+  if (template.errors.length > 0) {
+    throw new ApiError(
+      HTTP_STATUS.UNPROCESSABLE_ENTITY,
+      `Template has syntax errors: ${template.errors.map((error) => error.message).join('; ')}`,
+      "TEMPLATE_SYNTAX_ERROR",
+      { errors: template.errors }
+    );
+  }
+
+  return renderCompiledTemplate(template, context, encode);
+}
+
+/**
+ * Render merge fields, blocks and filters in template HTML, escaping every
+ * value. Missing values render as an empty string. The result is sanitized
+ * again so user data cannot smuggle unsafe URLs into links.
+ */
+export function renderTemplate(html: string, context: MergeContext): string {
+  return sanitizeEmailHtml(substitute(html, context, escapeHtml)).html;
+}
+
+/**
+ * Render merge fields in a plain-text signature; values are inserted as-is
+ */
+export function renderTextTemplate(text: string, context: MergeContext): string {
+  return substitute(text, context, (value) => value);
+}
+
+/**
+ * Only published, non-archived templates are served to users
+ */
+const SERVABLE_TEMPLATE = {
+  status: { not: 'archived' },
+  published_version_id: { not: null }
+};
+
+// Stored block document, or null for hand-written HTML
+function storedDocument(content: Prisma.JsonValue): SignatureDocument | null {
+  if (!content) {
+    return null;
+  }
+  try {
+    return migrateSignatureDocument(content);
+  } catch {
+    return null;
+  }
+}
+
+// Email-safe HTML for a banner on its own, appended to hand-written templates
+function standaloneBanner(banner: ImageBlockFields): string {
+  return renderSignatureDocument({
+    version: SIGNATURE_DOCUMENT_VERSION,
+    styles: DEFAULT_SIGNATURE_STYLES,
+    blocks: [{ type: 'banner', ...banner }]
+  });
+}
+
+// Copy of a template a signature is generated from: a published version,
+// or the working copy when previewing
+interface TemplateCopy {
+  content: Prisma.JsonValue;
+  html_content: string;
+  text_content: string;
+  text_override: boolean;
+  translations: Prisma.JsonValue;
+  version: number | null;
+}
+
+// HTML and text a copy of a template renders to before personalization.
+// Strings are translated into the first locale of the chain the template
+// supports, and a live campaign targeting the template and department
+// replaces the banner.
+async function prepareTemplate(
+  template: { id: number; name: string; parent_id: number | null },
+  copy: TemplateCopy,
+  source: InheritanceSource,
+  tenantId: number,
+  options: { locales?: string[]; department?: string | null }
+) {
+  // Children pick up their parents' latest copies from the same source on every render
+  const inherited = template.parent_id
+    ? await TemplateInheritanceService.resolveEffective(template.id, tenantId, source)
+    : null;
+
+  let html_content = inherited?.html_content ?? copy.html_content;
+  let locale: string | null = null;
+
+  // Translations and campaign banners change the block document, which is rendered again
+  const stored = inherited?.document ?? storedDocument(copy.content);
+  let document = stored;
+  const translations = readTemplateTranslations(copy.translations);
+  if (document && Object.keys(translations).length > 0) {
+    const localized = localizeDocument(document, translations, options.locales ?? []);
+    if (localized.locale) {
+      document = localized.document;
+      locale = localized.locale;
+    }
+  }
+
+  const campaign = await CampaignService.findActive(tenantId, {
+    template_id: template.id,
+    department: options.department ?? null
+  });
+  // Banners are uploaded assets, so recipients' mail clients need their absolute URL
+  const banner = campaign && campaignBannerBlock({ ...campaign, image_url: absolutePublicUrl(campaign.image_url) });
+  if (banner && document) {
+    document = applyTemplateOverrides(document, { banner });
+  }
+
+  if (document && document !== stored) {
+    html_content = sanitizeEmailHtml(renderSignatureDocument(document)).html;
+  } else if (banner) {
+    html_content += sanitizeEmailHtml(standaloneBanner(banner)).html;
+  }
+
+  return {
+    id: template.id,
+    name: template.name,
+    version: copy.version,
+    locale,
+    campaign: campaign
+      ? { id: campaign.id, name: campaign.name, link_url: campaign.link_url, utm_params: campaign.utm_params }
+      : null,
+    // Logo source, for open tracking through the logo
+    logo_url: document?.blocks.find((block) => block.type === 'logo')?.src ?? null,
+    html_content,
+    // Versions saved before plain-text variants existed have no text yet
+    text_content: copy.text_override && copy.text_content
+      ? copy.text_content
+      : htmlToPlainText(html_content)
+  };
+}
+
+// Append a sender's compliance disclaimers to their rendered signature. The
+// blocks may use merge fields, which are filled in like the template's.
+function withDisclaimers(
+  signature: { html: string; text: string },
+  blocks: DisclaimerBlock[],
+  context: MergeContext
+) {
+  if (blocks.length === 0) {
+    return signature;
+  }
+  return {
+    html: appendDisclaimerHtml(signature.html, renderTemplate(renderDisclaimerHtml(blocks, escapeHtml), context)),
+    text: `${signature.text}\n\n${renderTextTemplate(renderDisclaimerText(blocks), context)}`
+  };
+}
+
+export class SignatureService {
+  // Pick the published template version a user's signature is generated from:
+  // their manual assignments first, then the one a rule gave them, then the
+  // tenant default, most recent first within each.
+  static async resolveTemplateForUser(
+    userId: number,
+    tenantId: number,
+    options: { locales?: string[]; department?: string | null } = {}
+  ) {
+    const assignments = await prisma.templateAssignment.findMany({
+      where: {
+        user_id: userId,
+        template: {
+          tenant_id: tenantId,
+          ...SERVABLE_TEMPLATE
+        }
+      },
+      include: {
+        template: {
+          include: { published_version: true }
+        }
+      },
+      orderBy: { assigned_at: 'desc' }
+    });
+    const assignment = assignments.sort(compareAssignments)[0];
+
+    const template = assignment?.template ?? await prisma.signatureTemplate.findFirst({
+      where: {
+        tenant_id: tenantId,
+        is_default: true,
+        ...SERVABLE_TEMPLATE
+      },
+      include: { published_version: true }
+    });
+
+    if (!template || !template.published_version) {
+      return null;
+    }
+
+    return prepareTemplate(template, template.published_version, 'published', tenantId, options);
+  }
+
+  // Render the personalized signature for a user within a tenant. A locale
+  // given here is tried before the user's and the tenant's.
+  static async renderForUser(userId: number, tenantId: number, options: { locale?: string } = {}) {
+    const user = await prisma.user.findFirst({
+      where: {
+        id: userId,
+        tenant_id: tenantId
+      },
+      include: { tenant: { include: { brand_kit: true } } }
+    });
+
+    if (!user) {
+      throw new ApiError(
+        HTTP_STATUS.NOT_FOUND,
+        "User not found",
+        "USER_NOT_FOUND"
+      );
+    }
+
+    const locales = localeFallbackChain(options.locale, user.locale, user.tenant.locale);
+    const template = await this.resolveTemplateForUser(user.id, tenantId, {
+      locales,
+      department: user.department
+    });
+    if (!template) {
+      throw new ApiError(
+        HTTP_STATUS.NOT_FOUND,
+        "No published signature template is assigned to this user",
+        "SIGNATURE_TEMPLATE_NOT_FOUND"
+      );
+    }
+
+    const context = buildMergeContext(user, user.tenant, readBrandKit(user.tenant.brand_kit));
+    // Disclaimers go below whatever the template renders, so templates cannot drop them
+    const signature = withDisclaimers(
+      {
+        html: renderTemplate(template.html_content, context),
+        text: renderTextTemplate(template.text_content, context)
+      },
+      await DisclaimerService.blocksForSender(tenantId, user),
+      context
+    );
+    let html = signature.html;
+    const text = signature.text;
+
+    // Web links get UTM parameters and, with click tracking on, redirect tokens.
+    // The plain-text variant keeps readable URLs.
+    const utm = readUtmParams(user.tenant.utm_params);
+    const campaignUtm = readUtmParams(template.campaign?.utm_params);
+    if (user.tenant.click_tracking || Object.keys(utm).length > 0 || Object.keys(campaignUtm).length > 0) {
+      html = await ClickTrackingService.rewriteLinks(html, {
+        tenantId,
+        templateId: template.id,
+        userId: user.id,
+        track: user.tenant.click_tracking,
+        utm,
+        campaign: template.campaign && { id: template.campaign.id, link_url: template.campaign.link_url, utm: campaignUtm }
+      });
+    }
+
+    html = await OpenTrackingService.addBeacon(html, {
+      tenantId,
+      templateId: template.id,
+      userId: user.id,
+      mode: user.tenant.open_tracking as OpenTrackingMode,
+      logoUrl: template.logo_url
+    });
+
+    return {
+      user_id: user.id,
+      template: {
+        id: template.id,
+        name: template.name,
+        version: template.version
+      },
+      // Locale whose translations were used; null when the template's own text was
+      locale: template.locale,
+      // Campaign whose banner was shown, if any
+      campaign: template.campaign && { id: template.campaign.id, name: template.campaign.name },
+      html,
+      text
+    };
+  }
+
+  // Render any template of the tenant as a user would receive it, listing the
+  // merge fields their profile leaves empty. Drafts are previewed from the
+  // working copy; links are left untracked so previews record nothing.
+  static async previewForUser(
+    templateId: number,
+    userId: number,
+    tenantId: number,
+    options: { locale?: string; source?: InheritanceSource } = {}
+  ) {
+    const source = options.source ?? 'draft';
+    const [user, template] = await Promise.all([
+      prisma.user.findFirst({
+        where: {
+          id: userId,
+          tenant_id: tenantId
+        },
+        include: { tenant: { include: { brand_kit: true } } }
+      }),
+      prisma.signatureTemplate.findFirst({
+        where: {
+          id: templateId,
+          tenant_id: tenantId
+        },
+        include: { published_version: true }
+      })
+    ]);
+
+    if (!user) {
+      throw new ApiError(
+        HTTP_STATUS.NOT_FOUND,
+        "User not found",
+        "USER_NOT_FOUND"
+      );
+    }
+    if (!template) {
+      throw new ApiError(
+        HTTP_STATUS.NOT_FOUND,
+        "Template not found",
+        "TEMPLATE_NOT_FOUND"
+      );
+    }
+
+    const copy = source === 'published' ? template.published_version : { ...template, version: null };
+    if (!copy) {
+      throw new ApiError(
+        HTTP_STATUS.UNPROCESSABLE_ENTITY,
+        "Template has no published version",
+        "TEMPLATE_NOT_PUBLISHED"
+      );
+    }
+
+    const prepared = await prepareTemplate(template, copy, source, tenantId, {
+      locales: localeFallbackChain(options.locale, user.locale, user.tenant.locale),
+      department: user.department
+    });
+
+    const context = buildMergeContext(user, user.tenant, readBrandKit(user.tenant.brand_kit));
+    const missing = new Set([prepared.html_content, prepared.text_content].flatMap((variant) =>
+      unfilledMergeFields(compileTemplate(variant, MERGE_VARIABLES), context)
+    ));
+    const signature = withDisclaimers(
+      {
+        html: renderTemplate(prepared.html_content, context),
+        text: renderTextTemplate(prepared.text_content, context)
+      },
+      await DisclaimerService.blocksForSender(tenantId, user),
+      context
+    );
+
+    return {
+      user: {
+        id: user.id,
+        full_name: `${user.first_name} ${user.last_name}`,
+        email: user.email,
+        title: user.title,
+        department: user.department,
+        photo_url: user.photo_url
+      },
+      template: {
+        id: template.id,
+        name: template.name,
+        version: prepared.version,
+        source
+      },
+      locale: prepared.locale,
+      campaign: prepared.campaign && { id: prepared.campaign.id, name: prepared.campaign.name },
+      html: signature.html,
+      text: signature.text,
+      // Merge fields that render empty for this user, e.g. a missing phone number
+      missing_fields: Array.from(missing)
+    };
+  }
+}
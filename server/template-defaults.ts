@@ -0,0 +1,104 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+
+type TransactionClient = Prisma.TransactionClient;
+
+export class DefaultTemplateService {
+  // The tenant's default template, if it has one
+  static async find(tenantId: number, client: TransactionClient = prisma) {
+    return client.signatureTemplate.findFirst({
+      where: {
+        tenant_id: tenantId,
+        is_default: true
+      },
+      select: { id: true, name: true }
+    });
+  }
+
+  /**
+   * Make a template the tenant's only default. The tenant row is locked
+   * first, so concurrent swaps queue up and the last one wins instead of
+   * leaving two defaults behind. Must run inside a transaction.
+   */
+  static async makeDefault(templateId: number, tenantId: number, tx: TransactionClient) {
+    await tx.$queryRaw`SELECT id FROM tenants WHERE id = ${tenantId} FOR UPDATE`;
+
+    await tx.signatureTemplate.updateMany({
+      where: {
+        tenant_id: tenantId,
+        is_default: true,
+        id: { not: templateId }
+      },
+      data: {
+        is_default: false
+      }
+    });
+
+    await tx.signatureTemplate.updateMany({
+      where: {
+        id: templateId,
+        tenant_id: tenantId
+      },
+      data: {
+        is_default: true
+      }
+    });
+  }
+
+  // Assign the tenant's default template to a user; null when there is none
+  static async assignToUser(userId: number, tenantId: number, client: TransactionClient = prisma) {
+    const template = await this.find(tenantId, client);
+    if (!template) {
+      return null;
+    }
+
+    return client.templateAssignment.upsert({
+      where: {
+        user_id_template_id: {
+          user_id: userId,
+          template_id: template.id
+        }
+      },
+      create: {
+        user_id: userId,
+        template_id: template.id,
+        source: 'default'
+      },
+      update: {}
+    });
+  }
+
+  /**
+   * Before a template is deleted, assign the default to users for whom it is
+   * the only assigned template, so they keep a signature. Returns the IDs of
+   * the users moved over.
+   */
+  static async reassignSoleUsers(templateId: number, tenantId: number, tx: TransactionClient): Promise<number[]> {
+    const template = await this.find(tenantId, tx);
+    if (!template || template.id === templateId) {
+      return [];
+    }
+
+    const users = await tx.user.findMany({
+      where: {
+        tenant_id: tenantId,
+        template_assignments: {
+          some: { template_id: templateId },
+          every: { template_id: templateId }
+        }
+      },
+      select: { id: true }
+    });
+
+    await tx.templateAssignment.createMany({
+      data: users.map((user) => ({
+        user_id: user.id,
+        template_id: template.id,
+        source: 'default'
+      })),
+      skipDuplicates: true
+    });
+
+    return users.map((user) => user.id);
+  }
+}
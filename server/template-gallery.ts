@@ -0,0 +1,154 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import { ApiError, HTTP_STATUS } from "./middleware/error";
+import { TemplateVersionService } from "./template-versions";
+import { templateTagsInclude } from "./template-tags";
+import { BrandKitService } from "./brand-kit";
+import { assertValidTemplateSyntax, buildMergeContext, renderTemplate } from "./signature";
+import { readBrandKit, snapToBrandKit } from "@shared/brand-kit";
+import { renderSignatureDocument } from "@shared/signature-compiler";
+import { migrateSignatureDocument, type SignatureDocument } from "@shared/signature-document";
+import { sanitizeEmailHtml } from "@shared/html-sanitizer";
+import { htmlToPlainText } from "@shared/plain-text";
+import {
+  GALLERY_CATEGORIES,
+  STARTER_TEMPLATES,
+  type GalleryCategory,
+  type GalleryEntry
+} from "@shared/template-gallery";
+
+// Sender and company thumbnails are rendered for
+const SAMPLE_SENDER = {
+  first_name: 'Alex',
+  last_name: 'Morgan',
+  email: 'alex.morgan@northwind.example',
+  title: 'Head of Partnerships',
+  department: 'Sales',
+  phone: '+1 555 010 2030',
+  mobile: null,
+  photo_url: null,
+  country: null,
+  social_links: null
+};
+const SAMPLE_TENANT = { name: 'Northwind Traders', domain: 'northwind.example' };
+
+export interface GalleryListing extends GalleryEntry {
+  built_in: boolean; // Shipped with the app rather than added by a platform admin
+  is_active: boolean;
+  thumbnail_html: string;
+}
+
+type GalleryRow = Prisma.GalleryTemplateGetPayload<{}>;
+
+// Entry fields of a stored gallery row
+function readRow(row: GalleryRow): GalleryEntry & { is_active: boolean } {
+  return {
+    slug: row.slug,
+    name: row.name,
+    description: row.description,
+    category: (GALLERY_CATEGORIES as readonly string[]).includes(row.category)
+      ? row.category as GalleryCategory
+      : 'professional',
+    formatting: row.formatting,
+    content: migrateSignatureDocument(row.content),
+    sort_order: row.sort_order,
+    is_active: row.is_active
+  };
+}
+
+export class TemplateGalleryService {
+  /**
+   * Built-in starters merged with platform entries, which replace built-ins
+   * with the same slug. Inactive entries, and the built-ins they hide, are
+   * left out unless asked for.
+   */
+  static async list(options: { category?: GalleryCategory; includeInactive?: boolean } = {}): Promise<GalleryListing[]> {
+    const rows = await prisma.galleryTemplate.findMany();
+    const stored = new Map(rows.map((row) => [row.slug, readRow(row)]));
+
+    const entries = [
+      ...STARTER_TEMPLATES.filter((entry) => !stored.has(entry.slug)).map((entry) => ({ ...entry, is_active: true, built_in: true })),
+      ...Array.from(stored.values()).map((entry) => ({ ...entry, built_in: false }))
+    ];
+
+    return entries
+      .filter((entry) => options.includeInactive || entry.is_active)
+      .filter((entry) => !options.category || entry.category === options.category)
+      .sort((a, b) => a.sort_order - b.sort_order || a.name.localeCompare(b.name))
+      .map((entry) => ({ ...entry, thumbnail_html: this.thumbnail(entry.content) }));
+  }
+
+  // An active entry, or GALLERY_TEMPLATE_NOT_FOUND
+  static async find(slug: string): Promise<GalleryEntry> {
+    const row = await prisma.galleryTemplate.findUnique({ where: { slug } });
+    const entry = row ? readRow(row) : STARTER_TEMPLATES.find((starter) => starter.slug === slug);
+
+    if (!entry || (row && !row.is_active)) {
+      throw new ApiError(
+        HTTP_STATUS.NOT_FOUND,
+        "Gallery template not found",
+        "GALLERY_TEMPLATE_NOT_FOUND"
+      );
+    }
+
+    return entry;
+  }
+
+  // An entry rendered for a sample sender, for gallery cards
+  static thumbnail(content: SignatureDocument): string {
+    return renderTemplate(
+      renderSignatureDocument(content),
+      buildMergeContext(SAMPLE_SENDER, SAMPLE_TENANT, readBrandKit(null))
+    );
+  }
+
+  /**
+   * Create a tenant template from a gallery entry. A brand kit that
+   * restricts styling pulls the starter's colors and fonts onto the kit.
+   */
+  static async instantiate(
+    slug: string,
+    tenantId: number,
+    userId: number,
+    options: { name?: string; description?: string } = {}
+  ) {
+    const entry = await this.find(slug);
+    const kit = await BrandKitService.forTenant(tenantId);
+    const document: SignatureDocument = kit.enforcement === 'restrict'
+      ? { ...entry.content, styles: snapToBrandKit(entry.content.styles, kit) }
+      : entry.content;
+
+    const { html: html_content } = sanitizeEmailHtml(renderSignatureDocument(document));
+    assertValidTemplateSyntax(html_content);
+
+    return prisma.$transaction(async (tx) => {
+      const created = await tx.signatureTemplate.create({
+        data: {
+          name: options.name || entry.name,
+          description: options.description || entry.description,
+          content: document as unknown as Prisma.InputJsonValue,
+          html_content,
+          text_content: htmlToPlainText(html_content),
+          text_override: false,
+          tenant_id: tenantId,
+          created_by: userId
+        },
+        include: {
+          creator: {
+            select: {
+              id: true,
+              first_name: true,
+              last_name: true,
+              email: true
+            }
+          },
+          ...templateTagsInclude
+        }
+      });
+
+      await TemplateVersionService.snapshot(created, userId, tx);
+
+      return created;
+    });
+  }
+}
@@ -0,0 +1,254 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import { ApiError, HTTP_STATUS } from "./middleware/error";
+import { renderSignatureDocument } from "@shared/signature-compiler";
+import { migrateSignatureDocument, type SignatureDocument } from "@shared/signature-document";
+import { sanitizeEmailHtml } from "@shared/html-sanitizer";
+import { htmlToPlainText } from "@shared/plain-text";
+import {
+  applyTemplateOverrides,
+  overriddenRegions,
+  readTemplateOverrides,
+  INHERITABLE_REGIONS,
+  MAX_INHERITANCE_DEPTH,
+  type InheritableRegion,
+  type TemplateOverrides
+} from "@shared/template-inheritance";
+
+type TransactionClient = Prisma.TransactionClient;
+
+/**
+ * Which copy of each template in a chain to resolve from: the working
+ * copies being edited, or the versions approved for sending
+ */
+export type InheritanceSource = 'draft' | 'published';
+
+// Template fields needed to resolve a parent chain
+const chainSelect = {
+  id: true,
+  name: true,
+  parent_id: true,
+  content: true,
+  overrides: true,
+  published_version: {
+    select: {
+      version: true,
+      content: true,
+      overrides: true
+    }
+  }
+} satisfies Prisma.SignatureTemplateSelect;
+
+type ChainTemplate = Prisma.SignatureTemplateGetPayload<{ select: typeof chainSelect }>;
+
+/**
+ * A template's parents from the root down, ending with the template itself
+ */
+async function loadChain(templateId: number, tenantId: number, client: TransactionClient) {
+  const chain: ChainTemplate[] = [];
+  let nextId: number | null = templateId;
+
+  while (nextId !== null) {
+    if (chain.some((template) => template.id === nextId)) {
+      throw new ApiError(
+        HTTP_STATUS.CONFLICT,
+        "Template inheritance forms a cycle",
+        "TEMPLATE_INHERITANCE_CYCLE",
+        { chain: [nextId, ...chain.map((template) => template.id)] }
+      );
+    }
+
+    const template: ChainTemplate | null = await client.signatureTemplate.findFirst({
+      where: {
+        id: nextId,
+        tenant_id: tenantId
+      },
+      select: chainSelect
+    });
+
+    if (!template) {
+      throw new ApiError(
+        HTTP_STATUS.NOT_FOUND,
+        "Template not found",
+        "TEMPLATE_NOT_FOUND"
+      );
+    }
+
+    chain.unshift(template);
+    nextId = template.parent_id;
+  }
+
+  return chain;
+}
+
+// Stored document, or null for hand-written HTML
+function readDocument(content: Prisma.JsonValue | undefined): SignatureDocument | null {
+  if (!content) {
+    return null;
+  }
+  try {
+    return migrateSignatureDocument(content);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Apply overrides from the root down. Returns null when the root has no
+ * block document or, for the published source, some template in the chain
+ * has never been published.
+ */
+function composeChain(chain: ChainTemplate[], source: InheritanceSource, leafOverrides?: TemplateOverrides) {
+  const [root, ...descendants] = chain;
+  const copyOf = (template: ChainTemplate) =>
+    source === 'draft' ? template : template.published_version;
+
+  const rootCopy = copyOf(root);
+  let document = readDocument(rootCopy?.content);
+  if (!document) {
+    return null;
+  }
+
+  const regions = Object.fromEntries(
+    INHERITABLE_REGIONS.map((region) => [region, root.id])
+  ) as Record<InheritableRegion, number>;
+
+  for (const template of descendants) {
+    const copy = copyOf(template);
+    if (!copy) {
+      return null;
+    }
+    const overrides = readTemplateOverrides(copy.overrides);
+    document = applyTemplateOverrides(document, overrides);
+    for (const region of overriddenRegions(overrides)) {
+      regions[region] = template.id;
+    }
+  }
+
+  // Unsaved overrides for a template at the end of the chain
+  if (leafOverrides) {
+    document = applyTemplateOverrides(document, leafOverrides);
+  }
+
+  return { document, regions };
+}
+
+export class TemplateInheritanceService {
+  // Look up a parent within the tenant; "default" names the tenant's default template
+  static async findParent(parentId: number | 'default', tenantId: number, client: TransactionClient = prisma) {
+    const parent = await client.signatureTemplate.findFirst({
+      where: {
+        tenant_id: tenantId,
+        ...(parentId === 'default' ? { is_default: true } : { id: parentId })
+      },
+      select: { id: true, name: true }
+    });
+
+    if (!parent) {
+      throw new ApiError(
+        HTTP_STATUS.BAD_REQUEST,
+        parentId === 'default' ? "The tenant has no default template to inherit from" : "Parent template not found",
+        "PARENT_TEMPLATE_NOT_FOUND",
+        { parent_id: parentId }
+      );
+    }
+
+    return parent;
+  }
+
+  // Ensure a template may inherit from a parent: no cycles, a bounded chain
+  // and a block document at the root to apply overrides to
+  static async assertValidParent(
+    templateId: number | null,
+    parentId: number,
+    tenantId: number,
+    client: TransactionClient = prisma
+  ) {
+    if (parentId === templateId) {
+      throw new ApiError(
+        HTTP_STATUS.CONFLICT,
+        "A template cannot inherit from itself",
+        "TEMPLATE_INHERITANCE_CYCLE",
+        { chain: [templateId, parentId] }
+      );
+    }
+
+    const chain = await loadChain(parentId, tenantId, client);
+
+    if (templateId !== null && chain.some((template) => template.id === templateId)) {
+      const ids = chain.map((template) => template.id);
+      throw new ApiError(
+        HTTP_STATUS.CONFLICT,
+        "Template inheritance would form a cycle",
+        "TEMPLATE_INHERITANCE_CYCLE",
+        { chain: [templateId, ...ids.slice(ids.indexOf(templateId) + 1).reverse(), templateId] }
+      );
+    }
+
+    if (chain.length >= MAX_INHERITANCE_DEPTH) {
+      throw new ApiError(
+        HTTP_STATUS.BAD_REQUEST,
+        `Templates can inherit at most ${MAX_INHERITANCE_DEPTH - 1} levels deep`,
+        "INHERITANCE_TOO_DEEP",
+        { chain: chain.map((template) => template.id) }
+      );
+    }
+
+    if (!readDocument(chain[0].content)) {
+      throw new ApiError(
+        HTTP_STATUS.UNPROCESSABLE_ENTITY,
+        "The base template has no block document to inherit from",
+        "TEMPLATE_HAS_NO_DOCUMENT",
+        { template_id: chain[0].id }
+      );
+    }
+  }
+
+  // Document for a child about to be saved with the given overrides
+  static async composeChild(
+    parentId: number,
+    overrides: TemplateOverrides,
+    tenantId: number,
+    client: TransactionClient = prisma
+  ) {
+    const composed = composeChain(await loadChain(parentId, tenantId, client), 'draft', overrides);
+    if (!composed) {
+      throw new ApiError(
+        HTTP_STATUS.UNPROCESSABLE_ENTITY,
+        "The base template has no block document to inherit from",
+        "TEMPLATE_HAS_NO_DOCUMENT"
+      );
+    }
+
+    return composed.document;
+  }
+
+  // Resolve what a template looks like once its parents are applied. Returns
+  // null when the chain cannot be composed from the requested source.
+  static async resolveEffective(
+    templateId: number,
+    tenantId: number,
+    source: InheritanceSource = 'draft',
+    client: TransactionClient = prisma
+  ) {
+    const chain = await loadChain(templateId, tenantId, client);
+    const composed = composeChain(chain, source);
+    if (!composed) {
+      return null;
+    }
+
+    const { html } = sanitizeEmailHtml(renderSignatureDocument(composed.document));
+
+    return {
+      chain: chain.map((template) => ({
+        id: template.id,
+        name: template.name,
+        version: template.published_version?.version ?? null
+      })),
+      regions: composed.regions,
+      document: composed.document,
+      html_content: html,
+      text_content: htmlToPlainText(html)
+    };
+  }
+}
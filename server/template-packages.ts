@@ -0,0 +1,500 @@
+import AdmZip from "adm-zip";
+import path from "path";
+import fs from "fs/promises";
+import zlib from "zlib";
+import { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import { ApiError, HTTP_STATUS } from "./middleware/error";
+import { TemplateVersionService } from "./template-versions";
+import { BrandKitService } from "./brand-kit";
+import { assertValidTemplateSyntax } from "./signature";
+import { templateSchemas } from "./middleware/validation";
+import { migrateSignatureDocument } from "@shared/signature-document";
+import { sanitizeEmailHtml } from "@shared/html-sanitizer";
+import { htmlToPlainText } from "@shared/plain-text";
+
+/**
+ * Template packages are zip files that move a template between tenants or
+ * instances:
+ * - template.json: package manifest with the template fields and asset list
+ * - template.html: the template HTML, for reading without unpacking the JSON
+ * - assets/<filename>: every tenant asset the template references
+ */
+export const TEMPLATE_PACKAGE_FORMAT = 'signaturesync-template';
+export const TEMPLATE_PACKAGE_VERSION = 1;
+
+// Same directory the upload routes store assets in
+const assetsDir = path.join(process.cwd(), 'uploads', 'assets');
+
+/**
+ * Image types packages may carry, as the upload routes allow them. Assets
+ * are served from the app's origin, so the claimed type must agree with
+ * both the file's extension and its content, and files are stored under
+ * the type's own extension.
+ */
+const ASSET_TYPES: Record<string, { extensions: string[]; matches: (data: Buffer) => boolean }> = {
+  'image/png': {
+    extensions: ['.png'],
+    matches: (data) => data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))
+  },
+  'image/jpeg': {
+    extensions: ['.jpg', '.jpeg'],
+    matches: (data) => data.subarray(0, 3).equals(Buffer.from([0xff, 0xd8, 0xff]))
+  },
+  'image/gif': {
+    extensions: ['.gif'],
+    matches: (data) => /^GIF8[79]a/.test(data.subarray(0, 6).toString('latin1'))
+  },
+  'image/webp': {
+    extensions: ['.webp'],
+    matches: (data) => data.subarray(0, 4).toString('latin1') === 'RIFF' && data.subarray(8, 12).toString('latin1') === 'WEBP'
+  },
+  'image/svg+xml': {
+    extensions: ['.svg'],
+    // SVG is markup, so anything that could run script is refused
+    matches: (data) => {
+      const text = data.toString('utf8');
+      return /<svg[\s>]/i.test(text)
+        && !/<script|<foreignObject|\son[a-z]+\s*=|javascript:/i.test(text);
+    }
+  }
+};
+
+// Guard against zip bombs: bytes decompressed for the manifest and for all assets
+const MAX_MANIFEST_BYTES = 5 * 1024 * 1024;
+const MAX_PACKAGE_ASSET_BYTES = 50 * 1024 * 1024;
+
+interface PackageAsset {
+  name: string;
+  filename: string;
+  mime_type: string;
+  type: string;
+  description: string | null;
+  url: string;
+  path: string;
+}
+
+interface PackageManifest {
+  format: typeof TEMPLATE_PACKAGE_FORMAT;
+  version: typeof TEMPLATE_PACKAGE_VERSION;
+  exported_at: string;
+  template: {
+    name: string;
+    description: string | null;
+    content: Prisma.JsonValue;
+    html_content: string;
+    text_content: string;
+    text_override: boolean;
+  };
+  assets: PackageAsset[];
+}
+
+export type ImportConflictStrategy = 'rename' | 'fail';
+
+export interface ImportConflict {
+  type: 'template' | 'asset';
+  name: string;
+  resolution: 'renamed' | 'reused' | 'kept_both';
+  imported_as?: string;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Replace asset URLs, including absolute URLs pointing at the source
+ * instance, with their URLs in the target tenant
+ */
+function rewriteUrls(source: string, urls: Map<string, string>): string {
+  let output = source;
+  urls.forEach((to, from) => {
+    if (from !== to) {
+      output = output.replace(new RegExp(`(?:https?://[^\\s"'()<>]*?)?${escapeRegExp(from)}`, 'g'), to);
+    }
+  });
+  return output;
+}
+
+// Unique on-disk name, in the same shape the upload routes use, with the extension of the asset's type
+function uniqueFilename(originalName: string, mimeType: string): string {
+  const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9);
+  const name = path.basename(originalName, path.extname(originalName))
+    .replace(/[^a-zA-Z0-9]/g, '_')
+    .substring(0, 50);
+  return `${name}_${uniqueSuffix}${ASSET_TYPES[mimeType].extensions[0]}`;
+}
+
+function packageTooLarge(limit: number) {
+  return new ApiError(
+    HTTP_STATUS.BAD_REQUEST,
+    "Package contents are too large",
+    "TEMPLATE_PACKAGE_TOO_LARGE",
+    { limit }
+  );
+}
+
+/**
+ * Decompress an entry, stopping once it exceeds limit bytes. The sizes an
+ * archive reports about itself are not trusted.
+ */
+function readEntry(entry: AdmZip.IZipEntry, limit: number): Buffer {
+  const compressed = entry.getCompressedData();
+
+  // Stored without compression
+  if (entry.header.method === 0) {
+    if (compressed.length > limit) {
+      throw packageTooLarge(limit);
+    }
+    return compressed;
+  }
+
+  if (entry.header.method === 8) {
+    try {
+      return zlib.inflateRawSync(compressed, { maxOutputLength: Math.max(limit, 1) });
+    } catch (error) {
+      if (error instanceof RangeError) {
+        throw packageTooLarge(limit);
+      }
+    }
+  }
+
+  throw new ApiError(
+    HTTP_STATUS.BAD_REQUEST,
+    `Package entry ${entry.entryName} cannot be read`,
+    "INVALID_TEMPLATE_PACKAGE"
+  );
+}
+
+// Template names follow the same rules as on create
+function assertValidTemplateName(name: string) {
+  const { error } = templateSchemas.create.extract('name').validate(name);
+  if (error) {
+    throw new ApiError(
+      HTTP_STATUS.BAD_REQUEST,
+      error.message,
+      "INVALID_TEMPLATE_NAME",
+      { name }
+    );
+  }
+}
+
+function readManifest(zip: AdmZip): PackageManifest {
+  const entry = zip.getEntry('template.json');
+  if (!entry) {
+    throw new ApiError(
+      HTTP_STATUS.BAD_REQUEST,
+      "Package is missing template.json",
+      "INVALID_TEMPLATE_PACKAGE"
+    );
+  }
+
+  let manifest: PackageManifest;
+  try {
+    manifest = JSON.parse(readEntry(entry, MAX_MANIFEST_BYTES).toString('utf8'));
+  } catch (error) {
+    if (error instanceof ApiError) {
+      throw error;
+    }
+    throw new ApiError(
+      HTTP_STATUS.BAD_REQUEST,
+      "Package template.json is not valid JSON",
+      "INVALID_TEMPLATE_PACKAGE"
+    );
+  }
+
+  if (manifest.format !== TEMPLATE_PACKAGE_FORMAT || manifest.version !== TEMPLATE_PACKAGE_VERSION) {
+    throw new ApiError(
+      HTTP_STATUS.BAD_REQUEST,
+      `Unsupported template package: ${manifest.format} v${manifest.version}`,
+      "UNSUPPORTED_TEMPLATE_PACKAGE"
+    );
+  }
+
+  if (typeof manifest.template?.name !== 'string' || typeof manifest.template.html_content !== 'string') {
+    throw new ApiError(
+      HTTP_STATUS.BAD_REQUEST,
+      "Package template is missing its name or HTML",
+      "INVALID_TEMPLATE_PACKAGE"
+    );
+  }
+
+  manifest.assets = Array.isArray(manifest.assets) ? manifest.assets : [];
+  return manifest;
+}
+
+function readDocument(json: string) {
+  try {
+    return migrateSignatureDocument(JSON.parse(json));
+  } catch (error) {
+    throw new ApiError(
+      HTTP_STATUS.BAD_REQUEST,
+      `Package template content is invalid: ${(error as Error).message}`,
+      "INVALID_TEMPLATE_PACKAGE"
+    );
+  }
+}
+
+export class TemplatePackageService {
+  // Build a zip package for a template and the assets it references
+  static async exportTemplate(templateId: number, tenantId: number) {
+    const template = await prisma.signatureTemplate.findFirst({
+      where: {
+        id: templateId,
+        tenant_id: tenantId
+      }
+    });
+
+    if (!template) {
+      throw new ApiError(
+        HTTP_STATUS.NOT_FOUND,
+        "Template not found",
+        "TEMPLATE_NOT_FOUND"
+      );
+    }
+
+    const searchable = [template.html_content, template.text_content, JSON.stringify(template.content ?? null)].join('\n');
+    const tenantAssets = await prisma.asset.findMany({
+      where: { tenant_id: tenantId }
+    });
+
+    const zip = new AdmZip();
+    const assets: PackageAsset[] = [];
+    const missing: string[] = [];
+
+    for (const asset of tenantAssets.filter((candidate) => searchable.includes(candidate.url))) {
+      try {
+        const data = await fs.readFile(path.join(assetsDir, path.basename(asset.filename)));
+        const entryPath = `assets/${path.basename(asset.filename)}`;
+        zip.addFile(entryPath, data);
+        assets.push({
+          name: asset.name,
+          filename: asset.filename,
+          mime_type: asset.mime_type,
+          type: asset.type,
+          description: asset.description,
+          url: asset.url,
+          path: entryPath
+        });
+      } catch {
+        missing.push(asset.name);
+      }
+    }
+
+    const manifest: PackageManifest = {
+      format: TEMPLATE_PACKAGE_FORMAT,
+      version: TEMPLATE_PACKAGE_VERSION,
+      exported_at: new Date().toISOString(),
+      template: {
+        name: template.name,
+        description: template.description,
+        content: template.content,
+        html_content: template.html_content,
+        text_content: template.text_content,
+        text_override: template.text_override
+      },
+      assets
+    };
+
+    zip.addFile('template.json', Buffer.from(JSON.stringify(manifest, null, 2), 'utf8'));
+    zip.addFile('template.html', Buffer.from(template.html_content, 'utf8'));
+
+    return {
+      filename: `${template.name.replace(/[^a-zA-Z0-9]+/g, '-').replace(/^-|-$/g, '').toLowerCase() || 'template'}.zip`,
+      buffer: zip.toBuffer(),
+      missing
+    };
+  }
+
+  // Recreate a packaged template and its assets in a tenant
+  static async importPackage(params: {
+    buffer: Buffer;
+    tenantId: number;
+    userId: number;
+    name?: string;
+    onConflict?: ImportConflictStrategy;
+  }) {
+    const { buffer, tenantId, userId, onConflict = 'rename' } = params;
+
+    let zip: AdmZip;
+    try {
+      zip = new AdmZip(buffer);
+    } catch {
+      throw new ApiError(
+        HTTP_STATUS.BAD_REQUEST,
+        "File is not a valid zip archive",
+        "INVALID_TEMPLATE_PACKAGE"
+      );
+    }
+
+    const manifest = readManifest(zip);
+    const conflicts: ImportConflict[] = [];
+
+    // Packages from older instances may use merge tags this one does not know
+    assertValidTemplateSyntax(
+      manifest.template.html_content,
+      manifest.template.text_override ? manifest.template.text_content : null
+    );
+
+    // Template names are matched case-insensitively, as the list search does
+    const requestedName = (params.name || manifest.template.name).trim();
+    assertValidTemplateName(requestedName);
+    let name = requestedName;
+    const existingNames = new Set(
+      (await prisma.signatureTemplate.findMany({
+        where: {
+          tenant_id: tenantId,
+          name: { startsWith: requestedName, mode: 'insensitive' }
+        },
+        select: { name: true }
+      })).map((template) => template.name.toLowerCase())
+    );
+
+    if (existingNames.has(requestedName.toLowerCase())) {
+      if (onConflict === 'fail') {
+        throw new ApiError(
+          HTTP_STATUS.CONFLICT,
+          `A template named "${requestedName}" already exists`,
+          "TEMPLATE_NAME_CONFLICT",
+          { name: requestedName }
+        );
+      }
+      let copy = 2;
+      while (existingNames.has(`${requestedName} (${copy})`.toLowerCase())) {
+        copy++;
+      }
+      name = `${requestedName} (${copy})`;
+      assertValidTemplateName(name);
+      conflicts.push({ type: 'template', name: requestedName, resolution: 'renamed', imported_as: name });
+    }
+
+    // The manifest's claimed type must agree with the filename's extension
+    const packaged = manifest.assets.filter((asset) =>
+      typeof asset?.path === 'string' && typeof asset.url === 'string' && typeof asset.name === 'string'
+        && Object.prototype.hasOwnProperty.call(ASSET_TYPES, asset.mime_type)
+        && ASSET_TYPES[asset.mime_type].extensions.includes(path.extname(asset.filename || asset.name).toLowerCase())
+    );
+    const entries = packaged.map((asset) => zip.getEntry(asset.path));
+    let remainingBytes = MAX_PACKAGE_ASSET_BYTES;
+
+    const tenantAssets = await prisma.asset.findMany({
+      where: {
+        tenant_id: tenantId,
+        name: { in: packaged.map((asset) => asset.name) }
+      }
+    });
+
+    await fs.mkdir(assetsDir, { recursive: true });
+
+    const urls = new Map<string, string>();
+    const written: string[] = [];
+    const newAssets: Prisma.AssetCreateManyInput[] = [];
+    const skipped: string[] = manifest.assets
+      .filter((asset) => !packaged.includes(asset) && typeof asset?.name === 'string')
+      .map((asset) => asset.name);
+
+    try {
+      for (let i = 0; i < packaged.length; i++) {
+        const asset = packaged[i];
+        const entry = entries[i];
+        if (!entry || entry.isDirectory) {
+          skipped.push(asset.name);
+          continue;
+        }
+
+        const data = readEntry(entry, remainingBytes);
+        remainingBytes -= data.length;
+
+        // Content that is not the claimed image type is left behind
+        if (!ASSET_TYPES[asset.mime_type].matches(data)) {
+          skipped.push(asset.name);
+          continue;
+        }
+
+        const sameName = tenantAssets.filter((existing) => existing.name === asset.name);
+
+        // An identical asset already in the tenant is reused instead of copied
+        const identical = sameName.find((existing) => existing.size === data.length && existing.mime_type === asset.mime_type);
+        if (identical) {
+          urls.set(asset.url, identical.url);
+          conflicts.push({ type: 'asset', name: asset.name, resolution: 'reused', imported_as: identical.url });
+          continue;
+        }
+
+        const filename = uniqueFilename(asset.filename || asset.name, asset.mime_type);
+        await fs.writeFile(path.join(assetsDir, filename), data);
+        written.push(filename);
+
+        const url = `/uploads/assets/${filename}`;
+        urls.set(asset.url, url);
+        newAssets.push({
+          name: asset.name,
+          filename,
+          mime_type: asset.mime_type,
+          size: data.length,
+          url,
+          type: asset.type || 'image',
+          description: asset.description || null,
+          tenant_id: tenantId,
+          uploaded_by: userId
+        });
+
+        if (sameName.length > 0) {
+          conflicts.push({ type: 'asset', name: asset.name, resolution: 'kept_both', imported_as: url });
+        }
+      }
+
+      const { html: html_content, report: sanitization } = sanitizeEmailHtml(
+        rewriteUrls(manifest.template.html_content, urls)
+      );
+      const content = manifest.template.content
+        ? readDocument(rewriteUrls(JSON.stringify(manifest.template.content), urls))
+        : null;
+      if (content) {
+        await BrandKitService.assertOnBrand(content, tenantId);
+      }
+      const text_override = !!manifest.template.text_override;
+
+      const template = await prisma.$transaction(async (tx) => {
+        if (newAssets.length > 0) {
+          await tx.asset.createMany({ data: newAssets });
+        }
+
+        const created = await tx.signatureTemplate.create({
+          data: {
+            name,
+            description: manifest.template.description || null,
+            content: content ? (content as unknown as Prisma.InputJsonValue) : Prisma.DbNull,
+            html_content,
+            text_content: text_override
+              ? rewriteUrls(manifest.template.text_content || '', urls)
+              : htmlToPlainText(html_content),
+            text_override,
+            tenant_id: tenantId,
+            created_by: userId
+          }
+        });
+
+        await TemplateVersionService.snapshot(created, userId, tx);
+
+        return created;
+      });
+
+      return {
+        template,
+        assets_imported: newAssets.length,
+        assets_skipped: skipped,
+        conflicts,
+        sanitization
+      };
+    } catch (error) {
+      // Remove files written for a failed import
+      await Promise.all(written.map((filename) =>
+        fs.unlink(path.join(assetsDir, filename)).catch((unlinkError) => {
+          console.error('Failed to clean up imported asset:', unlinkError);
+        })
+      ));
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,78 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import { ApiError, HTTP_STATUS } from "./middleware/error";
+
+type TransactionClient = Prisma.TransactionClient;
+
+// Tag fields included with templates in API responses
+export const templateTagsInclude = {
+  taggings: {
+    select: {
+      tag: {
+        select: {
+          id: true,
+          name: true,
+          color: true
+        }
+      }
+    },
+    orderBy: {
+      tag: { name: 'asc' }
+    }
+  }
+} satisfies Prisma.SignatureTemplateInclude;
+
+/**
+ * Flatten a template's taggings into its list of tags
+ */
+export function withTags<T extends { taggings: Array<{ tag: { id: number; name: string; color: string | null } }> }>(
+  template: T
+) {
+  const { taggings, ...rest } = template;
+  return { ...rest, tags: taggings.map((tagging) => tagging.tag) };
+}
+
+export class TemplateTagService {
+  // Ensure every tag ID belongs to the tenant
+  static async assertTenantTags(tagIds: number[], tenantId: number, client: TransactionClient = prisma) {
+    if (tagIds.length === 0) {
+      return;
+    }
+
+    const found = await client.templateTag.findMany({
+      where: {
+        id: { in: tagIds },
+        tenant_id: tenantId
+      },
+      select: { id: true }
+    });
+
+    const foundIds = new Set(found.map((tag) => tag.id));
+    const missing = tagIds.filter((id) => !foundIds.has(id));
+    if (missing.length > 0) {
+      throw new ApiError(
+        HTTP_STATUS.BAD_REQUEST,
+        "One or more tags do not exist",
+        "TAG_NOT_FOUND",
+        { tag_ids: missing }
+      );
+    }
+  }
+
+  // Replace a template's tags
+  static async setTemplateTags(templateId: number, tagIds: number[], client: TransactionClient = prisma) {
+    await client.templateTagging.deleteMany({
+      where: {
+        template_id: templateId,
+        tag_id: { notIn: tagIds }
+      }
+    });
+
+    if (tagIds.length > 0) {
+      await client.templateTagging.createMany({
+        data: tagIds.map((tagId) => ({ template_id: templateId, tag_id: tagId })),
+        skipDuplicates: true
+      });
+    }
+  }
+}
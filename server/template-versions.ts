@@ -0,0 +1,121 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+
+type TransactionClient = Prisma.TransactionClient;
+
+/**
+ * A single row of a side-by-side diff. `left` is the older version,
+ * `right` the newer one; either side is null when the line only exists
+ * on the other.
+ */
+export interface DiffRow {
+  type: 'equal' | 'added' | 'removed' | 'changed';
+  left: { line: number; text: string } | null;
+  right: { line: number; text: string } | null;
+}
+
+/**
+ * Split HTML into one tag/text run per line so diffs are readable even
+ * when the stored markup is a single long line
+ */
+export function splitHtmlLines(html: string): string[] {
+  return html
+    .replace(/>\s*</g, '>\n<')
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line.length > 0);
+}
+
+/**
+ * Line-based diff (LCS) of two HTML documents, paired up for side-by-side display.
+ * Adjacent removed/added runs are paired as "changed" rows.
+ */
+export function diffHtml(oldHtml: string, newHtml: string): DiffRow[] {
+  const a = splitHtmlLines(oldHtml);
+  const b = splitHtmlLines(newHtml);
+
+  // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const rows: DiffRow[] = [];
+  let removed: DiffRow[] = [];
+  let added: DiffRow[] = [];
+
+  const flush = () => {
+    const paired = Math.min(removed.length, added.length);
+    for (let k = 0; k < paired; k++) {
+      rows.push({ type: 'changed', left: removed[k].left, right: added[k].right });
+    }
+    rows.push(...removed.slice(paired), ...added.slice(paired));
+    removed = [];
+    added = [];
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      flush();
+      rows.push({
+        type: 'equal',
+        left: { line: i + 1, text: a[i] },
+        right: { line: j + 1, text: b[j] }
+      });
+      i++;
+      j++;
+    } else if (j < b.length && (i >= a.length || lcs[i][j + 1] >= lcs[i + 1][j])) {
+      added.push({ type: 'added', left: null, right: { line: j + 1, text: b[j] } });
+      j++;
+    } else {
+      removed.push({ type: 'removed', left: { line: i + 1, text: a[i] }, right: null });
+      i++;
+    }
+  }
+  flush();
+
+  return rows;
+}
+
+export class TemplateVersionService {
+  // Record the current state of a template as its next version
+  static async snapshot(
+    template: {
+      id: number;
+      name: string;
+      content: Prisma.JsonValue;
+      html_content: string;
+      text_content: string;
+      text_override: boolean;
+      overrides: Prisma.JsonValue;
+      translations: Prisma.JsonValue;
+    },
+    authorId: number,
+    client: TransactionClient = prisma
+  ) {
+    const latest = await client.signatureTemplateVersion.findFirst({
+      where: { template_id: template.id },
+      orderBy: { version: 'desc' },
+      select: { version: true }
+    });
+
+    return client.signatureTemplateVersion.create({
+      data: {
+        template_id: template.id,
+        version: (latest?.version || 0) + 1,
+        name: template.name,
+        content: template.content ?? Prisma.DbNull,
+        html_content: template.html_content,
+        text_content: template.text_content,
+        text_override: template.text_override,
+        overrides: template.overrides ?? Prisma.DbNull,
+        translations: template.translations ?? Prisma.DbNull,
+        created_by: authorId
+      }
+    });
+  }
+}
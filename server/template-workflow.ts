@@ -0,0 +1,179 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import { ApiError, HTTP_STATUS } from "./middleware/error";
+import { TemplateVersionService } from "./template-versions";
+
+/**
+ * Template lifecycle states
+ * - draft: being edited, not served to users
+ * - in_review: submitted and waiting for an admin to approve or reject
+ * - published: the approved version is served to assigned users
+ * - archived: retired, never served
+ */
+export const TEMPLATE_STATUSES = ['draft', 'in_review', 'published', 'archived'] as const;
+export type TemplateStatus = typeof TEMPLATE_STATUSES[number];
+
+export type WorkflowAction = 'submit' | 'approve' | 'reject' | 'archive' | 'reopen';
+
+/**
+ * Allowed transitions per action. Admin-only actions are also guarded by
+ * requireAdmin on their routes.
+ */
+const WORKFLOW_TRANSITIONS: Record<WorkflowAction, { from: TemplateStatus[]; to: TemplateStatus; adminOnly: boolean }> = {
+  submit: { from: ['draft'], to: 'in_review', adminOnly: false },
+  approve: { from: ['in_review'], to: 'published', adminOnly: true },
+  reject: { from: ['in_review'], to: 'draft', adminOnly: true },
+  archive: { from: ['draft', 'in_review', 'published'], to: 'archived', adminOnly: true },
+  reopen: { from: ['archived'], to: 'draft', adminOnly: true }
+};
+
+/**
+ * Status a template moves to when its content is edited. Editing invalidates
+ * any pending review; the previously published version keeps being served
+ * until a new one is approved.
+ */
+export function statusAfterEdit(current: string): TemplateStatus {
+  return current === 'archived' ? 'archived' : 'draft';
+}
+
+export class TemplateWorkflowService {
+  // Apply a workflow action to a template and record the transition
+  static async transition(params: {
+    templateId: number;
+    tenantId: number;
+    action: WorkflowAction;
+    actor: { userId: number; role: string };
+    comment?: string;
+  }) {
+    const { templateId, tenantId, action, actor, comment } = params;
+    const rule = WORKFLOW_TRANSITIONS[action];
+
+    if (rule.adminOnly && actor.role !== 'admin') {
+      throw new ApiError(
+        HTTP_STATUS.FORBIDDEN,
+        "Admin access required",
+        "ADMIN_REQUIRED"
+      );
+    }
+
+    const template = await prisma.signatureTemplate.findFirst({
+      where: {
+        id: templateId,
+        tenant_id: tenantId
+      }
+    });
+
+    if (!template) {
+      throw new ApiError(
+        HTTP_STATUS.NOT_FOUND,
+        "Template not found",
+        "TEMPLATE_NOT_FOUND"
+      );
+    }
+
+    if (!rule.from.includes(template.status as TemplateStatus)) {
+      throw new ApiError(
+        HTTP_STATUS.CONFLICT,
+        `Cannot ${action} a template that is ${template.status}`,
+        "INVALID_STATUS_TRANSITION",
+        { status: template.status, action, allowedFrom: rule.from }
+      );
+    }
+
+    return prisma.$transaction(async (tx) => {
+      // Approval acts on the version that was submitted, never on later edits
+      let version = action === 'approve'
+        ? await this.submittedVersion(template.id, tx)
+        : await tx.signatureTemplateVersion.findFirst({
+          where: { template_id: template.id },
+          orderBy: { version: 'desc' }
+        });
+
+      // Templates saved before versioning existed have no snapshot to review yet
+      if (!version && action === 'submit') {
+        version = await TemplateVersionService.snapshot(template, actor.userId, tx);
+      }
+
+      // Only move on if nobody changed the status since it was checked,
+      // e.g. an edit sending the template back to draft
+      const { count } = await tx.signatureTemplate.updateMany({
+        where: {
+          id: template.id,
+          status: template.status
+        },
+        data: {
+          status: rule.to,
+          // Approving publishes the submitted version; a reopened template
+          // is not served again until a version is approved
+          ...(action === 'approve' && version
+            ? { published_version_id: version.id }
+            : {}),
+          ...(action === 'reopen' ? { published_version_id: null } : {})
+        }
+      });
+      if (count === 0) {
+        throw new ApiError(
+          HTTP_STATUS.CONFLICT,
+          "Template status changed while this action was being applied",
+          "INVALID_STATUS_TRANSITION",
+          { action }
+        );
+      }
+
+      const updated = await tx.signatureTemplate.findUniqueOrThrow({
+        where: { id: template.id },
+        include: {
+          published_version: {
+            select: { id: true, version: true, created_at: true }
+          }
+        }
+      });
+
+      const transition = await tx.templateStatusTransition.create({
+        data: {
+          template_id: template.id,
+          action,
+          from_status: template.status,
+          to_status: rule.to,
+          version: version?.version ?? null,
+          comment: comment || null,
+          actor_id: actor.userId
+        }
+      });
+
+      return { template: updated, transition };
+    });
+  }
+
+  // The version recorded when the template was last submitted for review
+  private static async submittedVersion(templateId: number, tx: Prisma.TransactionClient) {
+    const submission = await tx.templateStatusTransition.findFirst({
+      where: {
+        template_id: templateId,
+        action: 'submit'
+      },
+      orderBy: { id: 'desc' }
+    });
+
+    const version = submission?.version != null
+      ? await tx.signatureTemplateVersion.findUnique({
+        where: {
+          template_id_version: {
+            template_id: templateId,
+            version: submission.version
+          }
+        }
+      })
+      : null;
+
+    if (!version) {
+      throw new ApiError(
+        HTTP_STATUS.CONFLICT,
+        "The submitted version could not be found; submit the template for review again",
+        "SUBMITTED_VERSION_MISSING"
+      );
+    }
+
+    return version;
+  }
+}
@@ -0,0 +1,166 @@
+/**
+ * Signature accessibility audit.
+ *
+ * Checks signature HTML against the parts of WCAG 2.1 AA that a signature
+ * can fail: text/background contrast, text too small to read, images
+ * without alt text and links whose only content is an icon or emoji. Each
+ * issue carries a suggested fix, and contrast and size issues a concrete
+ * replacement value the editor can apply to the matching style settings.
+ */
+
+import { contrastRatio, formatColor, parseColor, relativeLuminance, requiredContrast, type Rgb } from "./colors";
+import { decodeAttribute, locate, styledElements, type LintIssue, type LintSeverity } from "./template-linter";
+
+// Smallest text size, in px, that stays legible on phones
+export const MIN_FONT_SIZE = 12;
+
+const DEFAULT_TEXT = '#000000';
+const DEFAULT_BACKGROUND = '#ffffff';
+
+export interface AccessibilityIssue extends LintIssue {
+  fix: string;
+  // Replacement CSS value for the offending one, when there is a mechanical fix
+  suggestion?: { property: 'color' | 'font-size'; from: string; to: string };
+}
+
+export interface AccessibilityResult {
+  issues: AccessibilityIssue[];
+  summary: Record<LintSeverity, number>;
+  passed: boolean; // No errors, so the signature meets WCAG AA on what is checked
+}
+
+/**
+ * The closest color to one that reaches a contrast ratio against a
+ * background, darkening on light backgrounds and lightening on dark ones
+ */
+export function readableColor(color: Rgb, background: Rgb, ratio: number): Rgb {
+  const target = relativeLuminance(background) > 0.18 ? 0 : 255;
+  let candidate = color;
+  for (let step = 1; step <= 20 && contrastRatio(candidate, background) < ratio; step++) {
+    const amount = step / 20;
+    candidate = {
+      r: color.r + (target - color.r) * amount,
+      g: color.g + (target - color.g) * amount,
+      b: color.b + (target - color.b) * amount,
+      a: color.a
+    };
+  }
+  return candidate;
+}
+
+// Whether text has a letter or digit a screen reader can announce, rather than only symbols and emoji
+function hasReadableText(text: string): boolean {
+  return Array.from(text).some((char) => {
+    const code = char.codePointAt(0) ?? 0;
+    return /[0-9]/.test(char)
+      || char.toLowerCase() !== char.toUpperCase()
+      // Scripts without letter case: Hebrew to Sinhala, kana and CJK, Hangul
+      || (code >= 0x0590 && code <= 0x0dff)
+      || (code >= 0x3040 && code <= 0x9fff)
+      || (code >= 0xac00 && code <= 0xd7af);
+  });
+}
+
+// Text a link announces: its content with image alt text in place of the images
+function linkText(html: string, offset: number): string {
+  const end = html.indexOf('</a', offset);
+  const content = html.slice(html.indexOf('>', offset) + 1, end === -1 ? undefined : end);
+  return content
+    .replace(/<img\b((?:[^>"']|"[^"]*"|'[^']*')*)>/gi, (_tag: string, source: string) => {
+      const alt = source.match(/\balt\s*=\s*("([^"]*)"|'([^']*)')/i);
+      return alt ? ` ${decodeAttribute(alt[2] ?? alt[3] ?? '')} ` : ' ';
+    })
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&nbsp;/g, ' ');
+}
+
+/**
+ * Audit signature HTML for accessibility problems
+ */
+export function auditAccessibility(html: string): AccessibilityResult {
+  const issues: AccessibilityIssue[] = [];
+  const reported = new Set<string>();
+  const report = (issue: Omit<AccessibilityIssue, 'location'>, offset: number, element: string, key?: string) => {
+    // Repeated styles are reported once, at their first use
+    if (key !== undefined) {
+      if (reported.has(`${issue.rule}:${key}`)) {
+        return;
+      }
+      reported.add(`${issue.rule}:${key}`);
+    }
+    issues.push({ ...issue, location: { ...locate(html, offset), element } });
+  };
+
+  for (const element of styledElements(html)) {
+    if (element.text.trim()) {
+      const text = parseColor(element.color ?? DEFAULT_TEXT);
+      const parsedBackground = parseColor(element.background ?? DEFAULT_BACKGROUND);
+      const background = parsedBackground && parsedBackground.a > 0 ? parsedBackground : parseColor(DEFAULT_BACKGROUND)!;
+      if (text && text.a > 0) {
+        const required = requiredContrast(element.fontSize, element.fontWeight);
+        const ratio = contrastRatio(text, background);
+        if (ratio < required) {
+          const suggested = formatColor(readableColor(text, background, required));
+          report({
+            severity: 'error',
+            rule: 'color-contrast',
+            message: `${formatColor(text)} text on ${formatColor(background)} has a contrast of ${ratio.toFixed(2)}:1; WCAG AA needs ${required}:1 for text this size`,
+            fix: `Use ${suggested} or another color with at least ${required}:1 contrast`,
+            suggestion: { property: 'color', from: formatColor(text), to: suggested }
+          }, element.offset, element.tag, `${formatColor(text)}/${formatColor(background)}/${required}`);
+        }
+      }
+
+      if (element.fontSize !== null && element.fontSize < MIN_FONT_SIZE) {
+        report({
+          severity: 'warning',
+          rule: 'font-size',
+          message: `Text is ${element.fontSize}px; text under ${MIN_FONT_SIZE}px is hard to read, especially on phones`,
+          fix: `Set the font size to at least ${MIN_FONT_SIZE}px`,
+          suggestion: { property: 'font-size', from: `${element.fontSize}px`, to: `${MIN_FONT_SIZE}px` }
+        }, element.offset, element.tag, String(element.fontSize));
+      }
+    }
+
+    if (element.tag === 'img') {
+      const alt = element.attributes.alt;
+      if (alt === undefined) {
+        report({
+          severity: 'error',
+          rule: 'image-alt',
+          message: 'Image has no alt text; screen readers announce its file name instead',
+          fix: 'Add alt text describing the image, such as the company name for a logo or the offer for a banner'
+        }, element.offset, element.tag);
+      } else if (!decodeAttribute(alt).trim()) {
+        report({
+          severity: 'warning',
+          rule: 'image-alt',
+          message: 'Image has empty alt text, which marks it as decorative; logos and banners carry information',
+          fix: 'Describe the image in its alt text unless it is purely decorative'
+        }, element.offset, element.tag);
+      }
+    }
+
+    if (element.tag === 'a') {
+      const label = decodeAttribute(element.attributes['aria-label'] ?? element.attributes.title ?? '');
+      const text = linkText(html, element.offset);
+      if (!hasReadableText(label) && !hasReadableText(text)) {
+        report({
+          severity: 'error',
+          rule: 'icon-only-link',
+          message: text.trim()
+            ? `Link text "${text.trim()}" is only an icon or emoji; screen readers cannot tell where it goes`
+            : 'Link has no text; screen readers cannot tell where it goes',
+          fix: 'Add visible link text, alt text on the icon image or an aria-label such as "LinkedIn profile"'
+        }, element.offset, element.tag);
+      }
+    }
+  }
+
+  const summary: Record<LintSeverity, number> = { error: 0, warning: 0, info: 0 };
+  for (const issue of issues) {
+    summary[issue.severity]++;
+  }
+
+  return { issues, summary, passed: summary.error === 0 };
+}
@@ -0,0 +1,120 @@
+/**
+ * Rule-based template assignment.
+ *
+ * A rule names a template and a list of conditions on user attributes,
+ * e.g. department equals Sales and title contains Director. A user matches
+ * a rule when every condition holds; of the rules a user matches, the one
+ * with the highest priority wins, then the newest. The winning rule's
+ * template is kept as a rule-derived assignment, separate from the ones
+ * admins make by hand. When picking the template a signature renders from,
+ * manual assignments come first, then the rule-derived one, then the
+ * tenant default.
+ */
+
+export const ASSIGNMENT_RULE_FIELDS = ['department', 'title', 'email', 'country', 'role', 'locale'] as const;
+export type AssignmentRuleField = typeof ASSIGNMENT_RULE_FIELDS[number];
+
+export const ASSIGNMENT_RULE_OPERATORS = ['equals', 'not_equals', 'contains', 'starts_with', 'ends_with', 'is_empty'] as const;
+export type AssignmentRuleOperator = typeof ASSIGNMENT_RULE_OPERATORS[number];
+
+// How a user came to have a template
+export const ASSIGNMENT_SOURCES = ['manual', 'rule', 'default'] as const;
+export type AssignmentSource = typeof ASSIGNMENT_SOURCES[number];
+
+export interface AssignmentCondition {
+  field: AssignmentRuleField;
+  operator: AssignmentRuleOperator;
+  value?: string; // Not used by is_empty
+}
+
+export interface AssignmentRule {
+  id: number;
+  priority: number; // Higher wins when several rules match a user
+  is_active: boolean;
+  template_id: number;
+  conditions: unknown;
+}
+
+// User attributes conditions can test
+export type AssignmentSubject = Record<AssignmentRuleField, string | null>;
+
+const normalize = (value: string | null | undefined) => (value ?? '').trim().toLowerCase();
+
+/**
+ * Conditions as stored in a rule's JSON column, ignoring malformed entries
+ */
+export function readAssignmentConditions(raw: unknown): AssignmentCondition[] {
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+  return raw.filter((condition): condition is AssignmentCondition =>
+    !!condition && typeof condition === 'object'
+      && (ASSIGNMENT_RULE_FIELDS as readonly string[]).includes(condition.field)
+      && (ASSIGNMENT_RULE_OPERATORS as readonly string[]).includes(condition.operator)
+      && (condition.operator === 'is_empty' || typeof condition.value === 'string')
+  );
+}
+
+/**
+ * Whether one condition holds for a user. Text compares
+ * case-insensitively; a missing attribute only equals the empty string.
+ */
+export function conditionHolds(condition: AssignmentCondition, subject: AssignmentSubject): boolean {
+  const actual = normalize(subject[condition.field]);
+  const expected = normalize(condition.value);
+
+  switch (condition.operator) {
+    case 'equals':
+      return actual === expected;
+    case 'not_equals':
+      return actual !== expected;
+    case 'contains':
+      return actual.includes(expected);
+    case 'starts_with':
+      return actual.startsWith(expected);
+    case 'ends_with':
+      return actual.endsWith(expected);
+    case 'is_empty':
+      return actual === '';
+  }
+}
+
+/**
+ * Whether a user meets every condition of a rule. A rule without
+ * conditions matches everybody.
+ */
+export function assignmentRuleMatches(rule: AssignmentRule, subject: AssignmentSubject): boolean {
+  return readAssignmentConditions(rule.conditions).every((condition) => conditionHolds(condition, subject));
+}
+
+/**
+ * Order rules by precedence, winner first
+ */
+export function compareAssignmentRules(a: AssignmentRule, b: AssignmentRule): number {
+  return b.priority - a.priority || b.id - a.id;
+}
+
+/**
+ * The active rule that decides a user's template, if any
+ */
+export function winningAssignmentRule<T extends AssignmentRule>(rules: T[], subject: AssignmentSubject): T | null {
+  return rules
+    .filter((rule) => rule.is_active && assignmentRuleMatches(rule, subject))
+    .sort(compareAssignmentRules)[0] ?? null;
+}
+
+/**
+ * Order assignments by which one a signature renders from, winner first:
+ * manual before rule-derived before default, then the most recent.
+ */
+export function compareAssignments(
+  a: { source: string; assigned_at: Date | string },
+  b: { source: string; assigned_at: Date | string }
+): number {
+  const rank = (source: string) => {
+    const index = (ASSIGNMENT_SOURCES as readonly string[]).indexOf(source);
+    return index === -1 ? 0 : index;
+  };
+  return rank(a.source) - rank(b.source)
+    || new Date(b.assigned_at).getTime() - new Date(a.assigned_at).getTime();
+}
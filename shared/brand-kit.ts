@@ -0,0 +1,168 @@
+/**
+ * Tenant brand kit.
+ *
+ * Admins keep one kit per tenant: approved colors, font stacks, a primary
+ * and secondary logo and the style social links are shown in. The editor
+ * offers only kit values when the kit restricts styling, or flags values
+ * outside it when the kit only warns. Templates can also reference kit
+ * values as {{brand_*}} merge fields.
+ */
+
+import type { SignatureStyles } from "./signature-document";
+
+// How strictly the editor holds templates to the kit
+export const BRAND_KIT_ENFORCEMENTS = ['warn', 'restrict'] as const;
+export type BrandKitEnforcement = typeof BRAND_KIT_ENFORCEMENTS[number];
+
+// How social links are shown: text labels, or icons in brand or single color
+export const SOCIAL_ICON_STYLES = ['text', 'color', 'monochrome'] as const;
+export type SocialIconStyle = typeof SOCIAL_ICON_STYLES[number];
+
+export interface BrandColor {
+  name: string;
+  value: string; // #rrggbb
+}
+
+export interface BrandFont {
+  name: string;
+  stack: string; // CSS font-family list, e.g. Inter, Arial, sans-serif
+}
+
+export interface BrandKit {
+  colors: BrandColor[];
+  fonts: BrandFont[];
+  primary_logo_url: string | null;
+  secondary_logo_url: string | null;
+  social_icon_style: SocialIconStyle;
+  enforcement: BrandKitEnforcement;
+}
+
+// Signature style settings the kit governs
+export const BRAND_COLOR_STYLES = ['nameColor', 'roleColor', 'companyColor', 'contactColor', 'linkColor'] as const;
+export const BRAND_FONT_STYLES = ['nameFont', 'roleFont', 'companyFont', 'contactFont'] as const;
+
+type BrandStyleKey = typeof BRAND_COLOR_STYLES[number] | typeof BRAND_FONT_STYLES[number];
+
+export interface BrandKitViolation {
+  style: BrandStyleKey;
+  kind: 'color' | 'font';
+  value: string;
+}
+
+const normalizeColor = (value: string) => value.trim().toLowerCase();
+const normalizeFont = (value: string) => value.trim().toLowerCase().replace(/\s*,\s*/g, ',');
+
+// Kit values as stored in JSON columns, ignoring malformed entries
+function readEntries<T>(raw: unknown, keys: Array<keyof T>): T[] {
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+  return raw.filter((entry): entry is T =>
+    !!entry && typeof entry === 'object' && keys.every((key) => typeof (entry as Record<string, unknown>)[key as string] === 'string')
+  );
+}
+
+/**
+ * Read a stored kit; a tenant without one gets an empty kit that allows
+ * every color and font
+ */
+export function readBrandKit(raw: {
+  colors: unknown;
+  fonts: unknown;
+  primary_logo_url: string | null;
+  secondary_logo_url: string | null;
+  social_icon_style: string;
+  enforcement: string;
+} | null): BrandKit {
+  return {
+    colors: readEntries<BrandColor>(raw?.colors, ['name', 'value']),
+    fonts: readEntries<BrandFont>(raw?.fonts, ['name', 'stack']),
+    primary_logo_url: raw?.primary_logo_url ?? null,
+    secondary_logo_url: raw?.secondary_logo_url ?? null,
+    social_icon_style: (SOCIAL_ICON_STYLES as readonly string[]).includes(raw?.social_icon_style ?? '')
+      ? raw!.social_icon_style as SocialIconStyle
+      : 'text',
+    enforcement: raw?.enforcement === 'restrict' ? 'restrict' : 'warn'
+  };
+}
+
+/**
+ * Whether a color is one of the kit's; an empty palette allows any color
+ */
+export function isBrandColor(kit: BrandKit, value: string): boolean {
+  return kit.colors.length === 0
+    || kit.colors.some((color) => normalizeColor(color.value) === normalizeColor(value));
+}
+
+/**
+ * Whether a font, written as a kit font's name or its stack, is one of the
+ * kit's; an empty font list allows any font
+ */
+export function isBrandFont(kit: BrandKit, value: string): boolean {
+  return kit.fonts.length === 0
+    || kit.fonts.some((font) =>
+      normalizeFont(font.stack) === normalizeFont(value) || normalizeFont(font.name) === normalizeFont(value)
+    );
+}
+
+/**
+ * Style settings that use a color or font outside the kit
+ */
+export function brandKitViolations(styles: Partial<SignatureStyles>, kit: BrandKit): BrandKitViolation[] {
+  const violations: BrandKitViolation[] = [];
+  for (const style of BRAND_COLOR_STYLES) {
+    const value = styles[style];
+    if (value && !isBrandColor(kit, value)) {
+      violations.push({ style, kind: 'color', value });
+    }
+  }
+  for (const style of BRAND_FONT_STYLES) {
+    const value = styles[style];
+    if (value && !isBrandFont(kit, value)) {
+      violations.push({ style, kind: 'font', value });
+    }
+  }
+  return violations;
+}
+
+// Squared distance between two #rrggbb colors
+function colorDistance(a: string, b: string): number {
+  const channels = (hex: string) => [1, 3, 5].map((offset) => parseInt(hex.slice(offset, offset + 2), 16) || 0);
+  const [x, y] = [channels(a), channels(b)];
+  return x.reduce((total, value, index) => total + (value - y[index]) ** 2, 0);
+}
+
+/**
+ * Bring style settings onto the kit: off-brand colors become the closest
+ * kit color and off-brand fonts the kit's first font
+ */
+export function snapToBrandKit<T extends Partial<SignatureStyles>>(styles: T, kit: BrandKit): T {
+  const snapped: Partial<SignatureStyles> = { ...styles };
+  for (const violation of brandKitViolations(styles, kit)) {
+    if (violation.kind === 'color') {
+      snapped[violation.style] = kit.colors.reduce((best, color) =>
+        colorDistance(color.value, violation.value) < colorDistance(best.value, violation.value) ? color : best
+      ).value;
+    } else {
+      snapped[violation.style] = kit.fonts[0].stack;
+    }
+  }
+  return snapped as T;
+}
+
+/**
+ * Kit values as merge fields: the first two colors and the first font as
+ * the primary and secondary choices, and the full palette and fonts as lists
+ */
+export function brandMergeFields(kit: BrandKit) {
+  return {
+    brand_primary_color: kit.colors[0]?.value ?? null,
+    brand_secondary_color: kit.colors[1]?.value ?? null,
+    brand_font: kit.fonts[0]?.stack ?? null,
+    brand_logo_url: kit.primary_logo_url,
+    brand_secondary_logo_url: kit.secondary_logo_url,
+    brand_social_icon_style: kit.social_icon_style,
+    brand_colors: kit.colors.map((color) => ({ name: color.name, value: color.value })),
+    brand_fonts: kit.fonts.map((font) => ({ name: font.name, stack: font.stack }))
+  };
+}
@@ -0,0 +1,89 @@
+/**
+ * Scheduled banner campaigns.
+ *
+ * A campaign swaps the banner of the signatures it targets for the length
+ * of its window, e.g. a trade show. When several campaigns are live for
+ * the same signature, exactly one wins: the highest priority, then the one
+ * that started most recently, then the newest campaign.
+ */
+
+import type { ImageBlockFields } from "./signature-document";
+
+export type CampaignStatus = 'scheduled' | 'active' | 'ended';
+
+export interface CampaignSchedule {
+  id: number;
+  starts_at: Date | string;
+  ends_at: Date | string;
+  priority: number;
+  target_template_ids: number[];
+  target_departments: string[];
+}
+
+export interface CampaignBanner {
+  image_url: string;
+  link_url: string | null;
+  alt_text: string | null;
+}
+
+// Signature a campaign may apply to
+export interface CampaignAudience {
+  template_id: number;
+  department: string | null;
+}
+
+const time = (value: Date | string) => new Date(value).getTime();
+
+/**
+ * Where a campaign's window stands at a moment; the end is exclusive
+ */
+export function campaignStatus(campaign: CampaignSchedule, at: Date = new Date()): CampaignStatus {
+  if (at.getTime() < time(campaign.starts_at)) {
+    return 'scheduled';
+  }
+  return at.getTime() < time(campaign.ends_at) ? 'active' : 'ended';
+}
+
+/**
+ * Order campaigns by precedence, winner first
+ */
+export function compareCampaigns(a: CampaignSchedule, b: CampaignSchedule): number {
+  return b.priority - a.priority
+    || time(b.starts_at) - time(a.starts_at)
+    || b.id - a.id;
+}
+
+/**
+ * Whether a campaign targets a signature. Empty targets match everything;
+ * departments compare case-insensitively.
+ */
+export function campaignTargets(campaign: CampaignSchedule, audience: CampaignAudience): boolean {
+  const department = audience.department?.trim().toLowerCase();
+  return (campaign.target_template_ids.length === 0 || campaign.target_template_ids.includes(audience.template_id))
+    && (campaign.target_departments.length === 0
+      || (!!department && campaign.target_departments.some((target) => target.trim().toLowerCase() === department)));
+}
+
+/**
+ * Live campaigns targeting a signature, winner first
+ */
+export function rankCampaigns<T extends CampaignSchedule>(
+  campaigns: T[],
+  audience: CampaignAudience,
+  at: Date = new Date()
+): T[] {
+  return campaigns
+    .filter((campaign) => campaignStatus(campaign, at) === 'active' && campaignTargets(campaign, audience))
+    .sort(compareCampaigns);
+}
+
+/**
+ * Banner block fields for a campaign's image
+ */
+export function campaignBannerBlock(campaign: CampaignBanner): ImageBlockFields {
+  return {
+    src: campaign.image_url,
+    alt: campaign.alt_text || undefined,
+    href: campaign.link_url || undefined
+  };
+}
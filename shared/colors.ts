@@ -0,0 +1,153 @@
+/**
+ * CSS color parsing and contrast math.
+ *
+ * Signature checks work on the inline colors templates are written with:
+ * hex, rgb()/rgba() and the common named colors. Contrast follows WCAG 2.1
+ * relative luminance, so ratios match what accessibility tools report.
+ */
+
+export interface Rgb {
+  r: number; // 0-255
+  g: number;
+  b: number;
+  a: number; // 0-1
+}
+
+// Named colors that turn up in hand-written signatures
+const NAMED_COLORS: Record<string, string> = {
+  black: '#000000',
+  white: '#ffffff',
+  gray: '#808080',
+  grey: '#808080',
+  silver: '#c0c0c0',
+  red: '#ff0000',
+  maroon: '#800000',
+  orange: '#ffa500',
+  yellow: '#ffff00',
+  green: '#008000',
+  lime: '#00ff00',
+  teal: '#008080',
+  blue: '#0000ff',
+  navy: '#000080',
+  purple: '#800080'
+};
+
+/**
+ * Parse a CSS color value; null for anything that is not a plain color,
+ * such as gradients, images or inherit
+ */
+export function parseColor(value: string): Rgb | null {
+  const color = value.trim().toLowerCase();
+
+  if (color === 'transparent') {
+    return { r: 0, g: 0, b: 0, a: 0 };
+  }
+  if (NAMED_COLORS[color]) {
+    return parseColor(NAMED_COLORS[color]);
+  }
+
+  const hex = color.match(/^#([0-9a-f]{3,8})$/);
+  if (hex) {
+    let digits = hex[1];
+    if (digits.length === 3 || digits.length === 4) {
+      digits = digits.split('').map((digit) => digit + digit).join('');
+    }
+    if (digits.length !== 6 && digits.length !== 8) {
+      return null;
+    }
+    return {
+      r: parseInt(digits.slice(0, 2), 16),
+      g: parseInt(digits.slice(2, 4), 16),
+      b: parseInt(digits.slice(4, 6), 16),
+      a: digits.length === 8 ? parseInt(digits.slice(6, 8), 16) / 255 : 1
+    };
+  }
+
+  const rgb = color.match(/^rgba?\(\s*(\d{1,3})\s*,\s*(\d{1,3})\s*,\s*(\d{1,3})\s*(?:,\s*([\d.]+)\s*)?\)$/);
+  if (rgb) {
+    return {
+      r: Math.min(255, Number(rgb[1])),
+      g: Math.min(255, Number(rgb[2])),
+      b: Math.min(255, Number(rgb[3])),
+      a: rgb[4] === undefined ? 1 : Math.min(1, Number(rgb[4]))
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Format a color as #rrggbb, dropping alpha
+ */
+export function formatColor(color: Rgb): string {
+  return `#${[color.r, color.g, color.b].map((channel) => Math.round(channel).toString(16).padStart(2, '0')).join('')}`;
+}
+
+/**
+ * WCAG relative luminance, from 0 (black) to 1 (white)
+ */
+export function relativeLuminance(color: Rgb): number {
+  const [r, g, b] = [color.r, color.g, color.b].map((channel) => {
+    const value = channel / 255;
+    return value <= 0.03928 ? value / 12.92 : ((value + 0.055) / 1.055) ** 2.4;
+  });
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+/**
+ * WCAG contrast ratio between two colors, from 1 to 21
+ */
+export function contrastRatio(a: Rgb, b: Rgb): number {
+  const [lighter, darker] = [relativeLuminance(a), relativeLuminance(b)].sort((x, y) => y - x);
+  return (lighter + 0.05) / (darker + 0.05);
+}
+
+/**
+ * Flip a color's lightness while keeping its hue and saturation, the way
+ * dark-mode clients invert colors
+ */
+export function invertLightness(color: Rgb): Rgb {
+  const r = color.r / 255;
+  const g = color.g / 255;
+  const b = color.b / 255;
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const lightness = (max + min) / 2;
+  const delta = max - min;
+
+  if (delta === 0) {
+    const gray = (1 - lightness) * 255;
+    return { r: gray, g: gray, b: gray, a: color.a };
+  }
+
+  const saturation = delta / (1 - Math.abs(2 * lightness - 1));
+  const hue = max === r
+    ? ((g - b) / delta + (g < b ? 6 : 0)) / 6
+    : max === g ? ((b - r) / delta + 2) / 6 : ((r - g) / delta + 4) / 6;
+
+  // HSL back to RGB with the lightness flipped
+  const inverted = 1 - lightness;
+  const q = inverted < 0.5 ? inverted * (1 + saturation) : inverted + saturation - inverted * saturation;
+  const p = 2 * inverted - q;
+  const channel = (offset: number) => {
+    let t = hue + offset;
+    if (t < 0) t += 1;
+    if (t > 1) t -= 1;
+    if (t < 1 / 6) return p + (q - p) * 6 * t;
+    if (t < 1 / 2) return q;
+    if (t < 2 / 3) return p + (q - p) * (2 / 3 - t) * 6;
+    return p;
+  };
+
+  return { r: channel(1 / 3) * 255, g: channel(0) * 255, b: channel(-1 / 3) * 255, a: color.a };
+}
+
+/**
+ * Contrast WCAG AA asks of text: 3:1 for large text (24px, or 18.66px
+ * bold) and 4.5:1 for everything else
+ */
+export function requiredContrast(fontSize: number | null, fontWeight: string | null): number {
+  const bold = !!fontWeight && (fontWeight === 'bold' || Number(fontWeight) >= 700);
+  const large = fontSize !== null && (fontSize >= 24 || (bold && fontSize >= 18.66));
+  return large ? 3 : 4.5;
+}
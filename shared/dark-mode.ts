@@ -0,0 +1,192 @@
+/**
+ * Dark-mode rendering simulation.
+ *
+ * Mail clients darken signatures in one of two ways. Some invert every
+ * color (Gmail for iOS, Outlook for Windows); others only darken light
+ * backgrounds and lighten dark text, leaving everything else alone
+ * (Outlook.com, Outlook mobile, Apple Mail). The simulation rewrites inline
+ * colors the same way so the editor can preview both, and the checker flags
+ * text that becomes hard to read, transparent logos that disappear against
+ * a dark background and brand colors the client will change.
+ */
+
+import { contrastRatio, formatColor, invertLightness, parseColor, relativeLuminance, requiredContrast, type Rgb } from "./colors";
+import { decodeAttribute, locate, parseAttributes, styledElements, TAG_PATTERN, type LintIssue, type LintSeverity } from "./template-linter";
+
+export const DARK_MODE_PREVIEWS = ['light', 'dark-full', 'dark-partial'] as const;
+export type DarkModePreview = typeof DARK_MODE_PREVIEWS[number];
+type DarkMode = Exclude<DarkModePreview, 'light'>;
+
+export const DARK_MODE_LABELS: Record<DarkModePreview, { label: string; clients: string }> = {
+  'light': { label: 'Light', clients: 'Default rendering' },
+  'dark-full': { label: 'Dark (full inversion)', clients: 'Gmail for iOS, Outlook for Windows' },
+  'dark-partial': { label: 'Dark (partial inversion)', clients: 'Outlook.com, Outlook mobile, Apple Mail' }
+};
+
+// Message background and default text color clients use in dark mode
+export const DARK_BACKGROUND = '#1e1e1e';
+const DARK_TEXT = '#e8e8e8';
+const LIGHT_BACKGROUND = '#ffffff';
+const LIGHT_TEXT = '#000000';
+
+// Luminance beyond which partial inversion treats a color as light or dark
+const PARTIAL_LIGHT_BACKGROUND = 0.4;
+const PARTIAL_DARK_TEXT = 0.2;
+
+// Images that can have transparent areas
+const TRANSPARENT_IMAGE_PATTERN = /(\.(png|gif|svg|webp)(\?|#|$))|^data:image\/(png|gif|svg\+xml|webp)/i;
+
+// Inline style declarations that set a color
+const COLOR_DECLARATION_PATTERN = /(^|;)(\s*)(background-color|background|color)(\s*:\s*)([^;]+)/gi;
+
+export interface DarkModeResult {
+  issues: LintIssue[];
+  summary: Record<LintSeverity, number>;
+}
+
+/**
+ * The color a dark-mode client shows in place of a light-mode one
+ */
+export function darkModeColor(color: Rgb, role: 'text' | 'background', mode: DarkMode): Rgb {
+  if (mode === 'dark-full') {
+    return invertLightness(color);
+  }
+  const luminance = relativeLuminance(color);
+  const inverts = role === 'background' ? luminance > PARTIAL_LIGHT_BACKGROUND : luminance < PARTIAL_DARK_TEXT;
+  return inverts ? invertLightness(color) : color;
+}
+
+// Rewrite a CSS color value, leaving anything that is not a plain color as is
+function convertValue(value: string, role: 'text' | 'background', mode: DarkMode): string {
+  const color = parseColor(value);
+  if (!color || color.a === 0) {
+    return value;
+  }
+  return formatColor(darkModeColor(color, role, mode));
+}
+
+/**
+ * Render signature HTML the way a dark-mode client would show it, on a
+ * dark message background
+ */
+export function simulateDarkMode(html: string, mode: DarkModePreview): string {
+  if (mode === 'light') {
+    return html;
+  }
+
+  const converted = html.replace(TAG_PATTERN, (tag: string, name: string, source: string) => {
+    const attributes = parseAttributes(source);
+    let rewritten = tag;
+
+    if (attributes.style) {
+      const style = decodeAttribute(attributes.style).replace(
+        COLOR_DECLARATION_PATTERN,
+        (_match: string, separator: string, space: string, property: string, colon: string, value: string) =>
+          `${separator}${space}${property}${colon}${convertValue(value, property.toLowerCase() === 'color' ? 'text' : 'background', mode)}`
+      );
+      rewritten = rewritten.replace(/\bstyle\s*=\s*("[^"]*"|'[^']*')/i, `style="${style.replace(/"/g, '&quot;')}"`);
+    }
+    if (attributes.bgcolor) {
+      rewritten = rewritten.replace(
+        /\bbgcolor\s*=\s*("[^"]*"|'[^']*'|[^\s>]+)/i,
+        `bgcolor="${convertValue(decodeAttribute(attributes.bgcolor), 'background', mode)}"`
+      );
+    }
+    if (name.toLowerCase() === 'font' && attributes.color) {
+      rewritten = rewritten.replace(
+        /\bcolor\s*=\s*("[^"]*"|'[^']*'|[^\s>]+)/i,
+        `color="${convertValue(decodeAttribute(attributes.color), 'text', mode)}"`
+      );
+    }
+    return rewritten;
+  });
+
+  return `<div style="background-color: ${DARK_BACKGROUND}; color: ${DARK_TEXT}; padding: 12px;">${converted}</div>`;
+}
+
+/**
+ * Check signature HTML for colors that do not survive dark mode
+ */
+export function checkDarkMode(html: string): DarkModeResult {
+  const issues: LintIssue[] = [];
+  const reported = new Set<string>();
+  const report = (issue: Omit<LintIssue, 'location'>, offset: number, element: string, key: string) => {
+    // One issue per rule and color combination; a signature repeats its styles on every line
+    if (reported.has(`${issue.rule}:${key}`)) {
+      return;
+    }
+    reported.add(`${issue.rule}:${key}`);
+    issues.push({ ...issue, location: { ...locate(html, offset), element } });
+  };
+
+  for (const element of styledElements(html)) {
+    if (element.text.trim()) {
+      const text = parseColor(element.color ?? LIGHT_TEXT);
+      const background = parseColor(element.background ?? LIGHT_BACKGROUND);
+      if (text && background && text.a > 0) {
+        const required = requiredContrast(element.fontSize, element.fontWeight);
+        const contrast = (mode: DarkModePreview) => mode === 'light'
+          ? contrastRatio(text, background.a === 0 ? parseColor(LIGHT_BACKGROUND)! : background)
+          : contrastRatio(
+            element.color ? darkModeColor(text, 'text', mode) : parseColor(DARK_TEXT)!,
+            element.background && background.a > 0 ? darkModeColor(background, 'background', mode) : parseColor(DARK_BACKGROUND)!
+          );
+        const failing = DARK_MODE_PREVIEWS.filter((mode) => contrast(mode) < required);
+        const key = `${formatColor(text)}/${element.background ? formatColor(background) : 'none'}`;
+
+        if (failing.includes('light')) {
+          report({
+            severity: 'error',
+            rule: 'low-contrast',
+            message: `${formatColor(text)} text on ${formatColor(background)} has a contrast of ${contrast('light').toFixed(2)}:1; at least ${required}:1 is needed`
+          }, element.offset, element.tag, key);
+        } else if (failing.length > 0) {
+          report({
+            severity: 'warning',
+            rule: 'low-contrast',
+            message: `${formatColor(text)} text becomes hard to read in ${failing.map((mode) => DARK_MODE_LABELS[mode].label.toLowerCase()).join(' and ')} mode (${Math.min(...failing.map(contrast)).toFixed(2)}:1)`
+          }, element.offset, element.tag, key);
+        }
+      }
+    }
+
+    if (element.tag === 'img') {
+      const src = decodeAttribute(element.attributes.src ?? '').trim();
+      const background = element.background ? parseColor(element.background) : null;
+      const lightBackdrop = !!background && background.a > 0 && relativeLuminance(background) > PARTIAL_LIGHT_BACKGROUND;
+      if (TRANSPARENT_IMAGE_PATTERN.test(src) && !lightBackdrop) {
+        report({
+          severity: 'warning',
+          rule: 'transparent-image',
+          message: 'Image may have a transparent background; dark logos disappear on a dark message background. Give the image or its cell a light background color'
+        }, element.offset, element.tag, src);
+      }
+    }
+
+    const ownColors = [
+      { role: 'text' as const, value: element.style.color ?? null },
+      { role: 'background' as const, value: element.backgroundFrom === 'self' ? element.background : null }
+    ];
+    for (const { role, value } of ownColors) {
+      const color = value ? parseColor(value) : null;
+      if (!color || color.a === 0) {
+        continue;
+      }
+      const converted = darkModeColor(color, role, 'dark-partial');
+      if (formatColor(converted) !== formatColor(color)) {
+        report({
+          severity: 'info',
+          rule: 'inverted-color',
+          message: `${role === 'text' ? 'Text' : 'Background'} color ${formatColor(color)} is shown as ${formatColor(converted)} by clients that partially invert colors`
+        }, element.offset, element.tag, `${role}:${formatColor(color)}`);
+      }
+    }
+  }
+
+  const summary: Record<LintSeverity, number> = { error: 0, warning: 0, info: 0 };
+  for (const issue of issues) {
+    summary[issue.severity]++;
+  }
+
+  return { issues, summary };
+}
@@ -0,0 +1,135 @@
+/**
+ * Compliance disclaimer rules.
+ *
+ * Tenants keep an ordered list of rules, each matching senders by
+ * department, office country or email domain and carrying an ordered set of
+ * disclaimer blocks, e.g. a confidentiality notice and the company's
+ * registration details. Every active rule that matches a sender contributes
+ * its blocks, in rule order, and the result is appended below the rendered
+ * template. Templates never see the blocks, so they cannot edit or drop them.
+ */
+
+import { unclosedElements } from "./template-linter";
+
+// Office country as an ISO 3166-1 alpha-2 code, e.g. DE
+export const COUNTRY_PATTERN = /^[A-Z]{2}$/;
+
+export interface DisclaimerBlock {
+  title?: string; // Short heading shown in bold, e.g. Confidentiality
+  text: string; // May use merge fields such as {{tenant_name}}
+}
+
+export interface DisclaimerRule {
+  id: number;
+  name: string;
+  position: number; // Lower rules contribute their blocks first
+  is_active: boolean;
+  match_departments: string[]; // Empty matches every department
+  match_countries: string[]; // Empty matches every country
+  match_email_domains: string[]; // Empty matches every domain
+  blocks: unknown;
+}
+
+// Sender a rule is matched against
+export interface DisclaimerSender {
+  department: string | null;
+  country: string | null;
+  email: string;
+}
+
+// Disclaimer text is set in small gray type below the signature
+const DISCLAIMER_STYLE = 'font-family: Arial, Helvetica, sans-serif; font-size: 11px; line-height: 15px; color: #666666;';
+
+const normalize = (value: string) => value.trim().toLowerCase();
+
+/**
+ * Blocks as stored in a rule's JSON column, ignoring malformed entries
+ */
+export function readDisclaimerBlocks(raw: unknown): DisclaimerBlock[] {
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+  return raw
+    .filter((block): block is DisclaimerBlock =>
+      !!block && typeof block === 'object' && typeof block.text === 'string' && !!block.text.trim()
+    )
+    .map((block) => ({ ...(typeof block.title === 'string' && block.title.trim() ? { title: block.title } : {}), text: block.text }));
+}
+
+/**
+ * Whether a rule applies to a sender. Each criterion with values must
+ * match, comparing case-insensitively; a sender without a department or
+ * country fails a rule that asks for one. Email domains also match
+ * subdomains, so example.com covers mail.example.com.
+ */
+export function disclaimerRuleMatches(rule: DisclaimerRule, sender: DisclaimerSender): boolean {
+  const department = sender.department ? normalize(sender.department) : null;
+  const country = sender.country ? normalize(sender.country) : null;
+  const domain = normalize(sender.email.slice(sender.email.lastIndexOf('@') + 1));
+
+  return (rule.match_departments.length === 0
+      || (!!department && rule.match_departments.some((value) => normalize(value) === department)))
+    && (rule.match_countries.length === 0
+      || (!!country && rule.match_countries.some((value) => normalize(value) === country)))
+    && (rule.match_email_domains.length === 0
+      || rule.match_email_domains.some((value) => domain === normalize(value) || domain.endsWith(`.${normalize(value)}`)));
+}
+
+/**
+ * Active rules that apply to a sender, in order
+ */
+export function matchingDisclaimerRules<T extends DisclaimerRule>(rules: T[], sender: DisclaimerSender): T[] {
+  return rules
+    .filter((rule) => rule.is_active && disclaimerRuleMatches(rule, sender))
+    .sort((a, b) => a.position - b.position || a.id - b.id);
+}
+
+/**
+ * Blocks a sender's signature carries, in rule order. A block shared by
+ * several matching rules is included once.
+ */
+export function disclaimerBlocksFor(rules: DisclaimerRule[], sender: DisclaimerSender): DisclaimerBlock[] {
+  const seen = new Set<string>();
+  return matchingDisclaimerRules(rules, sender)
+    .flatMap((rule) => readDisclaimerBlocks(rule.blocks))
+    .filter((block) => {
+      const key = `${block.title ?? ''}\n${block.text}`;
+      if (seen.has(key)) {
+        return false;
+      }
+      seen.add(key);
+      return true;
+    });
+}
+
+/**
+ * Email-safe HTML for disclaimer blocks, escaping their text with encode
+ */
+export function renderDisclaimerHtml(blocks: DisclaimerBlock[], encode: (value: string) => string): string {
+  return blocks.map((block) => {
+    const title = block.title ? `<strong>${encode(block.title)}</strong><br>` : '';
+    const text = encode(block.text).replace(/\r?\n/g, '<br>');
+    return `<table cellpadding="0" cellspacing="0" border="0" role="presentation" style="border-collapse: collapse; margin-top: 12px;">`
+      + `<tr><td style="${DISCLAIMER_STYLE}">${title}${text}</td></tr></table>`;
+  }).join('');
+}
+
+/**
+ * Append disclaimer HTML below a rendered signature. Elements the signature
+ * leaves open are closed first, so a template cannot wrap the disclaimers
+ * in hidden or clipped markup.
+ */
+export function appendDisclaimerHtml(html: string, disclaimerHtml: string): string {
+  if (!disclaimerHtml) {
+    return html;
+  }
+  const closing = unclosedElements(html).reverse().map((tag) => `</${tag}>`).join('');
+  return `${html}${closing}${disclaimerHtml}`;
+}
+
+/**
+ * Plain-text form of disclaimer blocks
+ */
+export function renderDisclaimerText(blocks: DisclaimerBlock[]): string {
+  return blocks.map((block) => (block.title ? `${block.title}\n${block.text}` : block.text)).join('\n\n');
+}
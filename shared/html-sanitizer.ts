@@ -0,0 +1,312 @@
+/**
+ * Allowlist-based sanitizer for email signature HTML.
+ *
+ * Runs on the server when templates are written and rendered, and in the
+ * client before template HTML is injected into the page. Only markup that
+ * email clients understand survives: layout tags, inline styles, images and
+ * links with safe URL schemes. Everything else is removed and recorded in
+ * a report so authors can see why their markup changed.
+ */
+
+import { NO_TRACK_ATTRIBUTE } from "./link-tracking";
+
+export interface SanitizeRemoval {
+  type: 'element' | 'attribute' | 'declaration' | 'comment';
+  name: string;
+  tag?: string;
+  count: number;
+}
+
+export interface SanitizeReport {
+  changed: boolean;
+  removed: SanitizeRemoval[];
+}
+
+export interface SanitizeResult {
+  html: string;
+  report: SanitizeReport;
+}
+
+// Tags email clients render; anything else is unwrapped (content kept)
+const ALLOWED_TAGS = new Set([
+  'a', 'abbr', 'b', 'blockquote', 'br', 'caption', 'center', 'col', 'colgroup',
+  'div', 'em', 'font', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'hr', 'i', 'img',
+  'li', 'ol', 'p', 'small', 'span', 'strong', 'sub', 'sup', 's', 'table',
+  'tbody', 'td', 'tfoot', 'th', 'thead', 'tr', 'u', 'ul'
+]);
+
+// Tags removed together with everything inside them
+const DROP_CONTENT_TAGS = new Set([
+  'applet', 'audio', 'canvas', 'embed', 'frame', 'frameset', 'head', 'iframe',
+  'math', 'noscript', 'object', 'option', 'script', 'select', 'style', 'svg',
+  'template', 'textarea', 'title', 'video'
+]);
+
+const VOID_TAGS = new Set(['br', 'col', 'hr', 'img']);
+
+const GLOBAL_ATTRIBUTES = new Set([
+  'align', 'bgcolor', 'border', 'dir', 'height', 'lang', 'role', 'style',
+  'title', 'valign', 'width'
+]);
+
+const TAG_ATTRIBUTES: Record<string, string[]> = {
+  a: ['href', 'name', 'rel', 'target', NO_TRACK_ATTRIBUTE],
+  img: ['alt', 'src'],
+  font: ['color', 'face', 'size'],
+  table: ['cellpadding', 'cellspacing'],
+  td: ['colspan', 'rowspan'],
+  th: ['colspan', 'rowspan', 'scope'],
+  col: ['span'],
+  colgroup: ['span'],
+  ol: ['start', 'type'],
+  ul: ['type']
+};
+
+const URL_ATTRIBUTES = new Set(['href', 'src']);
+
+const ALLOWED_URL_SCHEMES = ['http:', 'https:', 'mailto:', 'tel:'];
+
+// CSS that can execute code, load resources or escape the signature's box
+const BLOCKED_CSS_PROPERTIES = new Set(['behavior', '-moz-binding', 'position', 'z-index']);
+
+const TAG_NAME_PATTERN = /^[a-zA-Z][a-zA-Z0-9-]*/;
+const ATTRIBUTE_PATTERN = /([^\s"'<>\/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+
+class RemovalTracker {
+  private entries = new Map<string, SanitizeRemoval>();
+
+  add(type: SanitizeRemoval['type'], name: string, tag?: string) {
+    const key = `${type}:${tag ?? ''}:${name}`;
+    const entry = this.entries.get(key);
+    if (entry) {
+      entry.count++;
+    } else {
+      this.entries.set(key, { type, name, ...(tag ? { tag } : {}), count: 1 });
+    }
+  }
+
+  report(): SanitizeReport {
+    const removed = Array.from(this.entries.values());
+    return { changed: removed.length > 0, removed };
+  }
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&#x([0-9a-f]+);?/gi, (_m, hex: string) => String.fromCharCode(parseInt(hex, 16)))
+    .replace(/&#(\d+);?/g, (_m, dec: string) => String.fromCharCode(parseInt(dec, 10)))
+    .replace(/&colon;/gi, ':')
+    .replace(/&tab;/gi, '\t')
+    .replace(/&newline;/gi, '\n')
+    .replace(/&amp;/gi, '&');
+}
+
+function escapeAttribute(value: string): string {
+  return value
+    .replace(/"/g, '&quot;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+/**
+ * Whether a URL uses an allowed scheme. Relative URLs, fragments and merge
+ * field placeholders such as {{website}} are allowed.
+ */
+export function isSafeUrl(value: string): boolean {
+  // Browsers ignore whitespace and control characters inside schemes
+  const normalized = decodeEntities(value).replace(/[\u0000- \u007f]/g, '').toLowerCase();
+  const scheme = normalized.match(/^([a-z][a-z0-9+.-]*):/);
+  return !scheme || ALLOWED_URL_SCHEMES.includes(scheme[0]);
+}
+
+function sanitizeStyle(style: string, tag: string, tracker: RemovalTracker): string {
+  const kept: string[] = [];
+  let removed = false;
+  for (const declaration of style.split(';')) {
+    const colon = declaration.indexOf(':');
+    if (colon === -1) {
+      continue;
+    }
+    const property = declaration.slice(0, colon).trim().toLowerCase();
+    const value = declaration.slice(colon + 1).trim();
+    const normalizedValue = decodeEntities(value).toLowerCase();
+
+    const unsafeUrl = Array.from(normalizedValue.matchAll(/url\(\s*['"]?([^'")]*)/g))
+      .some((match) => !/^https?:\/\//.test(match[1].trim()));
+
+    if (
+      !property ||
+      BLOCKED_CSS_PROPERTIES.has(property) ||
+      normalizedValue.includes('expression(') ||
+      normalizedValue.includes('javascript:') ||
+      normalizedValue.includes('@import') ||
+      normalizedValue.includes('\\') ||
+      unsafeUrl
+    ) {
+      tracker.add('declaration', property || declaration.trim(), tag);
+      removed = true;
+      continue;
+    }
+    kept.push(`${property}: ${value}`);
+  }
+  // Leave untouched styles byte-for-byte so clean HTML round-trips unchanged
+  return removed ? kept.join('; ') : style.trim();
+}
+
+function sanitizeAttributes(tag: string, source: string, tracker: RemovalTracker): string {
+  const allowed = TAG_ATTRIBUTES[tag] ?? [];
+  const seen = new Set<string>();
+  let output = '';
+
+  for (const match of Array.from(source.matchAll(ATTRIBUTE_PATTERN))) {
+    const name = match[1].toLowerCase();
+    const value = match[2] ?? match[3] ?? match[4] ?? '';
+
+    if (seen.has(name)) {
+      continue;
+    }
+    seen.add(name);
+
+    if (!GLOBAL_ATTRIBUTES.has(name) && !allowed.includes(name)) {
+      tracker.add('attribute', name, tag);
+      continue;
+    }
+
+    if (URL_ATTRIBUTES.has(name) && !isSafeUrl(value)) {
+      tracker.add('attribute', name, tag);
+      continue;
+    }
+
+    let cleanValue = value;
+    if (name === 'style') {
+      cleanValue = sanitizeStyle(value, tag, tracker);
+      if (!cleanValue) {
+        continue;
+      }
+    }
+
+    output += ` ${name}="${escapeAttribute(cleanValue)}"`;
+  }
+
+  // Links opening a new window must not get a handle on the opener
+  if (tag === 'a' && seen.has('target') && !seen.has('rel')) {
+    output += ' rel="noopener noreferrer"';
+  }
+
+  return output;
+}
+
+// Find the end of a tag, skipping '>' inside quoted attribute values
+function findTagEnd(html: string, from: number): number {
+  let quote: string | null = null;
+  for (let i = from; i < html.length; i++) {
+    const char = html[i];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '>') {
+      return i;
+    }
+  }
+  return -1;
+}
+
+// Index just past the element closing a dropped tag, honouring nesting
+function skipElement(html: string, tag: string, from: number): number {
+  const pattern = new RegExp(`<(/?)${tag}(?=[\\s/>])[^>]*>`, 'gi');
+  pattern.lastIndex = from;
+  let depth = 1;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(html))) {
+    depth += match[1] ? -1 : 1;
+    if (depth === 0) {
+      return pattern.lastIndex;
+    }
+  }
+  return html.length;
+}
+
+/**
+ * Sanitize email HTML against the allowlist and report what was removed
+ */
+export function sanitizeEmailHtml(html: string): SanitizeResult {
+  const tracker = new RemovalTracker();
+  let output = '';
+  let index = 0;
+
+  while (index < html.length) {
+    const open = html.indexOf('<', index);
+    if (open === -1) {
+      output += html.slice(index);
+      break;
+    }
+    output += html.slice(index, open);
+
+    // Comments, including Outlook conditional comments
+    if (html.startsWith('<!--', open)) {
+      const close = html.indexOf('-->', open + 4);
+      tracker.add('comment', 'comment');
+      index = close === -1 ? html.length : close + 3;
+      continue;
+    }
+
+    // Doctype and processing instructions
+    if (html[open + 1] === '!' || html[open + 1] === '?') {
+      const close = html.indexOf('>', open);
+      tracker.add('element', html[open + 1] === '!' ? '!doctype' : '?');
+      index = close === -1 ? html.length : close + 1;
+      continue;
+    }
+
+    const isClosing = html[open + 1] === '/';
+    const nameMatch = html.slice(open + (isClosing ? 2 : 1)).match(TAG_NAME_PATTERN);
+    if (!nameMatch) {
+      // A stray '<' is text
+      output += '&lt;';
+      index = open + 1;
+      continue;
+    }
+
+    const tag = nameMatch[0].toLowerCase();
+    const nameEnd = open + (isClosing ? 2 : 1) + nameMatch[0].length;
+    const close = findTagEnd(html, nameEnd);
+    if (close === -1) {
+      // Unterminated tag: drop the rest rather than guess
+      tracker.add('element', tag);
+      break;
+    }
+
+    if (isClosing) {
+      if (ALLOWED_TAGS.has(tag) && !VOID_TAGS.has(tag)) {
+        output += `</${tag}>`;
+      }
+      index = close + 1;
+      continue;
+    }
+
+    let attributeSource = html.slice(nameEnd, close);
+    const selfClosing = attributeSource.trimEnd().endsWith('/');
+    if (selfClosing) {
+      attributeSource = attributeSource.trimEnd().slice(0, -1);
+    }
+
+    if (DROP_CONTENT_TAGS.has(tag)) {
+      tracker.add('element', tag);
+      index = selfClosing ? close + 1 : skipElement(html, tag, close + 1);
+      continue;
+    }
+
+    if (!ALLOWED_TAGS.has(tag)) {
+      tracker.add('element', tag);
+      index = close + 1;
+      continue;
+    }
+
+    const attributes = sanitizeAttributes(tag, attributeSource, tracker);
+    output += VOID_TAGS.has(tag) ? `<${tag}${attributes} />` : `<${tag}${attributes}>`;
+    index = close + 1;
+  }
+
+  return { html: output, report: tracker.report() };
+}
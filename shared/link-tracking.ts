@@ -0,0 +1,68 @@
+/**
+ * Signature link and open tracking.
+ *
+ * When a tenant turns click tracking on, every web link in a rendered
+ * signature is swapped for a short redirect URL that records the click.
+ * Tenants and campaigns can also have UTM parameters appended to their
+ * links. Authors opt a single link out of both by marking its anchor with
+ * NO_TRACK_ATTRIBUTE. Open tracking serves the signature's logo, or a 1x1
+ * pixel, through a beacon URL that counts impressions.
+ */
+
+// Anchor attribute that keeps a link exactly as written
+export const NO_TRACK_ATTRIBUTE = 'data-no-track';
+
+// How signatures carry an open-tracking beacon: not at all, through the
+// logo (a pixel when there is none) or through a 1x1 pixel
+export const OPEN_TRACKING_MODES = ['off', 'logo', 'pixel'] as const;
+export type OpenTrackingMode = typeof OPEN_TRACKING_MODES[number];
+
+export const UTM_PARAMETERS = ['utm_source', 'utm_medium', 'utm_campaign', 'utm_term', 'utm_content'] as const;
+export type UtmParameter = typeof UTM_PARAMETERS[number];
+
+export type UtmParams = Partial<Record<UtmParameter, string>>;
+
+/**
+ * Read stored UTM parameters, ignoring unknown keys and blank values
+ */
+export function readUtmParams(raw: unknown): UtmParams {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return {};
+  }
+
+  const params: UtmParams = {};
+  for (const key of UTM_PARAMETERS) {
+    const value = (raw as Record<string, unknown>)[key];
+    if (typeof value === 'string' && value.trim()) {
+      params[key] = value.trim();
+    }
+  }
+  return params;
+}
+
+/**
+ * Append UTM parameters to a web URL. Parameters the URL already carries
+ * win, so hand-tagged links keep their tags; other URLs are returned as-is.
+ */
+export function appendUtmParams(url: string, params: UtmParams): string {
+  if (!/^https?:\/\//i.test(url) || Object.keys(params).length === 0) {
+    return url;
+  }
+
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return url;
+  }
+
+  let changed = false;
+  for (const key of UTM_PARAMETERS) {
+    const value = params[key];
+    if (value && !parsed.searchParams.has(key)) {
+      parsed.searchParams.set(key, value);
+      changed = true;
+    }
+  }
+  return changed ? parsed.toString() : url;
+}
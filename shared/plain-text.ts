@@ -0,0 +1,131 @@
+/**
+ * Plain-text rendering of signature HTML.
+ *
+ * Used for recipients and ticketing systems that only read text/plain.
+ * Block elements and table rows become line breaks, links keep their
+ * target in angle brackets unless the visible text already shows it,
+ * and images are dropped unless they are the only content of a link.
+ * Merge field placeholders pass through untouched.
+ */
+
+const BLOCK_TAGS = new Set([
+  'address', 'blockquote', 'caption', 'center', 'div', 'h1', 'h2', 'h3', 'h4',
+  'h5', 'h6', 'li', 'ol', 'p', 'table', 'tbody', 'td', 'tfoot', 'th', 'thead',
+  'tr', 'ul'
+]);
+
+const SKIPPED_TAGS = ['head', 'script', 'style', 'title'];
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  copy: '©',
+  reg: '®',
+  trade: '™',
+  middot: '·',
+  bull: '•',
+  ndash: '–',
+  mdash: '—',
+  hellip: '…'
+};
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x'
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10);
+      // Out of range and surrogate code points are kept as written
+      const valid = !Number.isNaN(code) && code <= 0x10FFFF && (code < 0xD800 || code > 0xDFFF);
+      return valid ? String.fromCodePoint(code) : match;
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+function getAttribute(tag: string, name: string): string | null {
+  const match = tag.match(new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i'));
+  return match ? decodeEntities(match[1] ?? match[2] ?? match[3] ?? '') : null;
+}
+
+// Comparable form of a link target or its text, so "tel:+15551234" matches
+// "+1 (555) 1234" and "https://acme.com/" matches "acme.com"
+function comparable(value: string): string {
+  return value
+    .replace(/^(mailto|tel):/i, '')
+    .replace(/^(https?:\/\/)?(www\.)?/i, '')
+    .replace(/[^a-z0-9@.{}_]/gi, '')
+    .replace(/\.$/, '')
+    .toLowerCase();
+}
+
+function normalizeWhitespace(text: string): string {
+  return text
+    .split('\n')
+    .map((line) => line.replace(/[ \t\r\f\v ]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{2,}/g, '\n')
+    .trim();
+}
+
+/**
+ * Convert signature HTML into a readable plain-text signature
+ */
+export function htmlToPlainText(html: string): string {
+  let source = html.replace(/<!--[\s\S]*?-->/g, '');
+  for (const tag of SKIPPED_TAGS) {
+    source = source.replace(new RegExp(`<${tag}\\b[\\s\\S]*?</${tag}\\s*>`, 'gi'), '');
+  }
+  // Source formatting whitespace is not content
+  source = source.replace(/\s+/g, ' ');
+
+  let output = '';
+  let link: { href: string; start: number; alt: string } | null = null;
+
+  const pattern = /<(\/?)([a-zA-Z][a-zA-Z0-9-]*)\b[^>]*>|([^<]+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(source))) {
+    const [token, closing, rawName, text] = match;
+
+    if (text !== undefined) {
+      output += decodeEntities(text);
+      continue;
+    }
+
+    const name = rawName.toLowerCase();
+
+    if (name === 'br') {
+      output += '\n';
+    } else if (name === 'hr') {
+      output += '\n----------\n';
+    } else if (name === 'img') {
+      // Images only matter when they are the content of a link
+      if (link) {
+        link.alt = link.alt || getAttribute(token, 'alt') || '';
+      }
+    } else if (name === 'a') {
+      if (!closing) {
+        const href = getAttribute(token, 'href');
+        link = href && !href.startsWith('#') ? { href, start: output.length, alt: '' } : null;
+      } else if (link) {
+        const visible = output.slice(link.start).trim();
+        if (!visible) {
+          output += link.alt ? `${link.alt} <${link.href}>` : link.href;
+        } else if (comparable(visible) !== comparable(link.href)) {
+          output += ` <${link.href.replace(/^mailto:/i, '')}>`;
+        }
+        link = null;
+      }
+    } else if (name === 'li' && !closing) {
+      output += '\n- ';
+    } else if (BLOCK_TAGS.has(name)) {
+      output += '\n';
+    }
+  }
+
+  return normalizeWhitespace(output);
+}
@@ -36,6 +36,8 @@ export const signatureTemplates = pgTable("signature_templates", {
   name: text("name").notNull(),
   content: json("content").notNull(), // Rich content structure
   htmlContent: text("html_content").notNull(),
+  textContent: text("text_content"), // Hand-written plain-text variant; null when derived from the HTML
+  translations: json("translations"), // Per-locale variants of the disclaimer, title and banner alt text
   formatting: text("formatting").notNull().default("modern"), // Formatting style option
   promotionalImage: text("promotional_image"), // URL to promotional image
   promotionalLink: text("promotional_link"), // Hyperlink for promotional image
@@ -0,0 +1,232 @@
+/**
+ * Email-client-safe signature compiler.
+ *
+ * Renders signature documents (see ./signature-document) for both the
+ * editor (live preview and save) and the server (templates saved from
+ * structured content) so both produce identical markup. Output is
+ * table-based with every style inlined, explicit image dimensions and
+ * web-safe font stacks, which Outlook desktop and webmail clients render
+ * consistently. No flexbox, classes, <style> blocks or emoji icons.
+ */
+
+import {
+  DEFAULT_SIGNATURE_STYLES,
+  SOCIAL_NETWORK_LABELS,
+  documentFromContent,
+  type ContactKind,
+  type ImageBlockFields,
+  type SignatureBlock,
+  type SignatureContent,
+  type SignatureDocument,
+  type SignatureStyles
+} from "./signature-document";
+import { NO_TRACK_ATTRIBUTE } from "./link-tracking";
+
+/**
+ * Web-safe fallbacks for the fonts offered in the editor
+ */
+export const FONT_STACKS: Record<string, string> = {
+  "Arial": "Arial, Helvetica, sans-serif",
+  "Helvetica": "Helvetica, Arial, sans-serif",
+  "Verdana": "Verdana, Geneva, sans-serif",
+  "Trebuchet MS": "'Trebuchet MS', Helvetica, sans-serif",
+  "Calibri": "Calibri, Candara, Segoe, 'Segoe UI', Optima, Arial, sans-serif",
+  "Times New Roman": "'Times New Roman', Times, serif",
+  "Georgia": "Georgia, Times, 'Times New Roman', serif",
+  "Palatino": "'Palatino Linotype', Palatino, 'Book Antiqua', Georgia, serif",
+  "Garamond": "Garamond, Baskerville, 'Baskerville Old Face', Georgia, serif",
+  "Courier New": "'Courier New', Courier, monospace",
+  "Monaco": "Monaco, Consolas, 'Lucida Console', 'Courier New', monospace",
+  "Impact": "Impact, 'Arial Black', Arial, sans-serif",
+  "Brush Script MT": "'Brush Script MT', 'Segoe Script', Georgia, cursive"
+};
+
+// Widest a signature should get so it fits narrow reading panes
+export const MAX_SIGNATURE_WIDTH = 600;
+
+const LOGO_BOX = { width: 200, height: 80 };
+
+/**
+ * Resolve an editor font name to a web-safe font stack. Values that are
+ * already stacks, such as brand kit fonts, are used as written.
+ */
+export function fontStack(font: string): string {
+  if (font.includes(',')) {
+    return font;
+  }
+  return FONT_STACKS[font] || `${font.includes(' ') ? `'${font}'` : font}, Arial, Helvetica, sans-serif`;
+}
+
+/**
+ * Scale an image to fit inside a box without upscaling, keeping its aspect ratio
+ */
+export function fitImage(
+  natural: { width: number; height: number },
+  box: { width: number; height: number }
+): { width: number; height: number } {
+  const scale = Math.min(box.width / natural.width, box.height / natural.height, 1);
+  return {
+    width: Math.max(1, Math.round(natural.width * scale)),
+    height: Math.max(1, Math.round(natural.height * scale))
+  };
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function textStyle(font: string, size: number, weight: string, color: string): string {
+  return `font-family: ${fontStack(font)}; font-size: ${size}px; font-weight: ${weight}; color: ${color}; line-height: ${Math.round(size * 1.4)}px;`;
+}
+
+// Opt-out marker for links a block excludes from click tracking
+function trackAttribute(track?: boolean): string {
+  return track === false ? ` ${NO_TRACK_ATTRIBUTE}="true"` : '';
+}
+
+function link(href: string, text: string, color: string, track?: boolean): string {
+  return `<a href="${escapeHtml(href)}"${trackAttribute(track)} style="color: ${color}; text-decoration: none;">${escapeHtml(text)}</a>`;
+}
+
+function row(content: string, style: string): string {
+  return `<tr><td style="${style}">${content}</td></tr>`;
+}
+
+function tableOpen(extraStyle = ''): string {
+  return `<table cellpadding="0" cellspacing="0" border="0" role="presentation" style="border-collapse: collapse;${extraStyle ? ` ${extraStyle}` : ''}">`;
+}
+
+function imageTag(src: string, alt: string, size: { width: number; height: number }, radius = 0): string {
+  const radiusStyle = radius > 0 ? ` border-radius: ${radius}px;` : '';
+  return `<img src="${escapeHtml(src)}" alt="${escapeHtml(alt)}" width="${size.width}" height="${size.height}" style="display: block; width: ${size.width}px; height: ${size.height}px; border: 0; outline: none; text-decoration: none;${radiusStyle}" />`;
+}
+
+const CONTACT_LABELS: Record<ContactKind, string> = {
+  email: 'Email:',
+  phone: 'Phone:',
+  website: 'Web:'
+};
+
+function contactHref(kind: ContactKind, value: string): string {
+  if (kind === 'email') return `mailto:${value}`;
+  // Merge fields are kept so the number filled in at send time is dialled
+  if (kind === 'phone') return `tel:${value.replace(/\{\{[^}]*\}\}|[^\d+]/g, (part) => part.startsWith('{{') ? part : '')}`;
+  return value;
+}
+
+function contactText(kind: ContactKind, value: string): string {
+  return kind === 'website' ? value.replace(/^https?:\/\//, '') : value;
+}
+
+type Size = { width: number; height: number };
+
+// Display size for an image block: its natural size fitted to the box when
+// known, otherwise the fallback
+function imageSize(block: ImageBlockFields, box: Size, fallback: Size): Size {
+  return block.width && block.height
+    ? fitImage({ width: block.width, height: block.height }, box)
+    : fallback;
+}
+
+function blockImage(block: ImageBlockFields, size: Size, radius = 0): string {
+  const image = imageTag(block.src, block.alt || '', size, radius);
+  return block.href
+    ? `<a href="${escapeHtml(block.href)}"${trackAttribute(block.track)} target="_blank" rel="noopener noreferrer" style="text-decoration: none;">${image}</a>`
+    : image;
+}
+
+// Rows of the text column for the blocks that stack beside the logo
+function textBlockRows(block: SignatureBlock, s: SignatureStyles): string[] {
+  const contactStyle = textStyle(s.contactFont, s.contactSize, s.contactWeight, s.contactColor);
+
+  switch (block.type) {
+    case 'name':
+      return [row(
+        escapeHtml(block.text),
+        `${textStyle(s.nameFont, s.nameSize, s.nameWeight, s.nameColor)} padding: 0 0 ${s.spacing}px 0;`
+      )];
+    case 'title': {
+      const rows: string[] = [];
+      if (block.text) {
+        rows.push(row(
+          escapeHtml(block.text),
+          `${textStyle(s.roleFont, s.roleSize, s.roleWeight, s.roleColor)} padding: 0 0 ${Math.round(s.spacing / 2)}px 0;`
+        ));
+      }
+      if (block.company) {
+        rows.push(row(
+          escapeHtml(block.company),
+          `${textStyle(s.companyFont, s.companySize, s.companyWeight, s.companyColor)} padding: 0 0 ${s.spacing}px 0;`
+        ));
+      }
+      return rows;
+    }
+    case 'contact': {
+      // Text labels instead of emoji icons, which several clients render as boxes
+      const label = `<span style="font-weight: 700; color: ${s.contactColor};">${escapeHtml(block.label || CONTACT_LABELS[block.kind])}</span>&nbsp;`;
+      const value = link(contactHref(block.kind, block.value), contactText(block.kind, block.value), s.linkColor, block.track);
+      return [row(`${label}${value}`, `${contactStyle} padding: 0 0 2px 0;`)];
+    }
+    case 'social': {
+      if (block.links.length === 0) return [];
+      const links = block.links.map((item) => link(item.url, SOCIAL_NETWORK_LABELS[item.network], s.linkColor, block.track));
+      return [row(links.join(`&nbsp;<span style="color: ${s.contactColor};">|</span>&nbsp;`), `${contactStyle} padding: ${s.spacing}px 0 0 0;`)];
+    }
+    default:
+      return [];
+  }
+}
+
+/**
+ * Render a signature document into email-safe HTML. The first logo sits in
+ * a column beside the text blocks; banners and disclaimers span the full
+ * width underneath, in document order.
+ */
+export function renderSignatureDocument(document: SignatureDocument): string {
+  const s: SignatureStyles = { ...DEFAULT_SIGNATURE_STYLES, ...document.styles };
+  const logo = document.blocks.find((block) => block.type === 'logo') as ImageBlockFields | undefined;
+  const textRows = document.blocks.flatMap((block) => textBlockRows(block, s));
+
+  let html = tableOpen(`font-family: ${fontStack(s.nameFont)}; color: #333333;${s.padding > 0 ? ` padding: ${s.padding}px;` : ''}`);
+  html += '<tr>';
+
+  if (logo) {
+    const logoSize = imageSize(logo, LOGO_BOX, { width: LOGO_BOX.height, height: LOGO_BOX.height });
+    html += `<td valign="top" width="${logoSize.width + s.logoSpacing}" style="vertical-align: top; padding: 0 ${s.logoSpacing}px 0 0;">`;
+    html += blockImage(logo, logoSize, s.logoRadius);
+    html += '</td>';
+  }
+
+  html += `<td valign="top" style="vertical-align: top;">${tableOpen()}${textRows.join('')}</table></td>`;
+  html += '</tr>';
+
+  const colspan = logo ? ' colspan="2"' : '';
+  for (const block of document.blocks) {
+    if (block.type === 'banner') {
+      const box = { width: MAX_SIGNATURE_WIDTH, height: s.promoHeight };
+      const banner = blockImage(block, imageSize(block, box, box));
+      html += `<tr><td${colspan} style="padding: 15px 0 0 0;">${banner}</td></tr>`;
+    } else if (block.type === 'disclaimer') {
+      const text = escapeHtml(block.text).replace(/\r?\n/g, '<br />');
+      html += `<tr><td${colspan} style="font-family: ${fontStack(s.contactFont)}; font-size: 11px; line-height: 15px; color: #888888; padding: 12px 0 0 0;">${text}</td></tr>`;
+    }
+  }
+
+  html += '</table>';
+  return html;
+}
+
+/**
+ * Compile the editor's flat fields into email-safe HTML
+ */
+export function compileSignature(
+  content: SignatureContent,
+  styles: Partial<SignatureStyles> = {}
+): string {
+  return renderSignatureDocument(documentFromContent(content, styles));
+}
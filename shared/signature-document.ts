@@ -0,0 +1,256 @@
+/**
+ * Signature document model.
+ *
+ * Templates are stored as a versioned list of typed blocks instead of raw
+ * HTML, so they can be re-rendered when the compiler improves, migrated
+ * between document versions and personalized field by field. The server
+ * and the editor both render documents with shared/signature-compiler.
+ */
+
+export const SIGNATURE_DOCUMENT_VERSION = 1;
+
+// Style settings produced by the editor's style controls and presets
+export interface SignatureStyles {
+  nameSize: number;
+  nameColor: string;
+  nameFont: string;
+  nameWeight: string;
+  roleSize: number;
+  roleColor: string;
+  roleFont: string;
+  roleWeight: string;
+  companySize: number;
+  companyColor: string;
+  companyFont: string;
+  companyWeight: string;
+  contactSize: number;
+  contactColor: string;
+  contactFont: string;
+  contactWeight: string;
+  linkColor: string;
+  spacing: number;
+  padding: number;
+  logoRadius: number;
+  logoSpacing: number;
+  promoHeight: number;
+}
+
+export const DEFAULT_SIGNATURE_STYLES: SignatureStyles = {
+  nameSize: 18,
+  nameColor: "#2563eb",
+  nameFont: "Arial",
+  nameWeight: "600",
+  roleSize: 14,
+  roleColor: "#666666",
+  roleFont: "Arial",
+  roleWeight: "400",
+  companySize: 14,
+  companyColor: "#666666",
+  companyFont: "Arial",
+  companyWeight: "400",
+  contactSize: 13,
+  contactColor: "#333333",
+  contactFont: "Arial",
+  contactWeight: "400",
+  linkColor: "#2563eb",
+  spacing: 8,
+  padding: 0,
+  logoRadius: 0,
+  logoSpacing: 20,
+  promoHeight: 80
+};
+
+export const CONTACT_KINDS = ['email', 'phone', 'website'] as const;
+export type ContactKind = typeof CONTACT_KINDS[number];
+
+export const SOCIAL_NETWORKS = ['linkedin', 'twitter', 'instagram', 'facebook', 'youtube', 'github'] as const;
+export type SocialNetwork = typeof SOCIAL_NETWORKS[number];
+
+export const SOCIAL_NETWORK_LABELS: Record<SocialNetwork, string> = {
+  linkedin: 'LinkedIn',
+  twitter: 'Twitter',
+  instagram: 'Instagram',
+  facebook: 'Facebook',
+  youtube: 'YouTube',
+  github: 'GitHub'
+};
+
+export interface SocialLink {
+  network: SocialNetwork;
+  url: string;
+}
+
+// Natural image size is optional; the compiler scales it into the layout
+export interface ImageBlockFields {
+  src: string;
+  alt?: string;
+  width?: number;
+  height?: number;
+  href?: string;
+  track?: boolean; // false keeps href out of click tracking (shared/link-tracking)
+}
+
+export type SignatureBlock =
+  | { type: 'name'; text: string }
+  | { type: 'title'; text: string; company?: string }
+  | { type: 'contact'; kind: ContactKind; value: string; label?: string; track?: boolean }
+  | { type: 'social'; links: SocialLink[]; track?: boolean }
+  | ({ type: 'logo' } & ImageBlockFields)
+  | ({ type: 'banner' } & ImageBlockFields)
+  | { type: 'disclaimer'; text: string };
+
+export type SignatureBlockType = SignatureBlock['type'];
+
+export const SIGNATURE_BLOCK_TYPES: SignatureBlockType[] = [
+  'name', 'title', 'contact', 'social', 'logo', 'banner', 'disclaimer'
+];
+
+export interface SignatureDocument {
+  version: typeof SIGNATURE_DOCUMENT_VERSION;
+  blocks: SignatureBlock[];
+  styles: Partial<SignatureStyles>;
+}
+
+// Flat fields captured by the template editor form
+export interface SignatureContent {
+  fullName: string;
+  jobTitle?: string;
+  company?: string;
+  email?: string;
+  phone?: string;
+  website?: string;
+  linkedIn?: string;
+  twitter?: string;
+  instagram?: string;
+  logoUrl?: string;
+  logoWidth?: number;
+  logoHeight?: number;
+  promotionalImage?: string;
+  promotionalImageWidth?: number;
+  promotionalImageHeight?: number;
+  promotionalLink?: string;
+  disclaimer?: string;
+}
+
+/**
+ * Build a document from the editor's flat fields
+ */
+export function documentFromContent(
+  content: SignatureContent,
+  styles: Partial<SignatureStyles> = {}
+): SignatureDocument {
+  const blocks: SignatureBlock[] = [];
+
+  if (content.logoUrl) {
+    blocks.push({
+      type: 'logo',
+      src: content.logoUrl,
+      alt: content.company ? `${content.company} logo` : 'Logo',
+      width: content.logoWidth,
+      height: content.logoHeight
+    });
+  }
+
+  blocks.push({ type: 'name', text: content.fullName });
+
+  if (content.jobTitle || content.company) {
+    blocks.push({ type: 'title', text: content.jobTitle || '', company: content.company || undefined });
+  }
+
+  if (content.email) blocks.push({ type: 'contact', kind: 'email', value: content.email });
+  if (content.phone) blocks.push({ type: 'contact', kind: 'phone', value: content.phone });
+  if (content.website) blocks.push({ type: 'contact', kind: 'website', value: content.website });
+
+  const links: SocialLink[] = [];
+  if (content.linkedIn) links.push({ network: 'linkedin', url: content.linkedIn });
+  if (content.twitter) links.push({ network: 'twitter', url: content.twitter });
+  if (content.instagram) links.push({ network: 'instagram', url: content.instagram });
+  if (links.length > 0) {
+    blocks.push({ type: 'social', links });
+  }
+
+  if (content.promotionalImage) {
+    blocks.push({
+      type: 'banner',
+      src: content.promotionalImage,
+      alt: 'Promotional Banner',
+      width: content.promotionalImageWidth,
+      height: content.promotionalImageHeight,
+      href: content.promotionalLink || undefined
+    });
+  }
+
+  if (content.disclaimer) {
+    blocks.push({ type: 'disclaimer', text: content.disclaimer });
+  }
+
+  return { version: SIGNATURE_DOCUMENT_VERSION, blocks, styles };
+}
+
+/**
+ * Flatten a document back into editor fields. The editor has one slot per
+ * field, so only the first block of each kind is used.
+ */
+export function contentFromDocument(document: SignatureDocument): SignatureContent {
+  const find = <T extends SignatureBlockType>(type: T) =>
+    document.blocks.find((block): block is Extract<SignatureBlock, { type: T }> => block.type === type);
+  const contact = (kind: ContactKind) =>
+    document.blocks.find((block) => block.type === 'contact' && block.kind === kind) as
+      Extract<SignatureBlock, { type: 'contact' }> | undefined;
+  const social = (network: SocialNetwork) =>
+    find('social')?.links.find((link) => link.network === network)?.url;
+
+  const logo = find('logo');
+  const banner = find('banner');
+  const title = find('title');
+
+  return {
+    fullName: find('name')?.text || '',
+    jobTitle: title?.text,
+    company: title?.company,
+    email: contact('email')?.value,
+    phone: contact('phone')?.value,
+    website: contact('website')?.value,
+    linkedIn: social('linkedin'),
+    twitter: social('twitter'),
+    instagram: social('instagram'),
+    logoUrl: logo?.src,
+    logoWidth: logo?.width,
+    logoHeight: logo?.height,
+    promotionalImage: banner?.src,
+    promotionalImageWidth: banner?.width,
+    promotionalImageHeight: banner?.height,
+    promotionalLink: banner?.href,
+    disclaimer: find('disclaimer')?.text
+  };
+}
+
+/**
+ * Bring stored content up to the current document version.
+ * Version 0 is the flat editor field object saved before documents existed,
+ * with its style settings under `styles`.
+ */
+export function migrateSignatureDocument(raw: unknown): SignatureDocument {
+  if (!raw || typeof raw !== 'object') {
+    throw new Error('Signature content must be an object');
+  }
+
+  const source = raw as Record<string, any>;
+
+  if (source.version === undefined) {
+    if (typeof source.fullName !== 'string') {
+      throw new Error('Unrecognized signature content');
+    }
+    return documentFromContent(source as SignatureContent, source.styles ?? {});
+  }
+
+  if (source.version === SIGNATURE_DOCUMENT_VERSION && Array.isArray(source.blocks)) {
+    return {
+      version: SIGNATURE_DOCUMENT_VERSION,
+      blocks: source.blocks,
+      styles: source.styles ?? {}
+    };
+  }
+
+  throw new Error(`Unsupported signature document version: ${source.version}`);
+}
@@ -0,0 +1,150 @@
+/**
+ * Starter template gallery.
+ *
+ * The formatting presets the editor offers are paired with block layouts
+ * written in merge fields, so a template created from a starter shows each
+ * sender's own details straight away. Built-in starters ship with the app;
+ * platform admins add more, or replace and hide built-ins by slug, through
+ * the gallery API without a deploy.
+ */
+
+import {
+  SIGNATURE_DOCUMENT_VERSION,
+  type SignatureBlock,
+  type SignatureDocument,
+  type SignatureStyles
+} from "./signature-document";
+
+export const GALLERY_CATEGORIES = ['professional', 'creative', 'minimal'] as const;
+export type GalleryCategory = typeof GALLERY_CATEGORIES[number];
+
+// Style settings behind each formatting option in the editor
+export const FORMATTING_PRESETS: Record<string, Partial<SignatureStyles>> = {
+  modern: {
+    nameFont: 'Arial', nameSize: 18, nameColor: '#2563eb', nameWeight: '600',
+    roleFont: 'Arial', roleSize: 14, roleColor: '#6b7280', roleWeight: '400',
+    companyFont: 'Arial', companySize: 14, companyColor: '#6b7280', companyWeight: '400',
+    contactFont: 'Arial', contactSize: 13, contactColor: '#374151', contactWeight: '400',
+    linkColor: '#2563eb'
+  },
+  classic: {
+    nameFont: 'Times New Roman', nameSize: 20, nameColor: '#2c3e50', nameWeight: '700',
+    roleFont: 'Times New Roman', roleSize: 15, roleColor: '#7f8c8d', roleWeight: '400',
+    companyFont: 'Times New Roman', companySize: 15, companyColor: '#7f8c8d', companyWeight: '400',
+    contactFont: 'Times New Roman', contactSize: 14, contactColor: '#2c3e50', contactWeight: '400',
+    linkColor: '#c0392b'
+  },
+  creative: {
+    nameFont: 'Arial', nameSize: 22, nameColor: '#e53e3e', nameWeight: '700',
+    roleFont: 'Arial', roleSize: 14, roleColor: '#805ad5', roleWeight: '500',
+    companyFont: 'Arial', companySize: 14, companyColor: '#38a169', companyWeight: '500',
+    contactFont: 'Arial', contactSize: 13, contactColor: '#2d3748', contactWeight: '400',
+    linkColor: '#ed8936'
+  },
+  minimal: {
+    nameFont: 'Helvetica', nameSize: 16, nameColor: '#333333', nameWeight: '400',
+    roleFont: 'Helvetica', roleSize: 13, roleColor: '#666666', roleWeight: '400',
+    companyFont: 'Helvetica', companySize: 13, companyColor: '#666666', companyWeight: '400',
+    contactFont: 'Helvetica', contactSize: 12, contactColor: '#666666', contactWeight: '400',
+    linkColor: '#333333'
+  },
+  corporate: {
+    nameFont: 'Calibri', nameSize: 19, nameColor: '#003366', nameWeight: '700',
+    roleFont: 'Calibri', roleSize: 14, roleColor: '#0066cc', roleWeight: '600',
+    companyFont: 'Calibri', companySize: 15, companyColor: '#003366', companyWeight: '500',
+    contactFont: 'Calibri', contactSize: 13, contactColor: '#003366', contactWeight: '400',
+    linkColor: '#0066cc'
+  },
+  tech: {
+    nameFont: 'Monaco', nameSize: 18, nameColor: '#7c3aed', nameWeight: '600',
+    roleFont: 'Monaco', roleSize: 14, roleColor: '#059669', roleWeight: '400',
+    companyFont: 'Monaco', companySize: 14, companyColor: '#dc2626', companyWeight: '400',
+    contactFont: 'Monaco', contactSize: 13, contactColor: '#374151', contactWeight: '400',
+    linkColor: '#2563eb'
+  },
+  elegant: {
+    nameFont: 'Georgia', nameSize: 24, nameColor: '#2d3748', nameWeight: '300',
+    roleFont: 'Georgia', roleSize: 16, roleColor: '#718096', roleWeight: '400',
+    companyFont: 'Georgia', companySize: 16, companyColor: '#718096', companyWeight: '400',
+    contactFont: 'Georgia', contactSize: 14, contactColor: '#4a5568', contactWeight: '400',
+    linkColor: '#805ad5'
+  },
+  bold: {
+    nameFont: 'Impact', nameSize: 24, nameColor: '#e53e3e', nameWeight: '800',
+    roleFont: 'Arial', roleSize: 16, roleColor: '#1a202c', roleWeight: '700',
+    companyFont: 'Arial', companySize: 16, companyColor: '#1a202c', companyWeight: '700',
+    contactFont: 'Arial', contactSize: 14, contactColor: '#1a202c', contactWeight: '600',
+    linkColor: '#e53e3e'
+  },
+  compact: {
+    nameFont: 'Arial', nameSize: 14, nameColor: '#333333', nameWeight: '700',
+    roleFont: 'Arial', roleSize: 11, roleColor: '#666666', roleWeight: '400',
+    companyFont: 'Arial', companySize: 11, companyColor: '#666666', companyWeight: '400',
+    contactFont: 'Arial', contactSize: 11, contactColor: '#666666', contactWeight: '400',
+    linkColor: '#0066cc'
+  },
+  signature: {
+    nameFont: 'Brush Script MT', nameSize: 28, nameColor: '#8b4513', nameWeight: '400',
+    roleFont: 'Georgia', roleSize: 16, roleColor: '#2c3e50', roleWeight: '400',
+    companyFont: 'Georgia', companySize: 16, companyColor: '#2c3e50', companyWeight: '400',
+    contactFont: 'Georgia', contactSize: 14, contactColor: '#2c3e50', contactWeight: '400',
+    linkColor: '#8b4513'
+  }
+};
+
+export interface GalleryEntry {
+  slug: string;
+  name: string;
+  description: string | null;
+  category: GalleryCategory;
+  formatting: string | null; // Editor formatting option the entry starts from
+  content: SignatureDocument;
+  sort_order: number;
+}
+
+// Block layouts, with sender details as merge fields
+const FULL_LAYOUT: SignatureBlock[] = [
+  { type: 'name', text: '{{full_name}}' },
+  { type: 'title', text: '{{title}}', company: '{{tenant_name}}' },
+  { type: 'contact', kind: 'email', value: '{{email}}' },
+  { type: 'contact', kind: 'phone', value: '{{phone}}' },
+  { type: 'contact', kind: 'website', value: 'https://{{tenant_domain}}' }
+];
+
+const SHORT_LAYOUT: SignatureBlock[] = [
+  { type: 'name', text: '{{full_name}}' },
+  { type: 'title', text: '{{title}}', company: '{{tenant_name}}' },
+  { type: 'contact', kind: 'email', value: '{{email}}' }
+];
+
+function starter(
+  slug: string,
+  name: string,
+  description: string,
+  category: GalleryCategory,
+  blocks: SignatureBlock[],
+  sort_order: number
+): GalleryEntry {
+  return {
+    slug,
+    name,
+    description,
+    category,
+    formatting: slug,
+    content: { version: SIGNATURE_DOCUMENT_VERSION, blocks, styles: FORMATTING_PRESETS[slug] },
+    sort_order
+  };
+}
+
+export const STARTER_TEMPLATES: GalleryEntry[] = [
+  starter('modern', 'Modern', 'Clean sans-serif layout with a blue accent', 'professional', FULL_LAYOUT, 10),
+  starter('corporate', 'Corporate', 'Navy tones for established companies', 'professional', FULL_LAYOUT, 20),
+  starter('classic', 'Classic', 'Serif type with a traditional feel', 'professional', FULL_LAYOUT, 30),
+  starter('elegant', 'Elegant', 'Large light serif name for client-facing roles', 'professional', FULL_LAYOUT, 40),
+  starter('tech', 'Tech', 'Monospaced type in bright colors', 'creative', FULL_LAYOUT, 50),
+  starter('creative', 'Creative', 'Playful mix of colors for studios and agencies', 'creative', FULL_LAYOUT, 60),
+  starter('bold', 'Bold', 'Heavy type that stands out in long threads', 'creative', FULL_LAYOUT, 70),
+  starter('signature', 'Handwritten', 'Script name above serif details', 'creative', SHORT_LAYOUT, 80),
+  starter('minimal', 'Minimal', 'Understated gray text', 'minimal', FULL_LAYOUT, 90),
+  starter('compact', 'Compact', 'Name, title and email only, for replies and mobile', 'minimal', SHORT_LAYOUT, 100)
+];
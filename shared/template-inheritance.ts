@@ -0,0 +1,92 @@
+/**
+ * Template inheritance.
+ *
+ * A child template names a parent and overrides only a few regions of it;
+ * everything else comes from the parent's document. Chains are resolved
+ * from the root down, each child applying its overrides on top of the
+ * result so far.
+ */
+
+import type { ImageBlockFields, SignatureBlock, SignatureDocument } from "./signature-document";
+
+export const INHERITABLE_REGIONS = ['banner', 'disclaimer', 'accent_color'] as const;
+export type InheritableRegion = typeof INHERITABLE_REGIONS[number];
+
+// Regions a child replaces. A missing key inherits the parent's region,
+// null removes it from the child.
+export interface TemplateOverrides {
+  banner?: ImageBlockFields | null;
+  disclaimer?: string | null;
+  accent_color?: string;
+}
+
+// Longest parent chain a template may sit at the end of
+export const MAX_INHERITANCE_DEPTH = 5;
+
+/**
+ * Read stored overrides, ignoring anything that is not an override region
+ */
+export function readTemplateOverrides(raw: unknown): TemplateOverrides {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return {};
+  }
+
+  const source = raw as Record<string, unknown>;
+  const overrides: TemplateOverrides = {};
+  for (const region of INHERITABLE_REGIONS) {
+    if (region in source) {
+      (overrides as Record<string, unknown>)[region] = source[region];
+    }
+  }
+  return overrides;
+}
+
+/**
+ * Overridden regions of a template, in INHERITABLE_REGIONS order
+ */
+export function overriddenRegions(overrides: TemplateOverrides): InheritableRegion[] {
+  return INHERITABLE_REGIONS.filter((region) => overrides[region] !== undefined);
+}
+
+// Swap every block of one type for a single replacement, kept at the
+// position of the first block it replaces; new regions go at the end
+function replaceBlocks(
+  blocks: SignatureBlock[],
+  type: SignatureBlock['type'],
+  replacement: SignatureBlock | null
+): SignatureBlock[] {
+  const index = blocks.findIndex((block) => block.type === type);
+  const rest = blocks.filter((block) => block.type !== type);
+  if (!replacement) {
+    return rest;
+  }
+
+  const position = index === -1 ? rest.length : blocks.slice(0, index).filter((block) => block.type !== type).length;
+  return [...rest.slice(0, position), replacement, ...rest.slice(position)];
+}
+
+/**
+ * Apply a child's overrides to its parent's document. The accent color
+ * drives the name and link colors.
+ */
+export function applyTemplateOverrides(
+  document: SignatureDocument,
+  overrides: TemplateOverrides
+): SignatureDocument {
+  let blocks = document.blocks;
+  let styles = document.styles;
+
+  if (overrides.banner !== undefined) {
+    blocks = replaceBlocks(blocks, 'banner', overrides.banner && { type: 'banner', ...overrides.banner });
+  }
+
+  if (overrides.disclaimer !== undefined) {
+    blocks = replaceBlocks(blocks, 'disclaimer', overrides.disclaimer ? { type: 'disclaimer', text: overrides.disclaimer } : null);
+  }
+
+  if (overrides.accent_color !== undefined) {
+    styles = { ...styles, nameColor: overrides.accent_color, linkColor: overrides.accent_color };
+  }
+
+  return { ...document, blocks, styles };
+}
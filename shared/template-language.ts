@@ -0,0 +1,443 @@
+/**
+ * Signature template language.
+ *
+ * Templates personalize HTML and plain text with merge fields:
+ *
+ *   {{first_name}}                          insert a value
+ *   {{title | default:"Team Member"}}       fall back when the value is empty
+ *   {{phone | phone}}                       format with a filter; filters chain
+ *   {{#if mobile}}…{{else}}…{{/if}}         render a section only when a value is set
+ *   {{#each social_links}}…{{/each}}        repeat a section for every item of a list
+ *
+ * Inside {{#each}}, item fields are available by name or as this.<field>,
+ * along with @index, @first and @last. Templates are compiled once and
+ * every problem is reported with its position, so authors see all errors
+ * when saving rather than at send time.
+ */
+
+export interface TemplateSyntaxError {
+  message: string;
+  line: number;
+  column: number;
+}
+
+/**
+ * Merge fields a template may use: plain values, and lists with the
+ * fields of each item
+ */
+export interface TemplateVariables {
+  fields: readonly string[];
+  lists: Record<string, readonly string[]>;
+}
+
+export type MergeItem = Record<string, string | null | undefined>;
+export type MergeValue = string | null | undefined | MergeItem[];
+export type MergeContext = Record<string, MergeValue>;
+
+interface FilterCall {
+  name: string;
+  args: string[];
+}
+
+interface Expression {
+  path: string;
+  filters: FilterCall[];
+}
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'output'; expression: Expression }
+  | { type: 'if'; path: string; then: TemplateNode[]; otherwise: TemplateNode[] }
+  | { type: 'each'; path: string; body: TemplateNode[]; otherwise: TemplateNode[] };
+
+export interface CompiledTemplate {
+  nodes: TemplateNode[];
+  errors: TemplateSyntaxError[];
+}
+
+interface FilterDefinition {
+  minArgs: number;
+  maxArgs: number;
+  apply: (value: string, args: string[]) => string;
+}
+
+/**
+ * Format a phone number from its digits: national numbers as (555) 123-4567,
+ * NANP numbers with a country code as +1 (555) 123-4567. Anything else is
+ * returned as written.
+ */
+export function formatPhoneNumber(value: string): string {
+  const digits = value.replace(/\D/g, '');
+  const international = value.trim().startsWith('+');
+
+  if (digits.length === 10 && !international) {
+    return `(${digits.slice(0, 3)}) ${digits.slice(3, 6)}-${digits.slice(6)}`;
+  }
+  if (digits.length === 11 && digits[0] === '1') {
+    return `+1 (${digits.slice(1, 4)}) ${digits.slice(4, 7)}-${digits.slice(7)}`;
+  }
+  return value.trim();
+}
+
+const FILTERS: Record<string, FilterDefinition> = {
+  default: { minArgs: 1, maxArgs: 1, apply: (value, [fallback]) => value || fallback },
+  uppercase: { minArgs: 0, maxArgs: 0, apply: (value) => value.toUpperCase() },
+  lowercase: { minArgs: 0, maxArgs: 0, apply: (value) => value.toLowerCase() },
+  phone: { minArgs: 0, maxArgs: 0, apply: (value) => value && formatPhoneNumber(value) },
+  url_encode: { minArgs: 0, maxArgs: 0, apply: (value) => encodeURIComponent(value) }
+};
+
+export const TEMPLATE_FILTERS = Object.keys(FILTERS);
+
+// Values that only exist inside {{#each}}
+const LOOP_VARIABLES = ['@index', '@first', '@last'];
+
+const TAG_PATTERN = /\{\{([\s\S]*?)\}\}/g;
+const PATH_PATTERN = /^(@?[a-zA-Z_][a-zA-Z0-9_]*)(\.[a-zA-Z_][a-zA-Z0-9_]*)?$/;
+const ARGUMENT_PATTERN = /^\s*(?:"([^"]*)"|'([^']*)'|([^\s,"']+))\s*(?:,|$)/;
+
+// Blocks rendered to HTML escape quotes inside merge tags
+function decodeTagEntities(value: string): string {
+  return value
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+function position(source: string, offset: number) {
+  const before = source.slice(0, offset);
+  const lines = before.split('\n');
+  return { line: lines.length, column: lines[lines.length - 1].length + 1 };
+}
+
+// Split on | outside quoted filter arguments
+function splitPipes(body: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let quote: string | null = null;
+
+  for (const char of body) {
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '|') {
+      parts.push(current);
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.map((part) => part.trim());
+}
+
+function parseArguments(source: string): string[] | null {
+  const args: string[] = [];
+  let rest = source;
+  while (rest.trim()) {
+    const match = rest.match(ARGUMENT_PATTERN);
+    if (!match) {
+      return null;
+    }
+    args.push(match[1] ?? match[2] ?? match[3]);
+    rest = rest.slice(match[0].length);
+  }
+  return args;
+}
+
+/**
+ * Tracks which names are in scope while compiling
+ */
+class Scope {
+  private variables: TemplateVariables;
+  private itemFields: readonly string[] | null;
+
+  constructor(variables: TemplateVariables, itemFields: readonly string[] | null = null) {
+    this.variables = variables;
+    this.itemFields = itemFields;
+  }
+
+  enterLoop(list: string) {
+    return new Scope(this.variables, this.variables.lists[list] ?? []);
+  }
+
+  // Problem with using a path as a value, or null when it resolves
+  check(path: string, allowList: boolean): string | null {
+    const [head, field] = path.split('.');
+
+    if (head === 'this') {
+      if (!this.itemFields) return `"this" can only be used inside {{#each}}`;
+      if (!field) return `Use this.<field> to read a field of the current item`;
+      return this.itemFields.includes(field) ? null : `Unknown field "${field}" on list items`;
+    }
+    if (field) {
+      return `Unknown merge field "${path}"`;
+    }
+    if (LOOP_VARIABLES.includes(head)) {
+      return this.itemFields ? null : `${head} can only be used inside {{#each}}`;
+    }
+    if (this.itemFields?.includes(head) || this.variables.fields.includes(head)) {
+      return null;
+    }
+    if (head in this.variables.lists) {
+      return allowList ? null : `"${head}" is a list; use {{#each ${head}}} to show its items`;
+    }
+    return `Unknown merge field "${head}"`;
+  }
+}
+
+/**
+ * Parse and validate a template against the merge fields it may use
+ */
+export function compileTemplate(source: string, variables: TemplateVariables): CompiledTemplate {
+  const errors: TemplateSyntaxError[] = [];
+  const fail = (message: string, offset: number) => errors.push({ message, ...position(source, offset) });
+
+  type OpenBlock = {
+    node: Extract<TemplateNode, { type: 'if' | 'each' }>;
+    offset: number;
+    scope: Scope;
+    inElse: boolean;
+  };
+
+  const root: TemplateNode[] = [];
+  const stack: OpenBlock[] = [];
+  const rootScope = new Scope(variables);
+
+  const current = () => stack[stack.length - 1];
+  const scope = () => current()?.node.type === 'each' && !current().inElse
+    ? current().scope.enterLoop(current().node.path)
+    : current()?.scope ?? rootScope;
+  const target = (): TemplateNode[] => {
+    const block = current();
+    if (!block) return root;
+    if (block.node.type === 'if') return block.inElse ? block.node.otherwise : block.node.then;
+    return block.inElse ? block.node.otherwise : block.node.body;
+  };
+
+  let index = 0;
+  for (const match of Array.from(source.matchAll(TAG_PATTERN))) {
+    const offset = match.index!;
+    if (offset > index) {
+      target().push({ type: 'text', value: source.slice(index, offset) });
+    }
+    index = offset + match[0].length;
+
+    const body = decodeTagEntities(match[1]).trim();
+    const block = body.match(/^#(\w+)\s*([\s\S]*)$/);
+
+    if (block) {
+      const [, keyword, argument] = block;
+      if (keyword !== 'if' && keyword !== 'each') {
+        fail(`Unknown block {{#${keyword}}}; use {{#if}} or {{#each}}`, offset);
+        continue;
+      }
+      const path = argument.trim();
+      if (!PATH_PATTERN.test(path)) {
+        fail(`{{#${keyword}}} needs a merge field, e.g. {{#${keyword} ${keyword === 'if' ? 'mobile' : 'social_links'}}}`, offset);
+      } else if (keyword === 'each' && !(path in variables.lists)) {
+        fail(`{{#each}} needs a list; "${path}" is not one`, offset);
+      } else {
+        const problem = scope().check(path, true);
+        if (problem) fail(problem, offset);
+      }
+
+      const node: OpenBlock['node'] = keyword === 'if'
+        ? { type: 'if', path, then: [], otherwise: [] }
+        : { type: 'each', path, body: [], otherwise: [] };
+      target().push(node);
+      stack.push({ node, offset, scope: scope(), inElse: false });
+      continue;
+    }
+
+    const closing = body.match(/^\/(\w+)$/);
+    if (closing) {
+      const open = current();
+      if (!open) {
+        fail(`{{/${closing[1]}}} has no matching {{#${closing[1]}}}`, offset);
+      } else if (open.node.type !== closing[1]) {
+        fail(`{{/${closing[1]}}} closes {{#${open.node.type}}} opened at line ${position(source, open.offset).line}`, offset);
+        stack.pop();
+      } else {
+        stack.pop();
+      }
+      continue;
+    }
+
+    if (body === 'else') {
+      const open = current();
+      if (!open) {
+        fail('{{else}} must be inside {{#if}} or {{#each}}', offset);
+      } else if (open.inElse) {
+        fail(`{{#${open.node.type}}} can only have one {{else}}`, offset);
+      } else {
+        open.inElse = true;
+      }
+      continue;
+    }
+
+    const [path, ...filterSources] = splitPipes(body);
+    if (!PATH_PATTERN.test(path)) {
+      fail(`Invalid merge tag {{${body}}}`, offset);
+      continue;
+    }
+    const problem = scope().check(path, false);
+    if (problem) fail(problem, offset);
+
+    const filters: FilterCall[] = [];
+    for (const filterSource of filterSources) {
+      const parsed = filterSource.match(/^([a-z_]+)\s*(?::([\s\S]*))?$/);
+      const definition = parsed ? FILTERS[parsed[1]] : undefined;
+      if (!parsed || !definition) {
+        fail(`Unknown filter "${filterSource}"; available filters: ${TEMPLATE_FILTERS.join(', ')}`, offset);
+        continue;
+      }
+      const args = parsed[2] !== undefined ? parseArguments(parsed[2]) : [];
+      if (!args) {
+        fail(`Invalid arguments for filter "${parsed[1]}"`, offset);
+        continue;
+      }
+      if (args.length < definition.minArgs || args.length > definition.maxArgs) {
+        fail(
+          definition.maxArgs === 0
+            ? `Filter "${parsed[1]}" takes no arguments`
+            : `Filter "${parsed[1]}" needs ${definition.minArgs} argument${definition.minArgs === 1 ? '' : 's'}, e.g. ${parsed[1]}:"value"`,
+          offset
+        );
+        continue;
+      }
+      filters.push({ name: parsed[1], args });
+    }
+
+    target().push({ type: 'output', expression: { path, filters } });
+  }
+
+  if (index < source.length) {
+    target().push({ type: 'text', value: source.slice(index) });
+  }
+
+  for (const open of stack) {
+    fail(`{{#${open.node.type} ${open.node.path}}} is never closed with {{/${open.node.type}}}`, open.offset);
+  }
+
+  return { nodes: root, errors };
+}
+
+interface RenderScope {
+  context: MergeContext;
+  item?: MergeItem;
+  loop?: { index: number; count: number };
+}
+
+function lookup(path: string, scope: RenderScope): MergeValue | boolean {
+  const [head, field] = path.split('.');
+  if (head === 'this') return scope.item?.[field];
+  if (head === '@index') return scope.loop ? String(scope.loop.index) : undefined;
+  if (head === '@first') return scope.loop?.index === 0;
+  if (head === '@last') return scope.loop ? scope.loop.index === scope.loop.count - 1 : false;
+  if (scope.item && head in scope.item) return scope.item[head];
+  return scope.context[head];
+}
+
+function isTruthy(value: MergeValue | boolean): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  if (typeof value === 'string') return value.trim() !== '';
+  return !!value;
+}
+
+function renderNodes(nodes: TemplateNode[], scope: RenderScope, encode: (value: string) => string): string {
+  let output = '';
+  for (const node of nodes) {
+    switch (node.type) {
+      case 'text':
+        output += node.value;
+        break;
+      case 'output': {
+        const value = lookup(node.expression.path, scope);
+        let text = typeof value === 'string' ? value : '';
+        for (const filter of node.expression.filters) {
+          text = FILTERS[filter.name].apply(text, filter.args);
+        }
+        output += text ? encode(text) : '';
+        break;
+      }
+      case 'if':
+        output += renderNodes(isTruthy(lookup(node.path, scope)) ? node.then : node.otherwise, scope, encode);
+        break;
+      case 'each': {
+        const items = scope.context[node.path];
+        if (!Array.isArray(items) || items.length === 0) {
+          output += renderNodes(node.otherwise, scope, encode);
+          break;
+        }
+        items.forEach((item, index) => {
+          output += renderNodes(node.body, { context: scope.context, item, loop: { index, count: items.length } }, encode);
+        });
+        break;
+      }
+    }
+  }
+  return output;
+}
+
+/**
+ * Render a compiled template. Every inserted value goes through encode,
+ * after filters are applied.
+ */
+export function renderCompiledTemplate(
+  template: CompiledTemplate,
+  context: MergeContext,
+  encode: (value: string) => string
+): string {
+  return renderNodes(template.nodes, { context }, encode);
+}
+
+/**
+ * Merge fields that come out empty where a template would show them for a
+ * context: outputs on the branches actually taken that render nothing,
+ * even after filters such as default, and lists that are empty without an
+ * {{else}}. Item fields are named <list>.<field>.
+ */
+export function unfilledMergeFields(template: CompiledTemplate, context: MergeContext): string[] {
+  const unfilled = new Set<string>();
+
+  const visit = (nodes: TemplateNode[], scope: RenderScope, list: string | null) => {
+    for (const node of nodes) {
+      switch (node.type) {
+        case 'output': {
+          const value = lookup(node.expression.path, scope);
+          let text = typeof value === 'string' ? value : '';
+          for (const filter of node.expression.filters) {
+            text = FILTERS[filter.name].apply(text, filter.args);
+          }
+          if (!text.trim() && !node.expression.path.startsWith('@')) {
+            const field = node.expression.path.replace(/^this\./, '');
+            unfilled.add(list && scope.item && field in scope.item ? `${list}.${field}` : field);
+          }
+          break;
+        }
+        case 'if':
+          visit(isTruthy(lookup(node.path, scope)) ? node.then : node.otherwise, scope, list);
+          break;
+        case 'each': {
+          const items = scope.context[node.path];
+          if (!Array.isArray(items) || items.length === 0) {
+            if (node.otherwise.length === 0) {
+              unfilled.add(node.path);
+            }
+            visit(node.otherwise, scope, list);
+            break;
+          }
+          items.forEach((item, index) => {
+            visit(node.body, { context: scope.context, item, loop: { index, count: items.length } }, node.path);
+          });
+          break;
+        }
+      }
+    }
+  };
+
+  visit(template.nodes, { context }, null);
+  return Array.from(unfilled);
+}
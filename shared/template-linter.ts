@@ -0,0 +1,399 @@
+/**
+ * Signature template linter.
+ *
+ * Flags markup that renders badly or not at all once a signature leaves
+ * the app: oversized HTML, images without dimensions or alt text, relative
+ * URLs recipients cannot load, CSS that common email clients ignore, fonts
+ * without fallbacks and malformed links. Shared by the lint endpoint and
+ * the editor so both report the same issues.
+ */
+
+import { FONT_STACKS } from "./signature-compiler";
+
+export type LintSeverity = 'error' | 'warning' | 'info';
+
+export interface LintIssue {
+  rule: string;
+  severity: LintSeverity;
+  message: string;
+  location: {
+    line: number;
+    column: number;
+    element?: string;
+  };
+}
+
+type LintFinding = Omit<LintIssue, 'location'>;
+
+export interface LintResult {
+  issues: LintIssue[];
+  summary: Record<LintSeverity, number>;
+  size: { characters: number; limit: number };
+}
+
+// Gmail rejects signatures longer than this
+export const SIGNATURE_CHARACTER_LIMIT = 10000;
+
+const SIZE_WARNING_THRESHOLD = 0.8;
+
+// Widest and tallest an image can be before it dominates the message
+const MAX_IMAGE_WIDTH = 600;
+const MAX_IMAGE_HEIGHT = 300;
+
+const GENERIC_FONT_FAMILIES = ['serif', 'sans-serif', 'monospace', 'cursive', 'fantasy', 'system-ui'];
+
+// Fonts installed on practically every Windows and macOS machine
+const WEB_SAFE_FONTS = new Set([
+  ...Object.keys(FONT_STACKS).map((font) => font.toLowerCase()),
+  'arial black', 'book antiqua', 'candara', 'consolas', 'geneva', 'lucida console',
+  'lucida sans unicode', 'optima', 'palatino linotype', 'segoe ui', 'tahoma', 'times'
+]);
+
+// CSS that Outlook desktop, Gmail or both drop
+const UNSUPPORTED_CSS: Record<string, { severity: LintSeverity; message: string; values?: RegExp }> = {
+  'display': { severity: 'warning', message: 'Flexbox and grid layouts are not supported by Outlook or Gmail; use tables', values: /flex|grid/ },
+  'position': { severity: 'warning', message: 'Positioning is stripped by most email clients' },
+  'float': { severity: 'warning', message: 'Floats are ignored by Outlook desktop; use table cells' },
+  'background-image': { severity: 'warning', message: 'Background images are not shown in Outlook desktop' },
+  'box-shadow': { severity: 'info', message: 'Shadows are ignored by Outlook and Gmail' },
+  'border-radius': { severity: 'info', message: 'Rounded corners are ignored by Outlook desktop' },
+  'transform': { severity: 'warning', message: 'Transforms are not supported in email' },
+  'transition': { severity: 'info', message: 'Transitions have no effect in email' },
+  'animation': { severity: 'warning', message: 'Animations are not supported in email' },
+  'object-fit': { severity: 'warning', message: 'object-fit is ignored by Outlook and Gmail; size images with width and height' },
+  'max-width': { severity: 'info', message: 'max-width is ignored by Outlook desktop; set an explicit width' },
+  'opacity': { severity: 'info', message: 'Opacity is ignored by Outlook desktop' }
+};
+
+// Opening tags and attribute lists, shared with the other signature checkers
+export const TAG_PATTERN = /<([a-zA-Z][a-zA-Z0-9-]*)\b((?:[^>"']|"[^"]*"|'[^']*')*)>/g;
+const ATTRIBUTE_PATTERN = /([^\s"'<>\/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+const PLACEHOLDER_PATTERN = /\{\{[^}]*\}\}/;
+
+export function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of Array.from(source.matchAll(ATTRIBUTE_PATTERN))) {
+    const name = match[1].toLowerCase();
+    if (!(name in attributes)) {
+      attributes[name] = match[2] ?? match[3] ?? match[4] ?? '';
+    }
+  }
+  return attributes;
+}
+
+export function parseStyle(style: string): Array<{ property: string; value: string }> {
+  return style
+    .split(';')
+    .map((declaration) => {
+      const colon = declaration.indexOf(':');
+      return colon === -1
+        ? null
+        : { property: declaration.slice(0, colon).trim().toLowerCase(), value: declaration.slice(colon + 1).trim() };
+    })
+    .filter((declaration): declaration is { property: string; value: string } => !!declaration && !!declaration.property);
+}
+
+export function decodeAttribute(value: string): string {
+  return value.replace(/&amp;/g, '&').replace(/&quot;/g, '"').replace(/&#39;/g, "'");
+}
+
+// Line and column (both 1-based) of an offset in the source
+export function locate(html: string, offset: number): { line: number; column: number } {
+  const before = html.slice(0, offset);
+  const lastBreak = before.lastIndexOf('\n');
+  return {
+    line: before.split('\n').length,
+    column: offset - lastBreak
+  };
+}
+
+// Opening and closing tags, for walking the element tree
+const ELEMENT_PATTERN = /<(\/?)([a-zA-Z][a-zA-Z0-9-]*)\b((?:[^>"']|"[^"]*"|'[^']*')*)>/g;
+const VOID_ELEMENTS = new Set(['img', 'br', 'hr', 'meta', 'input', 'col', 'wbr', 'source', 'area']);
+
+/**
+ * An element with the colors and font size it ends up with, inherited from
+ * its ancestors where it does not set them itself
+ */
+export interface StyledElement {
+  tag: string;
+  offset: number;
+  attributes: Record<string, string>;
+  style: Record<string, string>; // The element's own declarations
+  color: string | null;
+  background: string | null; // Nearest background color set on it or an ancestor
+  backgroundFrom: 'self' | 'ancestor' | null;
+  fontSize: number | null; // px
+  fontWeight: string | null;
+  text: string; // Text directly inside the element, outside its children
+}
+
+// Background color an element sets, if any
+function ownBackground(style: Record<string, string>, attributes: Record<string, string>): string | null {
+  if (style['background-color']) return style['background-color'];
+  // The background shorthand only counts when it is a plain color
+  if (style.background && /^(#[0-9a-f]{3,8}|rgba?\([^)]*\)|[a-z]+)$/i.test(style.background.trim())) {
+    return style.background.trim();
+  }
+  return attributes.bgcolor ? decodeAttribute(attributes.bgcolor) : null;
+}
+
+/**
+ * Walk signature HTML and resolve each element's inherited text color,
+ * background and font size. Only inline styles and presentational
+ * attributes are considered; signatures carry no style sheets.
+ */
+export function styledElements(html: string): StyledElement[] {
+  const elements: StyledElement[] = [];
+  const open: StyledElement[] = [];
+  let last = 0;
+
+  const addText = (text: string) => {
+    const parent = open[open.length - 1];
+    if (parent && text.trim()) {
+      parent.text += text;
+    }
+  };
+
+  for (const match of Array.from(html.matchAll(ELEMENT_PATTERN))) {
+    const offset = match.index ?? 0;
+    addText(html.slice(last, offset));
+    last = offset + match[0].length;
+
+    const tag = match[2].toLowerCase();
+    if (match[1]) {
+      const index = open.map((element) => element.tag).lastIndexOf(tag);
+      if (index !== -1) {
+        open.length = index;
+      }
+      continue;
+    }
+
+    const attributes = parseAttributes(match[3]);
+    const style = Object.fromEntries(
+      parseStyle(decodeAttribute(attributes.style ?? '')).map(({ property, value }) => [property, value])
+    );
+    const parent = open[open.length - 1];
+    const background = ownBackground(style, attributes);
+    const fontSize = style['font-size'] ? parseFloat(style['font-size']) : NaN;
+
+    const element: StyledElement = {
+      tag,
+      offset,
+      attributes,
+      style,
+      color: style.color ?? (tag === 'font' && attributes.color ? decodeAttribute(attributes.color) : null) ?? parent?.color ?? null,
+      background: background ?? parent?.background ?? null,
+      backgroundFrom: background ? 'self' : parent?.background ? 'ancestor' : null,
+      fontSize: /px$/i.test(style['font-size'] ?? '') && !isNaN(fontSize) ? fontSize : parent?.fontSize ?? null,
+      fontWeight: style['font-weight'] ?? (tag === 'strong' || tag === 'b' ? 'bold' : null) ?? parent?.fontWeight ?? null,
+      text: ''
+    };
+    elements.push(element);
+
+    if (!VOID_ELEMENTS.has(tag) && !/\/\s*$/.test(match[3])) {
+      open.push(element);
+    }
+  }
+  addText(html.slice(last));
+
+  return elements;
+}
+
+/**
+ * Tags of the elements still open at the end of the HTML, outermost first
+ */
+export function unclosedElements(html: string): string[] {
+  const open: string[] = [];
+  for (const match of Array.from(html.matchAll(ELEMENT_PATTERN))) {
+    const tag = match[2].toLowerCase();
+    if (match[1]) {
+      const index = open.lastIndexOf(tag);
+      if (index !== -1) {
+        open.length = index;
+      }
+    } else if (!VOID_ELEMENTS.has(tag) && !/\/\s*$/.test(match[3])) {
+      open.push(tag);
+    }
+  }
+  return open;
+}
+
+function checkUrl(url: string, kind: 'image' | 'link'): LintFinding | null {
+  if (PLACEHOLDER_PATTERN.test(url)) {
+    return null;
+  }
+
+  if (kind === 'link') {
+    if (/^mailto:/i.test(url)) {
+      return /^mailto:[^@\s]+@[^@\s]+\.[^@\s]+/i.test(url)
+        ? null
+        : { severity: 'error', rule: 'malformed-link', message: `"${url}" is not a valid email link` };
+    }
+    if (/^tel:/i.test(url)) {
+      return /^tel:\+?[\d\-.() ]*\d/i.test(url)
+        ? null
+        : { severity: 'error', rule: 'malformed-link', message: `"${url}" is not a valid phone link` };
+    }
+  }
+
+  if (!/^[a-z][a-z0-9+.-]*:/i.test(url)) {
+    return {
+      severity: kind === 'image' ? 'error' : 'warning',
+      rule: 'absolute-url',
+      message: `"${url}" is a relative URL; recipients cannot resolve it. Use an absolute https:// URL`
+    };
+  }
+
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return { severity: 'error', rule: 'malformed-link', message: `"${url}" is not a valid URL` };
+  }
+
+  if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+    return { severity: 'error', rule: 'malformed-link', message: `"${parsed.protocol}" URLs do not work in email` };
+  }
+
+  if (parsed.protocol === 'http:' && kind === 'image') {
+    return { severity: 'warning', rule: 'insecure-url', message: `"${url}" is served over http; some clients block insecure images` };
+  }
+
+  return null;
+}
+
+function checkFonts(family: string): LintFinding[] {
+  const names = family.split(',').map((font) => font.trim().replace(/^['"]|['"]$/g, '')).filter(Boolean);
+  const fonts = names.map((font) => font.toLowerCase());
+  const issues: LintFinding[] = [];
+
+  if (fonts.length > 0 && !GENERIC_FONT_FAMILIES.includes(fonts[fonts.length - 1])) {
+    issues.push({
+      severity: 'warning',
+      rule: 'font-fallback',
+      message: `Font stack "${family}" has no generic fallback such as sans-serif or serif`
+    });
+  }
+
+  // Only the preferred font matters; later entries are the fallbacks
+  if (fonts.length > 0 && !WEB_SAFE_FONTS.has(fonts[0]) && !GENERIC_FONT_FAMILIES.includes(fonts[0])) {
+    issues.push({
+      severity: 'info',
+      rule: 'web-font',
+      message: `"${names[0]}" is not installed on most recipients' machines; the next font in the stack will be used`
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Lint signature HTML for email-client compatibility
+ */
+export function lintTemplateHtml(html: string): LintResult {
+  const issues: LintIssue[] = [];
+  const report = (issue: LintFinding, offset: number, element?: string) => {
+    issues.push({ ...issue, location: { ...locate(html, offset), ...(element ? { element } : {}) } });
+  };
+
+  if (html.length > SIGNATURE_CHARACTER_LIMIT) {
+    report({
+      severity: 'error',
+      rule: 'signature-size',
+      message: `Signature is ${html.length} characters; Gmail rejects signatures over ${SIGNATURE_CHARACTER_LIMIT}`
+    }, 0);
+  } else if (html.length > SIGNATURE_CHARACTER_LIMIT * SIZE_WARNING_THRESHOLD) {
+    report({
+      severity: 'warning',
+      rule: 'signature-size',
+      message: `Signature is ${html.length} characters, close to Gmail's ${SIGNATURE_CHARACTER_LIMIT} character limit once merge fields are filled in`
+    }, 0);
+  }
+
+  for (const match of Array.from(html.matchAll(TAG_PATTERN))) {
+    const tag = match[1].toLowerCase();
+    const offset = match.index ?? 0;
+    const attributes = parseAttributes(match[2]);
+
+    if (tag === 'img') {
+      const src = decodeAttribute(attributes.src ?? '').trim();
+      if (!src) {
+        report({ severity: 'error', rule: 'image-src', message: 'Image has no src' }, offset, tag);
+      } else {
+        const urlIssue = checkUrl(src, 'image');
+        if (urlIssue) report(urlIssue, offset, tag);
+      }
+
+      if (attributes.alt === undefined || !attributes.alt.trim()) {
+        report({
+          severity: 'warning',
+          rule: 'image-alt',
+          message: 'Image has no alt text; it is shown when images are blocked and read by screen readers'
+        }, offset, tag);
+      }
+
+      const width = Number(attributes.width);
+      const height = Number(attributes.height);
+      if (!attributes.width || !attributes.height) {
+        report({
+          severity: 'warning',
+          rule: 'image-dimensions',
+          message: 'Image has no width and height attributes; Outlook shows it at its full natural size'
+        }, offset, tag);
+      }
+      if (width > MAX_IMAGE_WIDTH || height > MAX_IMAGE_HEIGHT) {
+        report({
+          severity: 'warning',
+          rule: 'image-size',
+          message: `Image is ${attributes.width || '?'}x${attributes.height || '?'}px; keep signature images within ${MAX_IMAGE_WIDTH}x${MAX_IMAGE_HEIGHT}px`
+        }, offset, tag);
+      }
+    }
+
+    if (tag === 'a') {
+      const href = attributes.href === undefined ? undefined : decodeAttribute(attributes.href).trim();
+      if (!href || href === '#') {
+        report({ severity: 'warning', rule: 'malformed-link', message: 'Link has no destination' }, offset, tag);
+      } else {
+        const urlIssue = checkUrl(href, 'link');
+        if (urlIssue) report(urlIssue, offset, tag);
+      }
+    }
+
+    if (tag === 'font' && attributes.face) {
+      for (const issue of checkFonts(decodeAttribute(attributes.face))) {
+        report(issue, offset, tag);
+      }
+    }
+
+    if (attributes.style) {
+      for (const { property, value } of parseStyle(decodeAttribute(attributes.style))) {
+        const rule = UNSUPPORTED_CSS[property];
+        if (rule && (!rule.values || rule.values.test(value.toLowerCase()))) {
+          report({
+            severity: rule.severity,
+            rule: 'unsupported-css',
+            message: `${property}: ${value} — ${rule.message}`
+          }, offset, tag);
+        }
+        if (property === 'font-family') {
+          for (const issue of checkFonts(value)) {
+            report(issue, offset, tag);
+          }
+        }
+      }
+    }
+  }
+
+  const summary: Record<LintSeverity, number> = { error: 0, warning: 0, info: 0 };
+  for (const issue of issues) {
+    summary[issue.severity]++;
+  }
+
+  return {
+    issues,
+    summary,
+    size: { characters: html.length, limit: SIGNATURE_CHARACTER_LIMIT }
+  };
+}
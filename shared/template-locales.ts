@@ -0,0 +1,124 @@
+/**
+ * Localized template variants.
+ *
+ * A template is written in its tenant's language and can carry per-locale
+ * variants of its translatable strings. When a signature is rendered, each
+ * string is taken from the first locale in the reader's fallback chain
+ * that translates it; strings nobody translated keep the template's text.
+ */
+
+import type { SignatureDocument } from "./signature-document";
+
+export const DEFAULT_LOCALE = 'en';
+
+// Language with an optional region, e.g. de or de-AT
+export const LOCALE_PATTERN = /^[a-z]{2,3}(-[A-Z]{2})?$/;
+
+// Locales offered by the editor; others can still be stored
+export const LOCALE_LABELS: Record<string, string> = {
+  en: 'English',
+  de: 'Deutsch',
+  es: 'Español',
+  fr: 'Français',
+  it: 'Italiano',
+  nl: 'Nederlands',
+  pt: 'Português'
+};
+
+export const TRANSLATABLE_STRINGS = ['disclaimer', 'title_label', 'banner_alt'] as const;
+export type TranslatableString = typeof TRANSLATABLE_STRINGS[number];
+
+export const TRANSLATABLE_STRING_LABELS: Record<TranslatableString, string> = {
+  disclaimer: 'Disclaimer',
+  title_label: 'Job title',
+  banner_alt: 'Banner alt text'
+};
+
+export type TemplateTranslation = Partial<Record<TranslatableString, string>>;
+export type TemplateTranslations = Record<string, TemplateTranslation>;
+
+/**
+ * Locales to try in order: each preference, then its language without the
+ * region. For example de-AT, en-GB gives de-AT, de, en-GB, en.
+ */
+export function localeFallbackChain(...preferences: Array<string | null | undefined>): string[] {
+  const chain: string[] = [];
+  for (const locale of preferences) {
+    if (!locale) continue;
+    for (const candidate of [locale, locale.split('-')[0]]) {
+      if (!chain.includes(candidate)) {
+        chain.push(candidate);
+      }
+    }
+  }
+  return chain;
+}
+
+/**
+ * Read stored translations, dropping malformed locales and empty strings
+ */
+export function readTemplateTranslations(raw: unknown): TemplateTranslations {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return {};
+  }
+
+  const translations: TemplateTranslations = {};
+  for (const [locale, strings] of Object.entries(raw as Record<string, unknown>)) {
+    if (!LOCALE_PATTERN.test(locale) || !strings || typeof strings !== 'object') {
+      continue;
+    }
+    const translation: TemplateTranslation = {};
+    for (const key of TRANSLATABLE_STRINGS) {
+      const value = (strings as Record<string, unknown>)[key];
+      if (typeof value === 'string' && value.trim()) {
+        translation[key] = value;
+      }
+    }
+    if (Object.keys(translation).length > 0) {
+      translations[locale] = translation;
+    }
+  }
+  return translations;
+}
+
+/**
+ * Apply the best translation of each string to a document. Returns the
+ * most preferred locale that supplied a string, or null when the
+ * template's own text is used throughout.
+ */
+export function localizeDocument(
+  document: SignatureDocument,
+  translations: TemplateTranslations,
+  chain: string[]
+): { document: SignatureDocument; locale: string | null } {
+  const used = new Set<string>();
+  const pick = (key: TranslatableString) => {
+    const match = chain.find((candidate) => translations[candidate]?.[key]);
+    if (match) {
+      used.add(match);
+    }
+    return match ? translations[match][key] : undefined;
+  };
+
+  const disclaimer = pick('disclaimer');
+  const titleLabel = pick('title_label');
+  const bannerAlt = pick('banner_alt');
+
+  const blocks = document.blocks.map((block) => {
+    if (block.type === 'disclaimer' && disclaimer !== undefined) {
+      return { ...block, text: disclaimer };
+    }
+    if (block.type === 'title' && titleLabel !== undefined) {
+      return { ...block, text: titleLabel };
+    }
+    if (block.type === 'banner' && bannerAlt !== undefined) {
+      return { ...block, alt: bannerAlt };
+    }
+    return block;
+  });
+
+  return {
+    document: { ...document, blocks },
+    locale: chain.find((candidate) => used.has(candidate)) ?? null
+  };
+}